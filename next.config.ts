@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // Native module; must be loaded from node_modules at runtime
+  serverExternalPackages: ["better-sqlite3"],
 };
 
 export default nextConfig;
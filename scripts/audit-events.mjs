@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * Audits every stored event log through a running server's
+ * GET /api/admin/integrity and prints what it finds.
+ *
+ * Usage: npm run audit:events [-- <base URL>]
+ *
+ * Authenticates with ESCROW_API_KEY (an admin's key) if set, otherwise with a
+ * development session for ESCROW_AUDIT_USER (default: "admin").
+ * Exits with 1 if any log fails its checks and 2 if the audit could not run.
+ */
+
+const baseUrl = (process.argv[2] ?? process.env.ESCROW_URL ?? "http://localhost:3000").replace(/\/$/, "");
+
+async function authHeaders() {
+  if (process.env.ESCROW_API_KEY) return { "X-API-Key": process.env.ESCROW_API_KEY };
+
+  const response = await fetch(`${baseUrl}/api/auth/session`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId: process.env.ESCROW_AUDIT_USER ?? "admin" }),
+  });
+  const data = await response.json();
+  if (!data.success) throw new Error(`Could not start a session: ${data.error}`);
+  return { Authorization: `Bearer ${data.token}` };
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/admin/integrity`, { headers: await authHeaders() });
+  const report = await response.json();
+  if (!report.success) throw new Error(report.error);
+
+  console.log(`Checked ${report.events} events in ${report.checked} escrows`);
+  for (const issue of report.issues) {
+    console.log(`\n${issue.escrowId}`);
+    for (const violation of issue.violations) {
+      console.log(`  #${violation.sequence} ${violation.eventId} [${violation.kind}] ${violation.message}`);
+    }
+  }
+  if (!report.valid) {
+    console.log(`\n${report.issues.length} event log(s) failed integrity checks`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(`Audit failed: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 2;
+});
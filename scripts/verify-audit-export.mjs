@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+/**
+ * Verifies an escrow audit log exported from GET /api/escrow/[id]/export,
+ * without the server or any of its code.
+ *
+ * Usage: node scripts/verify-audit-export.mjs <export.json>
+ *
+ * Each event's hash is the SHA-256 (hex) of its canonical JSON, `hash` left
+ * out and `previousHash` included; the first event chains on from the genesis
+ * hash. Canonical JSON sorts object keys and leaves out undefined properties.
+ * Compare the printed head hash with one recorded earlier to prove that nothing
+ * before it has changed since.
+ * Exits with 1 if the chain does not verify and 2 if the file cannot be read.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+
+function canonicalize(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalize(item))).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function verify(document) {
+  if (document.format !== "escrow-audit-log" || document.version !== 1) {
+    throw new Error("Not an escrow audit log export");
+  }
+
+  let head = document.chain.genesisHash;
+  for (const [index, event] of document.events.entries()) {
+    const { hash, ...content } = event;
+    const at = `Event ${index + 1} (${event.id})`;
+    if (event.previousHash !== head) return `${at} does not chain on from the event before it`;
+    const computed = createHash(document.chain.algorithm).update(canonicalize(content)).digest("hex");
+    if (computed !== hash) return `${at}: content does not match its hash`;
+    head = hash;
+  }
+
+  const stored = document.chain.storedHead;
+  if (!stored) return "The export carries no stored head";
+  if (stored.length !== document.events.length || stored.hash !== head) {
+    return `The stored head (${stored.length} events, ${stored.hash}) does not match the events`;
+  }
+  return null;
+}
+
+try {
+  const file = process.argv[2];
+  if (!file) throw new Error("Usage: node scripts/verify-audit-export.mjs <export.json>");
+  const document = JSON.parse(fs.readFileSync(file, "utf-8"));
+
+  const problem = verify(document);
+  if (problem) {
+    console.log(`Escrow ${document.escrowId}: NOT VERIFIED - ${problem}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`Escrow ${document.escrowId}: verified ${document.events.length} events`);
+    console.log(`Head hash: ${document.chain.storedHead.hash}`);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 2;
+}
@@ -0,0 +1,150 @@
+/**
+ * Integration tests for raising, assigning and resolving disputes, and the admin dispute queue
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as performActionRoute } from "@/app/api/escrow/[id]/actions/route";
+import { GET as disputeQueueRoute } from "@/app/api/admin/disputes/route";
+import { escrowStore } from "@/storage/escrow-store";
+import { ActionOptions, Actor, Escrow, SYSTEM_ACTOR, applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { DisputeCategory } from "@/domain/disputes";
+import { createSessionToken } from "@/lib/auth";
+
+const buyer = { userId: "buyer-123", isAdmin: false };
+const seller = { userId: "seller-456", isAdmin: false };
+const admin = { userId: "admin", isAdmin: true };
+
+const auth = (userId: string) => ({ Authorization: `Bearer ${createSessionToken(userId)}` });
+
+function perform(id: string, body: Record<string, unknown>, userId: string) {
+  return performActionRoute(
+    new NextRequest(`http://localhost/api/escrow/${id}/actions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...auth(userId) },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+}
+
+async function queue(query = "", userId = "admin") {
+  const response = await disputeQueueRoute(
+    new NextRequest(`http://localhost/api/admin/disputes${query}`, { headers: auth(userId) })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+// Applies actions in turn and stores their events
+function advance(escrow: Escrow, ...steps: [EscrowAction, Actor, ActionOptions?][]): Escrow {
+  return steps.reduce((current, [action, actor, options]) => {
+    const result = applyAction(current, action, actor, { paymentReference: "ref_test", ...options });
+    return escrowStore.appendEvents(current.id, [result.event!], current.version);
+  }, escrow);
+}
+
+function fund(id: string): Escrow {
+  const { event } = createEscrow(id, "buyer-123", "seller-456", 1500, "USD", `Dispute test ${id}`);
+  return advance(
+    escrowStore.create(event),
+    [EscrowAction.ACCEPT, seller],
+    [EscrowAction.FUND, buyer],
+    [EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR]
+  );
+}
+
+const raise = (category: DisputeCategory): [EscrowAction, Actor, ActionOptions] => [
+  EscrowAction.DISPUTE,
+  buyer,
+  { dispute: { category } },
+];
+
+describe("Disputes", () => {
+  beforeEach(() => {
+    escrowStore.clear();
+    process.env.ESCROW_ADMIN_IDS = "admin,admin-2";
+  });
+
+  afterEach(() => {
+    delete process.env.ESCROW_ADMIN_IDS;
+    delete process.env.ESCROW_SELLER_RESPONSE_HOURS;
+  });
+
+  it("should list open disputes by priority and age, with filters", async () => {
+    advance(fund("d-1"), raise(DisputeCategory.NOT_RECEIVED));
+    advance(fund("d-2"), raise(DisputeCategory.FRAUD));
+    advance(
+      fund("d-3"),
+      raise(DisputeCategory.DAMAGED),
+      [EscrowAction.SUBMIT_EVIDENCE, seller, { evidence: { message: "It was packed carefully" } }],
+      [EscrowAction.ASSIGN_DISPUTE, admin]
+    );
+    fund("not-disputed");
+
+    const ids = (body: { disputes: { escrowId: string }[] }) => body.disputes.map((d) => d.escrowId);
+
+    const { status, body } = await queue();
+    expect(status).toBe(200);
+    expect(ids(body)).toEqual(["d-2", "d-1", "d-3"]);
+    expect(body.disputes[0]).toMatchObject({
+      category: "FRAUD",
+      priority: "HIGH",
+      status: "AWAITING_SELLER",
+      assignedTo: null,
+      amount: "15.00",
+    });
+    expect(body.disputes[2]).toMatchObject({ status: "UNDER_REVIEW", assignedTo: "admin" });
+
+    expect(ids((await queue("?sortBy=age")).body)).toEqual(["d-1", "d-2", "d-3"]);
+    expect(ids((await queue("?assignedTo=me")).body)).toEqual(["d-3"]);
+    expect(ids((await queue("?assignedTo=none&category=NOT_RECEIVED,DAMAGED")).body)).toEqual(["d-1"]);
+    expect(ids((await queue("?status=AWAITING_SELLER")).body)).toEqual(["d-2", "d-1"]);
+    expect((await queue("?status=DECIDED")).status).toBe(400);
+    expect((await queue("", "buyer-123")).status).toBe(403);
+  });
+
+  it("should let only the assigned admin resolve a dispute", async () => {
+    process.env.ESCROW_SELLER_RESPONSE_HOURS = "24";
+    fund("d-1");
+
+    expect((await perform("d-1", { action: "DISPUTE" }, "buyer-123")).status).toBe(400);
+    const raised = await (
+      await perform("d-1", { action: "DISPUTE", dispute: { category: "NOT_AS_DESCRIBED" }, reason: "Wrong colour" }, "buyer-123")
+    ).json();
+    const { raisedAt, sellerResponseDeadline } = raised.escrow.dispute;
+    expect(Date.parse(sellerResponseDeadline) - Date.parse(raisedAt)).toBeCloseTo(24 * 60 * 60 * 1000, -3);
+
+    const notAnAdmin = await perform("d-1", { action: "ASSIGN_DISPUTE", assignee: "mallory" }, "admin");
+    expect(notAnAdmin.status).toBe(400);
+    expect((await notAnAdmin.json()).error).toMatch(/not an admin/);
+
+    // The seller has the whole window to respond before an admin may take the dispute up
+    const early = await perform("d-1", { action: "ASSIGN_DISPUTE" }, "admin");
+    expect(early.status).toBe(400);
+    expect((await early.json()).error).toBe(`The seller has until ${sellerResponseDeadline} to respond to the dispute`);
+    expect((await perform("d-1", { action: "RESOLVE_DISPUTE_REFUND" }, "admin")).status).toBe(400);
+    advance(escrowStore.getById("d-1")!, [
+      EscrowAction.SUBMIT_EVIDENCE,
+      seller,
+      { evidence: { message: "The colour matches the listing" } },
+    ]);
+
+    const unassigned = await perform("d-1", { action: "RESOLVE_DISPUTE_REFUND" }, "admin");
+    expect((await unassigned.json()).error).toMatch(/must be assigned/);
+
+    expect((await perform("d-1", { action: "ASSIGN_DISPUTE", assignee: "admin-2" }, "admin")).status).toBe(200);
+    const wrongAdmin = await perform("d-1", { action: "RESOLVE_DISPUTE_REFUND" }, "admin");
+    expect(wrongAdmin.status).toBe(400);
+    expect((await wrongAdmin.json()).error).toMatch(/assigned to admin-2/);
+    const takeover = await perform("d-1", { action: "ASSIGN_DISPUTE" }, "admin");
+    expect(takeover.status).toBe(400);
+    expect((await takeover.json()).error).toBe("The dispute is assigned to admin-2; only they can hand it over");
+    expect((await perform("d-1", { action: "RESOLVE_DISPUTE_REFUND" }, "admin")).status).toBe(400);
+
+    const resolved = await perform("d-1", { action: "RESOLVE_DISPUTE_REFUND" }, "admin-2");
+    expect(resolved.status).toBe(200);
+    expect((await resolved.json()).escrow.dispute).toMatchObject({ status: "DECIDED", decidedBy: "admin-2" });
+    expect((await queue()).body.disputes).toEqual([]);
+  });
+});
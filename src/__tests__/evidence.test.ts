@@ -0,0 +1,173 @@
+/**
+ * Integration tests for submitting and downloading dispute evidence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { GET as listEvidenceRoute, POST as submitEvidenceRoute } from "@/app/api/escrow/[id]/evidence/route";
+import { GET as downloadEvidenceRoute } from "@/app/api/escrow/[id]/evidence/[attachmentId]/route";
+import { escrowStore, getDataDir } from "@/storage/escrow-store";
+import { attachmentStore } from "@/storage/attachment-store";
+import { Escrow, SYSTEM_ACTOR, applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { DisputeCategory } from "@/domain/disputes";
+import { createSessionToken } from "@/lib/auth";
+
+const ID = "evidence-1";
+const buyer = { userId: "buyer-123", isAdmin: false };
+const seller = { userId: "seller-456", isAdmin: false };
+const photo = Buffer.from("not really a jpeg");
+
+const auth = (userId: string) => ({ Authorization: `Bearer ${createSessionToken(userId)}` });
+
+function submit(fields: Record<string, string | Blob>, userId = "buyer-123") {
+  const form = new FormData();
+  Object.entries(fields).forEach(([name, value]) =>
+    value instanceof Blob ? form.append(name, value, "photo.jpg") : form.append(name, value)
+  );
+  return submitEvidenceRoute(
+    new NextRequest(`http://localhost/api/escrow/${ID}/evidence`, { method: "POST", headers: auth(userId), body: form }),
+    { params: Promise.resolve({ id: ID }) }
+  );
+}
+
+function download(attachmentId: string, userId = "seller-456") {
+  return downloadEvidenceRoute(
+    new NextRequest(`http://localhost/api/escrow/${ID}/evidence/${attachmentId}`, { headers: auth(userId) }),
+    { params: Promise.resolve({ id: ID, attachmentId }) }
+  );
+}
+
+// Applies actions in turn and stores their events
+function advance(escrow: Escrow, ...steps: [EscrowAction, typeof buyer][]): Escrow {
+  return steps.reduce((current, [action, actor]) => {
+    const result = applyAction(current, action, actor, {
+      paymentReference: "ref_test",
+      dispute: { category: DisputeCategory.DAMAGED },
+    });
+    return escrowStore.appendEvents(ID, [result.event!], current.version);
+  }, escrow);
+}
+
+describe("Dispute Evidence", () => {
+  let funded: Escrow;
+
+  beforeEach(() => {
+    escrowStore.clear();
+    attachmentStore.clear();
+
+    const { event } = createEscrow(ID, "buyer-123", "seller-456", 1500, "USD", "Evidence test");
+    funded = advance(
+      escrowStore.create(event),
+      [EscrowAction.ACCEPT, seller],
+      [EscrowAction.FUND, buyer],
+      [EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR]
+    );
+  });
+
+  afterEach(() => {
+    delete process.env.ESCROW_ATTACHMENT_MAX_BYTES;
+  });
+
+  it("should store a file, record it in the history and serve it back unchanged", async () => {
+    advance(funded, [EscrowAction.DISPUTE, buyer]);
+    const checksum = createHash("sha256").update(photo).digest("hex");
+
+    const response = await submit({
+      message: "The item arrived broken",
+      file: new Blob([photo], { type: "image/jpeg" }),
+      checksum,
+    });
+    const { event } = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(event).toMatchObject({
+      type: "EVIDENCE_SUBMITTED",
+      message: "The item arrived broken",
+      attachment: { fileName: "photo.jpg", contentType: "image/jpeg", size: photo.length, checksum },
+    });
+
+    const listed = await listEvidenceRoute(
+      new NextRequest(`http://localhost/api/escrow/${ID}/evidence`, { headers: auth("seller-456") }),
+      { params: Promise.resolve({ id: ID }) }
+    );
+    expect((await listed.json()).evidence.map((item: { id: string }) => item.id)).toEqual([event.id]);
+
+    const downloaded = await download(event.attachment.id);
+    expect(downloaded.status).toBe(200);
+    expect(downloaded.headers.get("X-Checksum-SHA256")).toBe(checksum);
+    expect(downloaded.headers.get("Content-Disposition")).toContain('filename="photo.jpg"');
+    expect(Buffer.from(await downloaded.arrayBuffer())).toEqual(photo);
+    expect((await download(event.attachment.id, "mallory")).status).toBe(403);
+  });
+
+  it("should enforce content types, size limits and checksums", async () => {
+    advance(funded, [EscrowAction.DISPUTE, buyer]);
+    process.env.ESCROW_ATTACHMENT_MAX_BYTES = "8";
+
+    expect((await submit({ file: new Blob(["<script>"], { type: "text/html" }) })).status).toBe(415);
+    expect((await submit({ file: new Blob([photo], { type: "image/jpeg" }) })).status).toBe(413);
+
+    delete process.env.ESCROW_ATTACHMENT_MAX_BYTES;
+    const mismatched = await submit({ file: new Blob([photo], { type: "image/jpeg" }), checksum: "0".repeat(64) });
+    expect(mismatched.status).toBe(400);
+    expect((await mismatched.json()).error).toMatch(/checksum/);
+    expect(escrowStore.getById(ID)?.events).toHaveLength(5);
+  });
+
+  it("should cut off a chunked upload once it passes the size limit", async () => {
+    advance(funded, [EscrowAction.DISPUTE, buyer]);
+    process.env.ESCROW_ATTACHMENT_MAX_BYTES = "8";
+
+    // A 16 MiB file streamed in 16 KiB chunks without a Content-Length, as a chunked upload is
+    const boundary = "evidence-boundary";
+    const chunk = new Uint8Array(16 * 1024);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          new TextEncoder().encode(
+            `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="photo.jpg"\r\nContent-Type: image/jpeg\r\n\r\n`
+          )
+        );
+      },
+      pull(controller) {
+        if (sent++ < 1024) controller.enqueue(chunk);
+        else controller.close();
+      },
+    });
+    const response = await submitEvidenceRoute(
+      new NextRequest(`http://localhost/api/escrow/${ID}/evidence`, {
+        method: "POST",
+        headers: { ...auth("buyer-123"), "Content-Type": `multipart/form-data; boundary=${boundary}` },
+        body,
+        duplex: "half",
+      }),
+      { params: Promise.resolve({ id: ID }) }
+    );
+
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThan(16);
+    expect(escrowStore.getById(ID)?.events).toHaveLength(5);
+  });
+
+  it("should refuse evidence outside a dispute and keep no file for it", async () => {
+    const response = await submit({ file: new Blob([photo], { type: "image/jpeg" }) });
+
+    expect(response.status).toBe(400);
+    expect(fs.readdirSync(path.join(getDataDir(), "attachments"))).toEqual([]);
+  });
+
+  it("should refuse to serve a file that changed after it was stored", async () => {
+    advance(funded, [EscrowAction.DISPUTE, buyer]);
+    const { event } = await (await submit({ file: new Blob([photo], { type: "image/jpeg" }) }, "seller-456")).json();
+    fs.writeFileSync(path.join(getDataDir(), "attachments", event.attachment.id), "edited");
+
+    const response = await download(event.attachment.id);
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toMatch(/checksum/);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Integration tests for Idempotency-Key handling on the create and action routes
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as createEscrowRoute } from "@/app/api/escrow/route";
+import { POST as performActionRoute } from "@/app/api/escrow/[id]/actions/route";
+import { escrowStore } from "@/storage/escrow-store";
+import { idempotencyStore } from "@/storage/idempotency-store";
+import { EscrowAction } from "@/domain/escrow-state";
+import { createSessionToken } from "@/lib/auth";
+
+function jsonRequest(url: string, body: unknown, headers: Record<string, string> = {}) {
+  return new NextRequest(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${createSessionToken("buyer-123")}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const createBody = {
+  buyerId: "buyer-123",
+  sellerId: "seller-456",
+  amount: 1500,
+  currency: "USD",
+  description: "Idempotent purchase",
+};
+
+describe("Idempotency Keys", () => {
+  beforeEach(() => {
+    escrowStore.clear();
+    idempotencyStore.clear();
+  });
+
+  it("should replay the original escrow when a create request is retried", async () => {
+    const headers = { "Idempotency-Key": "create-1" };
+    const first = await createEscrowRoute(jsonRequest("http://localhost/api/escrow", createBody, headers));
+    const retry = await createEscrowRoute(jsonRequest("http://localhost/api/escrow", createBody, headers));
+
+    const firstBody = await first.json();
+    const retryBody = await retry.json();
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(retryBody.escrow.id).toBe(firstBody.escrow.id);
+    expect(escrowStore.query({ sortBy: "createdAt", sortOrder: "asc", limit: 10 }).items).toHaveLength(1);
+  });
+
+  it("should reject reuse of a key with a different payload", async () => {
+    const headers = { "Idempotency-Key": "create-2" };
+    await createEscrowRoute(jsonRequest("http://localhost/api/escrow", createBody, headers));
+    const reused = await createEscrowRoute(
+      jsonRequest("http://localhost/api/escrow", { ...createBody, amount: 9999 }, headers)
+    );
+
+    expect(reused.status).toBe(422);
+    expect(escrowStore.query({ sortBy: "createdAt", sortOrder: "asc", limit: 10 }).items).toHaveLength(1);
+  });
+
+  it("should replay a retried action instead of failing with an invalid transition", async () => {
+    const created = await (
+      await createEscrowRoute(jsonRequest("http://localhost/api/escrow", createBody))
+    ).json();
+    const id = created.escrow.id as string;
+
+    const cancel = () =>
+      performActionRoute(
+        jsonRequest(
+          `http://localhost/api/escrow/${id}/actions`,
+          { action: EscrowAction.CANCEL, reason: "Ordered by mistake" },
+          { "Idempotency-Key": "cancel-1" }
+        ),
+        { params: Promise.resolve({ id }) }
+      );
+
+    const first = await cancel();
+    const retry = await cancel();
+
+    expect(first.status).toBe(200);
+    expect(retry.status).toBe(200);
+    expect((await retry.json()).event.id).toBe((await first.json()).event.id);
+    expect(escrowStore.getById(id)?.events).toHaveLength(2);
+  });
+});
@@ -3,27 +3,100 @@
  * 
  * Tests the complete flow:
  * 1. Create escrow (PROPOSED)
- * 2. Buyer funds escrow (FUNDED)
- * 3. Seller releases escrow (RELEASED)
+ * 2. Seller accepts the terms (ACCEPTED)
+ * 3. Buyer funds escrow (FUNDING_PENDING, FUNDED once the provider confirms)
+ * 4. Seller releases escrow (PAYOUT_PENDING, RELEASED once the provider confirms)
  */
 
-import { describe, it, expect, beforeEach } from "vitest";
-import { createEscrow, applyAction } from "@/domain/escrow";
-import { escrowStore } from "@/storage/escrow-store";
-import { EscrowState, EscrowAction, UserRole } from "@/domain/escrow-state";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { createEscrow, applyAction, toSnapshot } from "@/domain/escrow";
+import { createEscrowRepository, StorageBackend } from "@/storage/escrow-store";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { EscrowState, EscrowAction } from "@/domain/escrow-state";
+import { DisputeCategory } from "@/domain/disputes";
+import { ConcurrencyError } from "@/storage/errors";
+import { MockPaymentGateway } from "@/lib/mock-payment-gateway";
+import { processPayment } from "@/lib/payment-processor";
+
+const backends: StorageBackend[] = ["json", "sqlite"];
+
+// An escrow log as stored before escrows carried a currency: USD in major units
+const legacyEvents = [
+  {
+    id: "evt_legacy_1",
+    type: "ESCROW_CREATED",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    escrowId: "legacy-1",
+    buyerId: "buyer-123",
+    sellerId: "seller-456",
+    amount: 10.5,
+    description: "Legacy escrow",
+    milestones: [
+      { id: "milestone_1", name: "Design", amount: 0.1 },
+      { id: "milestone_2", name: "Build", amount: 10.4 },
+    ],
+  },
+];
+
+function writeLegacyStore(backend: StorageBackend, dataDir: string) {
+  if (backend === "json") {
+    fs.writeFileSync(
+      path.join(dataDir, "escrows.json"),
+      JSON.stringify({ "legacy-1": { events: legacyEvents, escrow: { id: "legacy-1", amount: 10.5 } } })
+    );
+    return;
+  }
+  const db = new Database(path.join(dataDir, "escrows.sqlite"));
+  db.exec(`
+    CREATE TABLE escrows (id TEXT PRIMARY KEY, buyer_id TEXT NOT NULL, seller_id TEXT NOT NULL,
+      amount REAL NOT NULL, current_state TEXT NOT NULL, created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL, version INTEGER NOT NULL, snapshot TEXT NOT NULL);
+    CREATE TABLE escrow_events (escrow_id TEXT NOT NULL, sequence INTEGER NOT NULL,
+      id TEXT NOT NULL UNIQUE, payload TEXT NOT NULL, PRIMARY KEY (escrow_id, sequence));
+  `);
+  db.prepare("INSERT INTO escrow_events VALUES ('legacy-1', 1, 'evt_legacy_1', ?)").run(
+    JSON.stringify(legacyEvents[0])
+  );
+  db.close();
+}
+
+describe.each(backends)("Escrow Integration - Happy Path (%s storage)", (backend) => {
+  let escrowStore: EscrowRepository;
+  let gateway: MockPaymentGateway;
+  let dataDir: string;
+  // Repositories a test opens on top of escrowStore, closed with it
+  let opened: EscrowRepository[];
+
+  const open = (dir: string) => {
+    const repository = createEscrowRepository(backend, dir);
+    opened.push(repository);
+    return repository;
+  };
 
-describe("Escrow Integration - Happy Path", () => {
   beforeEach(() => {
-    escrowStore.clear();
+    gateway = new MockPaymentGateway({ outcome: () => "succeed" });
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-integration-"));
+    opened = [];
+    escrowStore = open(dataDir);
+  });
+
+  afterEach(() => {
+    opened.forEach((repository) => repository.close());
+    fs.rmSync(dataDir, { recursive: true, force: true });
   });
 
-  it("should complete full workflow: PROPOSED -> FUNDED -> RELEASED (Seller release)", () => {
+  it("should complete full workflow: PROPOSED -> ACCEPTED -> FUNDED -> RELEASED (Seller release)", async () => {
     // Step 1: Create escrow
     const { escrow: initialEscrow, event: createdEvent } = createEscrow(
       "test-escrow-1",
       "buyer-123",
       "seller-456",
       5000,
+      "USD",
       "Purchase of goods"
     );
 
@@ -31,93 +104,133 @@ describe("Escrow Integration - Happy Path", () => {
     expect(createdEvent.type).toBe("ESCROW_CREATED");
 
     // Store the escrow
-    escrowStore.create(initialEscrow, createdEvent);
+    escrowStore.create(createdEvent);
 
-    // Step 2: Buyer funds the escrow
-    const fundResult = applyAction(
+    // Step 2: Seller accepts the buyer's terms
+    const acceptResult = applyAction(
       initialEscrow,
+      EscrowAction.ACCEPT,
+      { userId: "seller-456", isAdmin: false }
+    );
+
+    expect(acceptResult.success).toBe(true);
+    expect(acceptResult.newEscrow?.currentState).toBe(EscrowState.ACCEPTED);
+
+    // Update store
+    escrowStore.appendEvents(initialEscrow.id, [acceptResult.event!], initialEscrow.version);
+
+    // Step 3: Buyer funds the escrow
+    const fundResult = applyAction(
+      acceptResult.newEscrow!,
       EscrowAction.FUND,
-      "buyer-123",
-      UserRole.BUYER
+      { userId: "buyer-123", isAdmin: false }
     );
 
     expect(fundResult.success).toBe(true);
-    expect(fundResult.newEscrow?.currentState).toBe(EscrowState.FUNDED);
+    expect(fundResult.newEscrow?.currentState).toBe(EscrowState.FUNDING_PENDING);
     expect(fundResult.event).toBeDefined();
 
-    // Update store
-    escrowStore.update(fundResult.newEscrow!, fundResult.event!);
+    // Update store, then let the provider charge the buyer
+    escrowStore.appendEvents(initialEscrow.id, [fundResult.event!], acceptResult.newEscrow!.version);
+    expect(await processPayment(escrowStore, gateway, initialEscrow.id)).toBe("confirmed");
+    const funded = escrowStore.getById(initialEscrow.id)!;
+    expect(funded.currentState).toBe(EscrowState.FUNDED);
 
-    // Step 3: Seller releases the escrow
+    // Step 4: Seller releases the escrow
     const releaseResult = applyAction(
-      fundResult.newEscrow!,
+      toSnapshot(funded),
       EscrowAction.RELEASE,
-      "seller-456",
-      UserRole.SELLER
+      { userId: "seller-456", isAdmin: false }
     );
 
     expect(releaseResult.success).toBe(true);
-    expect(releaseResult.newEscrow?.currentState).toBe(EscrowState.RELEASED);
+    expect(releaseResult.newEscrow?.currentState).toBe(EscrowState.PAYOUT_PENDING);
     expect(releaseResult.event).toBeDefined();
 
-    // Update store
-    escrowStore.update(releaseResult.newEscrow!, releaseResult.event!);
+    // Update store, then let the provider pay the seller
+    escrowStore.appendEvents(initialEscrow.id, [releaseResult.event!], funded.version);
+    expect(await processPayment(escrowStore, gateway, initialEscrow.id)).toBe("confirmed");
 
     // Verify final state
     const finalEscrow = escrowStore.getById("test-escrow-1");
     expect(finalEscrow).not.toBeNull();
     expect(finalEscrow?.currentState).toBe(EscrowState.RELEASED);
-    expect(finalEscrow?.events.length).toBe(3); // Created, Funded, Released
+    expect(finalEscrow?.pendingPayment).toBeUndefined();
+    // Created, Accepted, Fund, Funding confirmed, Release, Payout confirmed
+    expect(finalEscrow?.events.length).toBe(6);
 
     // Verify event history
     expect(finalEscrow?.events[0].type).toBe("ESCROW_CREATED");
-    expect(finalEscrow?.events[1].type).toBe("STATE_CHANGED");
-    expect(finalEscrow?.events[2].type).toBe("STATE_CHANGED");
+    expect(finalEscrow?.events.slice(1).every((e) => e.type === "STATE_CHANGED")).toBe(true);
+
+    // The provider was asked for exactly one charge and one payout
+    expect(gateway.listRequests()).toEqual([
+      expect.objectContaining({ kind: "charge", transfers: [{ userId: "buyer-123", amount: 5000 }] }),
+      expect.objectContaining({ kind: "payout", transfers: [{ userId: "seller-456", amount: 5000 }] }),
+    ]);
   });
 
-  it("should complete dispute resolution workflow", () => {
+  it("should complete dispute resolution workflow", async () => {
     // Create and fund escrow
     const { escrow: initialEscrow, event: createdEvent } = createEscrow(
       "test-escrow-2",
       "buyer-123",
       "seller-456",
       3000,
+      "USD",
       "Service payment"
     );
 
-    escrowStore.create(initialEscrow, createdEvent);
+    escrowStore.create(createdEvent);
 
-    // Fund
-    const fundResult = applyAction(
+    // Accept and fund
+    const acceptResult = applyAction(
       initialEscrow,
+      EscrowAction.ACCEPT,
+      { userId: "seller-456", isAdmin: false }
+    );
+    escrowStore.appendEvents(initialEscrow.id, [acceptResult.event!], initialEscrow.version);
+
+    const fundResult = applyAction(
+      acceptResult.newEscrow!,
       EscrowAction.FUND,
-      "buyer-123",
-      UserRole.BUYER
+      { userId: "buyer-123", isAdmin: false }
     );
-    escrowStore.update(fundResult.newEscrow!, fundResult.event!);
+    escrowStore.appendEvents(initialEscrow.id, [fundResult.event!], acceptResult.newEscrow!.version);
+    await processPayment(escrowStore, gateway, initialEscrow.id);
+    const funded = escrowStore.getById(initialEscrow.id)!;
 
     // Dispute
     const disputeResult = applyAction(
-      fundResult.newEscrow!,
+      toSnapshot(funded),
       EscrowAction.DISPUTE,
-      "buyer-123",
-      UserRole.BUYER
+      { userId: "buyer-123", isAdmin: false },
+      { dispute: { category: DisputeCategory.NOT_AS_DESCRIBED } }
     );
-    escrowStore.update(disputeResult.newEscrow!, disputeResult.event!);
+    escrowStore.appendEvents(initialEscrow.id, [disputeResult.event!], funded.version);
 
-    // Admin resolves by releasing
-    const resolveResult = applyAction(
+    // The seller responds, which lets an admin take the dispute before the response window closes
+    const responseResult = applyAction(
       disputeResult.newEscrow!,
-      EscrowAction.RESOLVE_DISPUTE_RELEASE,
-      "admin-1",
-      UserRole.ADMIN
+      EscrowAction.SUBMIT_EVIDENCE,
+      { userId: "seller-456", isAdmin: false },
+      { evidence: { message: "Delivered as described" } }
     );
-    escrowStore.update(resolveResult.newEscrow!, resolveResult.event!);
+    escrowStore.appendEvents(initialEscrow.id, [responseResult.event!], disputeResult.newEscrow!.version);
+
+    // An admin takes the dispute and resolves it by releasing
+    const admin = { userId: "admin-1", isAdmin: true };
+    const assignResult = applyAction(responseResult.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin);
+    escrowStore.appendEvents(initialEscrow.id, [assignResult.event!], responseResult.newEscrow!.version);
+    const resolveResult = applyAction(assignResult.newEscrow!, EscrowAction.RESOLVE_DISPUTE_RELEASE, admin);
+    escrowStore.appendEvents(initialEscrow.id, [resolveResult.event!], assignResult.newEscrow!.version);
+    await processPayment(escrowStore, gateway, initialEscrow.id);
 
     // Verify
     const finalEscrow = escrowStore.getById("test-escrow-2");
     expect(finalEscrow?.currentState).toBe(EscrowState.RELEASED);
-    expect(finalEscrow?.events.length).toBe(4);
+    expect(finalEscrow?.events.length).toBe(9);
+    expect(finalEscrow?.dispute).toMatchObject({ category: DisputeCategory.NOT_AS_DESCRIBED, decidedBy: "admin-1" });
   });
 
   it("Security Check: Cannot release un-funded escrow", () => {
@@ -127,6 +240,7 @@ describe("Escrow Integration - Happy Path", () => {
       "buyer-123",
       "seller-456",
       1000,
+      "USD",
       "Security Test"
     );
 
@@ -134,8 +248,7 @@ describe("Escrow Integration - Happy Path", () => {
     const result = applyAction(
       initialEscrow,
       EscrowAction.RELEASE,
-      "seller-456",
-      UserRole.SELLER
+      { userId: "seller-456", isAdmin: false }
     );
 
     // 3. Assert that the system REJECTED the action
@@ -143,5 +256,115 @@ describe("Escrow Integration - Happy Path", () => {
     expect(result.error).toMatch(/Invalid transition/); // Ensure it failed for the right reason
     expect(result.newEscrow).toBeUndefined(); // State should NOT have changed
   });
-});
 
+  it("Concurrency Check: Stale action on the same FUNDED state is rejected", async () => {
+    const { escrow: initialEscrow, event: createdEvent } = createEscrow(
+      "test-escrow-race",
+      "buyer-123",
+      "seller-456",
+      2000,
+      "USD",
+      "Race Test"
+    );
+    escrowStore.create(createdEvent);
+
+    const acceptResult = applyAction(initialEscrow, EscrowAction.ACCEPT, { userId: "seller-456", isAdmin: false });
+    escrowStore.appendEvents(initialEscrow.id, [acceptResult.event!], initialEscrow.version);
+    const fundResult = applyAction(acceptResult.newEscrow!, EscrowAction.FUND, { userId: "buyer-123", isAdmin: false });
+    escrowStore.appendEvents(initialEscrow.id, [fundResult.event!], acceptResult.newEscrow!.version);
+    await processPayment(escrowStore, gateway, initialEscrow.id);
+
+    // Seller release and buyer dispute both computed from the same FUNDED snapshot
+    const funded = toSnapshot(escrowStore.getById("test-escrow-race")!);
+    const releaseResult = applyAction(funded, EscrowAction.RELEASE, { userId: "seller-456", isAdmin: false });
+    const disputeResult = applyAction(
+      funded,
+      EscrowAction.DISPUTE,
+      { userId: "buyer-123", isAdmin: false },
+      { dispute: { category: DisputeCategory.NOT_RECEIVED } }
+    );
+    expect(releaseResult.success).toBe(true);
+    expect(disputeResult.success).toBe(true);
+
+    escrowStore.appendEvents(funded.id, [releaseResult.event!], funded.version);
+    expect(() => escrowStore.appendEvents(funded.id, [disputeResult.event!], funded.version)).toThrow(
+      ConcurrencyError
+    );
+
+    const finalEscrow = escrowStore.getById("test-escrow-race");
+    expect(finalEscrow?.currentState).toBe(EscrowState.PAYOUT_PENDING);
+    expect(finalEscrow?.version).toBe(5);
+  });
+
+  it("should query snapshots with filters and cursor pagination", () => {
+    for (const [id, buyerId, amount] of [
+      ["q-1", "buyer-a", 100],
+      ["q-2", "buyer-b", 300],
+      ["q-3", "buyer-a", 300],
+      ["q-4", "buyer-a", 50],
+    ] as const) {
+      const { event } = createEscrow(id, buyerId, "seller-1", amount, "USD", `Escrow ${id}`);
+      escrowStore.create(event);
+    }
+
+    const first = escrowStore.query({
+      buyerId: "buyer-a",
+      sortBy: "amount",
+      sortOrder: "desc",
+      limit: 2,
+    });
+    expect(first.items.map((e) => e.id)).toEqual(["q-3", "q-1"]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = escrowStore.query({
+      buyerId: "buyer-a",
+      sortBy: "amount",
+      sortOrder: "desc",
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    expect(second.items.map((e) => e.id)).toEqual(["q-4"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("should keep currencies apart when filtering by amount", () => {
+    for (const [id, amount, currency] of [
+      ["eur-1", 5000, "EUR"],
+      ["jpy-1", 5000, "JPY"],
+      ["usd-1", 20000, "USD"],
+    ] as const) {
+      escrowStore.create(createEscrow(id, "buyer-123", "seller-456", amount, currency, id).event);
+    }
+
+    const page = escrowStore.query({
+      currency: "EUR",
+      minAmount: 1000,
+      sortBy: "amount",
+      sortOrder: "desc",
+      limit: 10,
+    });
+    expect(page.items.map((e) => [e.id, e.amount, e.currency])).toEqual([["eur-1", 5000, "EUR"]]);
+  });
+
+  it("should read logs written before currencies existed as USD cents", () => {
+    const legacyDir = path.join(dataDir, "legacy");
+    fs.mkdirSync(legacyDir);
+    writeLegacyStore(backend, legacyDir);
+    const reopened = open(legacyDir);
+
+    const escrow = reopened.getById("legacy-1");
+    expect(escrow?.currency).toBe("USD");
+    expect(escrow?.amount).toBe(1050);
+    expect(escrow?.milestones?.map((m) => m.amount)).toEqual([10, 1040]);
+
+    const accepted = applyAction(toSnapshot(escrow!), EscrowAction.ACCEPT, {
+      userId: "seller-456",
+      isAdmin: false,
+    });
+    reopened.appendEvents("legacy-1", [accepted.event!], escrow!.version);
+    expect(open(legacyDir).getById("legacy-1")?.amount).toBe(1050);
+    expect(
+      reopened.query({ currency: "USD", sortBy: "amount", sortOrder: "asc", limit: 10 }).items
+    ).toMatchObject([{ id: "legacy-1", amount: 1050 }]);
+  });
+});
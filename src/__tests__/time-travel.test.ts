@@ -0,0 +1,77 @@
+/**
+ * Integration tests for reading an escrow as of a timestamp or event
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET as getEscrowRoute } from "@/app/api/escrow/[id]/route";
+import { escrowStore } from "@/storage/escrow-store";
+import { applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EscrowEvent } from "@/domain/events";
+import { createSessionToken } from "@/lib/auth";
+
+const ID = "time-travel-1";
+
+function getEscrow(query = "", userId = "buyer-123") {
+  return getEscrowRoute(
+    new NextRequest(`http://localhost/api/escrow/${ID}${query}`, {
+      headers: { Authorization: `Bearer ${createSessionToken(userId)}` },
+    }),
+    { params: Promise.resolve({ id: ID }) }
+  );
+}
+
+// Stores an event as if it had been recorded at the given time
+const at = (event: EscrowEvent, timestamp: string) => ({ ...event, timestamp: new Date(timestamp) });
+
+describe("Time Travel", () => {
+  let events: EscrowEvent[];
+
+  beforeEach(() => {
+    escrowStore.clear();
+
+    const { escrow, event } = createEscrow(ID, "buyer-123", "seller-456", 1500, "USD", "Time travel");
+    const created = escrowStore.create(at(event, "2026-01-01T00:00:00Z"));
+    const accept = applyAction(escrow, EscrowAction.ACCEPT, { userId: "seller-456", isAdmin: false });
+    const accepted = escrowStore.appendEvents(ID, [at(accept.event!, "2026-01-02T00:00:00Z")], created.version);
+    const cancel = applyAction(accepted, EscrowAction.CANCEL, { userId: "buyer-123", isAdmin: false }, {
+      reason: "No longer needed",
+    });
+    events = escrowStore.appendEvents(ID, [at(cancel.event!, "2026-01-03T00:00:00Z")], accepted.version).events;
+  });
+
+  it("should return the escrow as it was at a timestamp, with the events up to then", async () => {
+    const response = await getEscrow("?asOf=2026-01-02T12:00:00Z");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBeNull();
+    expect(body.escrow).toMatchObject({ currentState: EscrowState.ACCEPTED, version: 2 });
+    expect(body.events.map((e: { id: string }) => e.id)).toEqual([events[0].id, events[1].id]);
+    expect(body.latestVersion).toBe(3);
+  });
+
+  it("should return the escrow as it was right after an event", async () => {
+    const body = await (await getEscrow(`?atEvent=${events[0].id}`)).json();
+
+    expect(body.escrow).toMatchObject({ currentState: EscrowState.PROPOSED, version: 1 });
+    expect(body.events).toHaveLength(1);
+  });
+
+  it("should return the current escrow without a point in time", async () => {
+    const response = await getEscrow();
+    const body = await response.json();
+
+    expect(response.headers.get("ETag")).not.toBeNull();
+    expect(body.escrow.currentState).toBe(EscrowState.CANCELLED);
+  });
+
+  it("should reject points the escrow's history does not contain", async () => {
+    expect((await getEscrow("?asOf=2025-12-31T00:00:00Z")).status).toBe(404);
+    expect((await getEscrow("?atEvent=evt_unknown")).status).toBe(404);
+    expect((await getEscrow("?asOf=yesterday")).status).toBe(400);
+    expect((await getEscrow(`?asOf=2026-01-02T00:00:00Z&atEvent=${events[0].id}`)).status).toBe(400);
+    expect((await getEscrow(`?atEvent=${events[0].id}`, "someone-else")).status).toBe(403);
+  });
+});
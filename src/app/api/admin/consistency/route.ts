@@ -0,0 +1,44 @@
+/**
+ * GET /api/admin/consistency - Compare stored snapshots with replayed event logs
+ *
+ * Admin only. Reports every escrow whose snapshot disagrees with its events.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { checkConsistency } from "@/storage/consistency";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const report = checkConsistency(escrowStore);
+
+    return NextResponse.json({
+      success: true,
+      snapshotsEnabled: escrowStore.snapshotsEnabled,
+      ...report,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * POST /api/admin/deadlines - Apply every deadline transition that is due now
+ *
+ * Admin only. Runs the same scan as the background scheduler, for hosts where
+ * timers don't survive between requests and an external cron calls this instead.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { runDeadlineScan } from "@/lib/deadline-scheduler";
+import { authenticate } from "@/lib/auth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const result = runDeadlineScan(escrowStore);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * GET /api/admin/disputes - The dispute queue
+ *
+ * Admin only. Lists the disputes still awaiting a decision, high priority and
+ * oldest first; `sortBy=age` orders by age alone. Filters:
+ * - status: comma-separated OPEN, AWAITING_SELLER, UNDER_REVIEW
+ * - category: comma-separated dispute categories
+ * - assignedTo: an admin's user ID, "me", or "none" for unassigned disputes
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { listDisputeQueue } from "@/storage/dispute-queue";
+import { disputeQueueQuerySchema } from "@/lib/validation";
+import { serializeDisputeQueueItem } from "@/lib/serializers";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const query = disputeQueueQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    const now = new Date();
+    const disputes = listDisputeQueue(
+      escrowStore,
+      {
+        status: query.status,
+        category: query.category,
+        assignedTo:
+          query.assignedTo === "me"
+            ? actor.userId
+            : query.assignedTo === "none"
+            ? null
+            : query.assignedTo,
+        sortBy: query.sortBy,
+      },
+      now
+    );
+
+    return NextResponse.json({
+      success: true,
+      disputes: disputes.map((item) => serializeDisputeQueueItem(item, now)),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
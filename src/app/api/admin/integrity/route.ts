@@ -0,0 +1,44 @@
+/**
+ * GET /api/admin/integrity - Audit every stored event log
+ *
+ * Admin only. Replays each log through the state machine and reports every
+ * event that does not follow from the ones before it.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { auditEventLogs } from "@/storage/integrity";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const report = auditEventLogs(escrowStore);
+
+    return NextResponse.json({
+      success: true,
+      ...report,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
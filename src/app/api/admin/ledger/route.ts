@@ -0,0 +1,41 @@
+/**
+ * GET /api/admin/ledger - Check the ledger invariants
+ *
+ * Admin only. Reports unbalanced journal entries and terminal escrows whose
+ * holding account still holds money.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { checkLedger } from "@/storage/ledger";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const report = checkLedger(escrowStore);
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * GET /api/admin/outbox - Outbox head and how far each consumer has got
+ * POST /api/admin/outbox - Drain the outbox, optionally rewinding consumers first
+ *
+ * Admin only. POST runs the same dispatch as the background timer. With
+ * `afterOffset`, the consumer named by `consumer` (or every consumer) is
+ * rewound so that every entry after that offset is delivered again.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { getOutboxConsumers, rewindConsumer, runOutboxDispatch } from "@/lib/outbox-dispatcher";
+import { dispatchOutboxSchema } from "@/lib/validation";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const head = escrowStore.getOutboxHead();
+    const consumers = getOutboxConsumers().map((consumer) => {
+      const offset = escrowStore.getConsumerOffset(consumer.name);
+      return { name: consumer.name, offset, lag: head - offset };
+    });
+
+    return NextResponse.json({ success: true, head, consumers });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const text = await request.text();
+    const input = dispatchOutboxSchema.parse(text ? JSON.parse(text) : {});
+
+    const consumers = getOutboxConsumers().filter(
+      (consumer) => input.consumer === undefined || consumer.name === input.consumer
+    );
+    if (consumers.length === 0 && input.consumer !== undefined) {
+      return NextResponse.json(
+        { success: false, error: `Unknown outbox consumer: ${input.consumer}` },
+        { status: 404 }
+      );
+    }
+
+    if (input.afterOffset !== undefined) {
+      for (const consumer of consumers) {
+        rewindConsumer(escrowStore, consumer.name, input.afterOffset);
+      }
+    }
+
+    const results = await runOutboxDispatch(escrowStore, consumers);
+
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RangeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
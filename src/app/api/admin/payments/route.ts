@@ -0,0 +1,42 @@
+/**
+ * POST /api/admin/payments - Check every pending payment with the payment provider
+ *
+ * Admin only. Runs the same sync as the background timer, for hosts where
+ * timers don't survive between requests and an external cron calls this instead.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { runPaymentSync } from "@/lib/payment-processor";
+import { authenticate } from "@/lib/auth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const result = await runPaymentSync(escrowStore, getPaymentProvider());
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * POST /api/admin/webhooks - Attempt every webhook delivery that is due
+ *
+ * Admin only. Runs the same dispatch as the background timer, for hosts where
+ * timers don't survive between requests and an external cron calls this instead.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { webhookStore } from "@/storage/webhook-store";
+import { runWebhookDispatch } from "@/lib/webhooks";
+import { authenticate } from "@/lib/auth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!actor.isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const result = await runWebhookDispatch(webhookStore);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * POST /api/auth/session - Issue a development session token
+ *
+ * Stands in for a real identity provider while developing: it signs a token for
+ * any user ID. Disabled in production unless ESCROW_ALLOW_DEV_LOGIN=true.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSessionToken, isAdminUser, isDevLoginEnabled } from "@/lib/auth";
+import { createSessionSchema } from "@/lib/validation";
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isDevLoginEnabled()) {
+      return NextResponse.json(
+        { success: false, error: "Not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = createSessionSchema.parse(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        token: createSessionToken(validated.userId),
+        userId: validated.userId,
+        isAdmin: isAdminUser(validated.userId),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,78 +1,166 @@
 /**
  * POST /api/escrow/[id]/actions - Perform an action on an escrow
+ *
+ * The caller is authenticated and their role is derived from the escrow;
+ * requests cannot claim a role.
+ *
+ * Clients may pin the version they acted on with an `If-Match` ETag or an
+ * `expectedVersion` field; stale requests are rejected with 409.
+ * Retries carrying the same `Idempotency-Key` replay the original response.
+ *
+ * Actions that move money are submitted to the payment provider before the
+ * response is sent; the escrow returned reflects the provider's answer, or is
+ * still FUNDING_PENDING / PAYOUT_PENDING if settlement takes longer.
+ *
+ * DISPUTE takes a `dispute.category`; the seller's response window comes from
+ * ESCROW_SELLER_RESPONSE_HOURS. ASSIGN_DISPUTE takes an optional `assignee`,
+ * who must be an admin, and defaults to the caller. CANCEL and REFUND take a
+ * `reason`.
  */
 
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import { escrowStore } from "@/storage/escrow-store";
-import { applyAction } from "@/domain/escrow";
-import { performActionSchema } from "@/lib/validation";
+import { ConcurrencyError } from "@/storage/errors";
+import { applyAction, canView, toSnapshot } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { parseActionAmounts, performActionSchema } from "@/lib/validation";
+import { serializeEscrow, serializeEvent } from "@/lib/serializers";
+import { formatETag, parseIfMatch } from "@/lib/etag";
+import { withIdempotency } from "@/lib/idempotency";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { processPayment } from "@/lib/payment-processor";
+import { getSellerResponseWindowMs } from "@/lib/dispute-config";
+import { authenticate, isAdminUser } from "@/lib/auth";
 
 export async function POST(
   request: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
   try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
     const { id } = await ctx.params;
     const body = await request.json();
     const validated = performActionSchema.parse(body);
 
-    // Get escrow
-    const escrowData = escrowStore.getById(id);
-    if (!escrowData) {
+    const ifMatch = parseIfMatch(request.headers.get("if-match"));
+    if (Number.isNaN(ifMatch)) {
       return NextResponse.json(
-        { success: false, error: "Escrow not found" },
-        { status: 404 }
+        { success: false, error: "Invalid If-Match header" },
+        { status: 400 }
       );
     }
+    const expectedVersion = ifMatch ?? validated.expectedVersion;
 
-    // Apply action
-    const result = applyAction(
-      {
-        id: escrowData.id,
-        buyerId: escrowData.buyerId,
-        sellerId: escrowData.sellerId,
-        amount: escrowData.amount,
-        description: escrowData.description,
-        currentState: escrowData.currentState,
-        createdAt: escrowData.createdAt,
-        updatedAt: escrowData.updatedAt,
-      },
-      validated.action,
-      validated.performedBy,
-      validated.userRole,
-      validated.reason
-    );
+    return await withIdempotency(
+      request,
+      { scope: `escrow.actions:${id}`, caller: actor.userId, payload: body },
+      async () => {
+        // Get escrow
+        const escrowData = escrowStore.getById(id);
+        if (!escrowData) {
+          return NextResponse.json(
+            { success: false, error: "Escrow not found" },
+            { status: 404 }
+          );
+        }
+
+        if (!canView(escrowData, actor)) {
+          return NextResponse.json(
+            { success: false, error: "You do not have access to this escrow" },
+            { status: 403 }
+          );
+        }
+
+        if (expectedVersion !== undefined && expectedVersion !== escrowData.version) {
+          throw new ConcurrencyError(id, expectedVersion, escrowData.version);
+        }
+
+        if (
+          validated.action === EscrowAction.ASSIGN_DISPUTE &&
+          validated.assignee !== undefined &&
+          !isAdminUser(validated.assignee)
+        ) {
+          return NextResponse.json(
+            { success: false, error: `${validated.assignee} is not an admin` },
+            { status: 400 }
+          );
+        }
 
-    if (!result.success) {
+        // Amounts arrive in major units of the escrow's currency
+        const amounts = parseActionAmounts(validated, escrowData.currency);
+
+        // Apply action
+        const result = applyAction(
+          toSnapshot(escrowData),
+          validated.action,
+          actor,
+          {
+            reason: validated.reason,
+            milestoneId: validated.milestoneId,
+            ...(validated.dispute
+              ? {
+                  dispute: {
+                    category: validated.dispute.category,
+                    sellerResponseWindowMs: getSellerResponseWindowMs(),
+                  },
+                }
+              : {}),
+            assignee: validated.assignee,
+            ...amounts,
+          }
+        );
+
+        if (!result.success) {
+          return NextResponse.json(
+            { success: false, error: result.error },
+            { status: 400 }
+          );
+        }
+
+        // Update store; fails if another request appended in the meantime
+        let updated = escrowStore.appendEvents(id, [result.event!], escrowData.version);
+
+        if (updated.pendingPayment) {
+          try {
+            await processPayment(escrowStore, getPaymentProvider(), id);
+          } catch (error) {
+            // The payment sync resubmits it
+            console.error("Payment submission failed", error);
+          }
+          updated = escrowStore.getById(id) ?? updated;
+        }
+
+        return NextResponse.json(
+          {
+            success: true,
+            escrow: serializeEscrow(updated),
+            event: serializeEvent(result.event!, updated.currency),
+          },
+          { headers: { ETag: formatETag(updated.version) } }
+        );
+      }
+    );
+  } catch (error) {
+    if (error instanceof ConcurrencyError) {
       return NextResponse.json(
-        { success: false, error: result.error },
-        { status: 400 }
+        {
+          success: false,
+          error: "Escrow was modified by another request",
+          currentVersion: error.actualVersion,
+        },
+        { status: 409 }
       );
     }
 
-    // Update store
-    escrowStore.update(result.newEscrow!, result.event!);
-
-    return NextResponse.json({
-      success: true,
-      escrow: {
-        id: result.newEscrow!.id,
-        buyerId: result.newEscrow!.buyerId,
-        sellerId: result.newEscrow!.sellerId,
-        amount: result.newEscrow!.amount,
-        description: result.newEscrow!.description,
-        currentState: result.newEscrow!.currentState,
-        createdAt: result.newEscrow!.createdAt.toISOString(),
-        updatedAt: result.newEscrow!.updatedAt.toISOString(),
-      },
-      event: {
-        ...result.event!,
-        timestamp: result.event!.timestamp.toISOString(),
-      },
-    });
-  } catch (error) {
     if (error instanceof Error && error.name === "ZodError") {
       return NextResponse.json(
         { success: false, error: "Validation error", details: error },
@@ -0,0 +1,89 @@
+/**
+ * GET /api/escrow/[id]/evidence/[attachmentId] - Download an evidence file
+ *
+ * Only attachments referenced by the escrow's EVIDENCE_SUBMITTED events are
+ * served, always as a download. The content is checked against the checksum
+ * recorded in the event before it is sent, and the checksum is returned in the
+ * X-Checksum-SHA256 header.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { attachmentStore } from "@/storage/attachment-store";
+import { ChecksumMismatchError } from "@/storage/errors";
+import { canView } from "@/domain/escrow";
+import { EventType } from "@/domain/events";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id, attachmentId } = await ctx.params;
+    const escrow = escrowStore.getById(id);
+
+    if (!escrow) {
+      return NextResponse.json(
+        { success: false, error: "Escrow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canView(escrow, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this escrow" },
+        { status: 403 }
+      );
+    }
+
+    const attachment = escrow.events
+      .flatMap((event) => (event.type === EventType.EVIDENCE_SUBMITTED && event.attachment ? [event.attachment] : []))
+      .find((candidate) => candidate.id === attachmentId);
+    const stored = attachment ? attachmentStore.read(attachmentId) : null;
+    if (!attachment || !stored) {
+      return NextResponse.json(
+        { success: false, error: "Attachment not found" },
+        { status: 404 }
+      );
+    }
+
+    // The event is on the hash chain; the store's own metadata is not
+    if (stored.attachment.checksum !== attachment.checksum) {
+      throw new ChecksumMismatchError(attachmentId);
+    }
+
+    const asciiName = attachment.fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    return new NextResponse(new Uint8Array(stored.content), {
+      headers: {
+        "Content-Type": attachment.contentType,
+        "Content-Length": String(stored.content.length),
+        "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "X-Content-Type-Options": "nosniff",
+        "X-Checksum-SHA256": attachment.checksum,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ChecksumMismatchError) {
+      return NextResponse.json(
+        { success: false, error: "Attachment content does not match its checksum" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
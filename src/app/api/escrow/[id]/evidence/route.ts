@@ -0,0 +1,267 @@
+/**
+ * GET  /api/escrow/[id]/evidence - List the evidence submitted to an escrow's dispute
+ * POST /api/escrow/[id]/evidence - Submit evidence while the escrow is DISPUTED
+ *
+ * Uploads are multipart/form-data with an optional `file`, an optional
+ * `message` and, to guard the transfer, an optional `checksum` (hex SHA-256 of
+ * the file). Files must be one of EVIDENCE_CONTENT_TYPES and no larger than
+ * ESCROW_ATTACHMENT_MAX_BYTES; the body is counted as it arrives, so chunked
+ * uploads without a Content-Length are cut off too. The file is stored first and recorded by an
+ * EVIDENCE_SUBMITTED event; if the event cannot be appended the file is removed.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { attachmentStore, getMaxAttachmentBytes } from "@/storage/attachment-store";
+import { ConcurrencyError } from "@/storage/errors";
+import { applyAction, canView, toSnapshot } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { EventType } from "@/domain/events";
+import { EVIDENCE_CONTENT_TYPES, submitEvidenceSchema } from "@/lib/validation";
+import { serializeEvent } from "@/lib/serializers";
+import { formatETag } from "@/lib/etag";
+import { authenticate } from "@/lib/auth";
+
+// Allowance for the multipart framing around the file and the other fields
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * Reads the request body, giving up as soon as it grows past `limit` bytes
+ */
+async function readBody(request: NextRequest, limit: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      const body = new Uint8Array(size);
+      let offset = 0;
+      for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+      return body;
+    }
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    const escrow = escrowStore.getById(id);
+
+    if (!escrow) {
+      return NextResponse.json(
+        { success: false, error: "Escrow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canView(escrow, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this escrow" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      evidence: escrow.events
+        .filter((event) => event.type === EventType.EVIDENCE_SUBMITTED)
+        .map((event) => serializeEvent(event, escrow.currency)),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    const maxBytes = getMaxAttachmentBytes();
+
+    // Refuse bodies that announce an oversized length before reading them
+    const tooLarge = () =>
+      NextResponse.json(
+        { success: false, error: `Attachments may be at most ${maxBytes} bytes` },
+        { status: 413 }
+      );
+    if (Number(request.headers.get("content-length") ?? 0) > maxBytes + FORM_OVERHEAD_BYTES) {
+      return tooLarge();
+    }
+    const body = await readBody(request, maxBytes + FORM_OVERHEAD_BYTES);
+    if (!body) return tooLarge();
+
+    let form: FormData;
+    try {
+      form = await new Response(body, {
+        headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+      }).formData();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Evidence must be sent as multipart/form-data" },
+        { status: 400 }
+      );
+    }
+
+    const validated = submitEvidenceSchema.parse({
+      message: form.get("message") ?? undefined,
+      checksum: form.get("checksum") ?? undefined,
+    });
+    const file = form.get("file");
+    if (file !== null && !(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: "The file field must be a file" },
+        { status: 400 }
+      );
+    }
+
+    const escrowData = escrowStore.getById(id);
+    if (!escrowData) {
+      return NextResponse.json(
+        { success: false, error: "Escrow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canView(escrowData, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this escrow" },
+        { status: 403 }
+      );
+    }
+
+    let attachment;
+    if (file) {
+      // Parameters such as charset do not change what the file is
+      const contentType = file.type.split(";")[0].trim().toLowerCase();
+      if (!EVIDENCE_CONTENT_TYPES.includes(contentType)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Unsupported content type "${file.type}"; allowed: ${EVIDENCE_CONTENT_TYPES.join(", ")}`,
+          },
+          { status: 415 }
+        );
+      }
+      if (file.size === 0) {
+        return NextResponse.json(
+          { success: false, error: "The file is empty" },
+          { status: 400 }
+        );
+      }
+      if (file.size > maxBytes) {
+        return tooLarge();
+      }
+
+      attachment = attachmentStore.save(
+        { escrowId: id, fileName: file.name, contentType, uploadedBy: actor.userId },
+        Buffer.from(await file.arrayBuffer())
+      );
+      if (validated.checksum && validated.checksum !== attachment.checksum) {
+        attachmentStore.delete(attachment.id);
+        return NextResponse.json(
+          { success: false, error: "The file does not match the checksum sent with it" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = applyAction(toSnapshot(escrowData), EscrowAction.SUBMIT_EVIDENCE, actor, {
+      evidence: {
+        message: validated.message,
+        ...(attachment
+          ? {
+              attachment: {
+                id: attachment.id,
+                fileName: attachment.fileName,
+                contentType: attachment.contentType,
+                size: attachment.size,
+                checksum: attachment.checksum,
+              },
+            }
+          : {}),
+      },
+    });
+
+    if (!result.success) {
+      if (attachment) attachmentStore.delete(attachment.id);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    let updated;
+    try {
+      updated = escrowStore.appendEvents(id, [result.event!], escrowData.version);
+    } catch (error) {
+      if (attachment) attachmentStore.delete(attachment.id);
+      throw error;
+    }
+
+    return NextResponse.json(
+      { success: true, event: serializeEvent(result.event!, updated.currency) },
+      { status: 201, headers: { ETag: formatETag(updated.version) } }
+    );
+  } catch (error) {
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Escrow was modified by another request",
+          currentVersion: error.actualVersion,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
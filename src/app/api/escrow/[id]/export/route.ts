@@ -0,0 +1,62 @@
+/**
+ * GET /api/escrow/[id]/export - Download an escrow's log with its hash chain
+ *
+ * Returns the events exactly as stored, with their hashes and the stored head,
+ * as a JSON attachment that scripts/verify-audit-export.mjs checks offline.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { buildChainExport } from "@/storage/hash-chain";
+import { authenticate } from "@/lib/auth";
+import { canView } from "@/domain/escrow";
+import { EventType } from "@/domain/events";
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    // The chain covers events as stored, before they are upcast
+    const events = escrowStore.getStoredEvents(id);
+
+    if (events.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Escrow not found" },
+        { status: 404 }
+      );
+    }
+
+    // Without a readable creation event only admins can tell who the parties are
+    const [created] = escrowStore.getEvents(id);
+    const visible = created.type === EventType.ESCROW_CREATED ? canView(created, actor) : actor.isAdmin;
+    if (!visible) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this escrow" },
+        { status: 403 }
+      );
+    }
+
+    const document = buildChainExport(id, events, escrowStore.getChainHead(id));
+
+    return NextResponse.json(document, {
+      headers: { "Content-Disposition": `attachment; filename="escrow-${id}-audit-log.json"` },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
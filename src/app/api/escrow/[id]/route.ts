@@ -1,17 +1,36 @@
 /**
  * GET /api/escrow/[id] - Get escrow with history
+ *
+ * `?asOf=<ISO timestamp>` or `?atEvent=<eventId>` returns the escrow as it was
+ * at that point instead, with the events up to and including it. Historical
+ * responses carry no ETag, since they cannot be used to act on the escrow.
  */
 
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import { escrowStore } from "@/storage/escrow-store";
+import { replayEvents } from "@/storage/escrow-repository";
+import { serializeEscrow, serializeEvent } from "@/lib/serializers";
+import { escrowPointInTimeQuerySchema } from "@/lib/validation";
+import { formatETag } from "@/lib/etag";
+import { authenticate } from "@/lib/auth";
+import { canView } from "@/domain/escrow";
+import { eventsAsOf, eventsThrough } from "@/domain/events";
 
 export async function GET(
   request: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
   try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
     const { id } = await ctx.params;
     const escrow = escrowStore.getById(id);
 
@@ -22,31 +41,67 @@ export async function GET(
       );
     }
 
+    if (!canView(escrow, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this escrow" },
+        { status: 403 }
+      );
+    }
+
+    const query = escrowPointInTimeQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    if (query.asOf === undefined && query.atEvent === undefined) {
+      return NextResponse.json(
+        {
+          success: true,
+          escrow: serializeEscrow(escrow),
+          events: escrow.events.map((event) => serializeEvent(event, escrow.currency)),
+          latestVersion: escrow.version,
+        },
+        { headers: { ETag: formatETag(escrow.version) } }
+      );
+    }
+
+    const events =
+      query.atEvent !== undefined
+        ? eventsThrough(escrow.events, query.atEvent)
+        : eventsAsOf(escrow.events, query.asOf!);
+
+    if (events === null) {
+      return NextResponse.json(
+        { success: false, error: "Event not found in this escrow's history" },
+        { status: 404 }
+      );
+    }
+
+    if (events.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Escrow did not exist at that time" },
+        { status: 404 }
+      );
+    }
+
+    const historical = replayEvents(events);
+
     return NextResponse.json({
       success: true,
-      escrow: {
-        id: escrow.id,
-        buyerId: escrow.buyerId,
-        sellerId: escrow.sellerId,
-        amount: escrow.amount,
-        description: escrow.description,
-        currentState: escrow.currentState,
-        createdAt: escrow.createdAt.toISOString(),
-        updatedAt: escrow.updatedAt.toISOString(),
-      },
-      events: escrow.events.map((event) => ({
-        ...event,
-        timestamp: event.timestamp.toISOString(),
-      })),
+      escrow: serializeEscrow(historical),
+      events: historical.events.map((event) => serializeEvent(event, historical.currency)),
+      latestVersion: escrow.version,
     });
   } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: "Internal server error" },
       { status: 500 }
     );
   }
 }
-
-
-
-
@@ -0,0 +1,65 @@
+/**
+ * GET /api/escrow/[id]/stream - Server-Sent Events for one escrow
+ *
+ * Pushes each event appended to the escrow from the moment of connection.
+ * Message IDs are positions in the escrow's event log; a client reconnecting
+ * with `Last-Event-ID` is sent every event after that position first.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { createEscrowEventStream } from "@/lib/event-stream";
+import { authenticate } from "@/lib/auth";
+import { canView } from "@/domain/escrow";
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    const escrow = escrowStore.getById(id);
+
+    if (!escrow) {
+      return NextResponse.json(
+        { success: false, error: "Escrow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canView(escrow, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this escrow" },
+        { status: 403 }
+      );
+    }
+
+    const stream = createEscrowEventStream(escrowStore, id, escrow.currency, {
+      lastEventId: request.headers.get("last-event-id"),
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
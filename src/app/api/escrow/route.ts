@@ -1,50 +1,50 @@
 /**
+ * GET /api/escrow - List and search escrows
  * POST /api/escrow - Create a new escrow
+ *
+ * Both require authentication. Non-admins only see escrows they take part in,
+ * and can only create escrows where they are the buyer or the seller.
+ * New escrows start PROPOSED and wait for the other party to accept the terms.
+ *
+ * Supports an `Idempotency-Key` header so retries do not create duplicates.
  */
 
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import { createEscrow } from "@/domain/escrow";
+import { UserRole } from "@/domain/escrow-state";
 import { escrowStore } from "@/storage/escrow-store";
-import { createEscrowSchema } from "@/lib/validation";
+import { InvalidCursorError } from "@/storage/escrow-query";
+import { createEscrowSchema, listEscrowsQuerySchema } from "@/lib/validation";
+import { serializeEscrow } from "@/lib/serializers";
+import { formatETag } from "@/lib/etag";
+import { withIdempotency } from "@/lib/idempotency";
+import { getFeeSchedule } from "@/lib/fee-config";
+import { authenticate } from "@/lib/auth";
 
-export async function POST(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    const body = await request.json();
-    const validated = createEscrowSchema.parse(body);
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
 
-    // Generate ID
-    const id = `escrow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const query = listEscrowsQuerySchema.parse(params);
 
-    // Create escrow
-    const { escrow, event } = createEscrow(
-      id,
-      validated.buyerId,
-      validated.sellerId,
-      validated.amount,
-      validated.description
+    const page = escrowStore.query(
+      actor.isAdmin ? query : { ...query, participantId: actor.userId }
     );
 
-    // Store
-    escrowStore.create(escrow, event);
-
-    return NextResponse.json(
-      {
-        success: true,
-        escrow: {
-          id: escrow.id,
-          buyerId: escrow.buyerId,
-          sellerId: escrow.sellerId,
-          amount: escrow.amount,
-          description: escrow.description,
-          currentState: escrow.currentState,
-          createdAt: escrow.createdAt.toISOString(),
-          updatedAt: escrow.updatedAt.toISOString(),
-        },
-      },
-      { status: 201 }
-    );
+    return NextResponse.json({
+      success: true,
+      escrows: page.items.map(serializeEscrow),
+      nextCursor: page.nextCursor,
+    });
   } catch (error) {
     if (error instanceof Error && error.name === "ZodError") {
       return NextResponse.json(
@@ -53,6 +53,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: "Internal server error" },
       { status: 500 }
@@ -60,6 +67,78 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export async function POST(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = createEscrowSchema.parse(body);
+
+    if (
+      !actor.isAdmin &&
+      actor.userId !== validated.buyerId &&
+      actor.userId !== validated.sellerId
+    ) {
+      return NextResponse.json(
+        { success: false, error: "You can only create escrows you take part in" },
+        { status: 403 }
+      );
+    }
+
+    return await withIdempotency(
+      request,
+      { scope: "escrow.create", caller: actor.userId, payload: body },
+      async () => {
+        // Generate ID
+        const id = `escrow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+        // Create escrow
+        const { event } = createEscrow(
+          id,
+          validated.buyerId,
+          validated.sellerId,
+          validated.amount,
+          validated.currency,
+          validated.description,
+          validated.milestones,
+          {
+            fundingDeadline: validated.fundingDeadline,
+            inspectionDeadline: validated.inspectionDeadline,
+          },
+          // The creator proposes; admins creating on someone's behalf propose for the buyer
+          actor.userId === validated.sellerId ? UserRole.SELLER : UserRole.BUYER,
+          getFeeSchedule(validated.currency)
+        );
 
+        // Store; the response reflects the escrow replayed from its log
+        const escrow = escrowStore.create(event);
 
+        return NextResponse.json(
+          {
+            success: true,
+            escrow: serializeEscrow(escrow),
+          },
+          { status: 201, headers: { ETag: formatETag(escrow.version) } }
+        );
+      }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/ledger/accounts/[accountId] - Get an account's balances and journal entries
+ *
+ * Account IDs are `buyer:<userId>`, `seller:<userId>`, `escrow:<escrowId>` or `platform:fees`.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { canViewAccount, getAccount } from "@/storage/ledger";
+import { serializeBalance, serializeJournalEntry } from "@/lib/serializers";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ accountId: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { accountId } = await ctx.params;
+
+    if (!canViewAccount(escrowStore, accountId, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this account" },
+        { status: 403 }
+      );
+    }
+
+    const account = getAccount(escrowStore, accountId);
+    if (account.entries.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Account not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      accountId,
+      balances: account.balances.map(serializeBalance),
+      entries: account.entries.map(serializeJournalEntry),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * GET /api/ledger/accounts - List ledger account balances
+ *
+ * Admins see every account, including escrow holding accounts and platform fees;
+ * other users see their own buyer and seller accounts.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { getAccountBalances } from "@/storage/ledger";
+import { buyerAccount, sellerAccount } from "@/domain/ledger";
+import { serializeBalance } from "@/lib/serializers";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const own = [buyerAccount(actor.userId), sellerAccount(actor.userId)];
+    // Only the caller's own escrows can post to their accounts
+    const balances = getAccountBalances(escrowStore, actor.isAdmin ? undefined : actor.userId).filter(
+      (balance) => actor.isAdmin || own.includes(balance.accountId)
+    );
+
+    return NextResponse.json({
+      success: true,
+      balances: balances.map(serializeBalance),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
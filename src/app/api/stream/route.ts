@@ -0,0 +1,43 @@
+/**
+ * GET /api/stream - Server-Sent Events for every escrow the caller takes part in
+ *
+ * Admins receive the events of every escrow. Message IDs are outbox offsets;
+ * a client reconnecting with `Last-Event-ID` is sent everything it missed first.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { escrowStore } from "@/storage/escrow-store";
+import { createParticipantEventStream } from "@/lib/event-stream";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const stream = createParticipantEventStream(escrowStore, actor, {
+      lastEventId: request.headers.get("last-event-id"),
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * GET /api/webhooks/[id]/deliveries - Delivery log for a webhook subscription
+ *
+ * Lists every event queued for the subscription, newest first, with each
+ * attempt made to deliver it. Only the user who registered the subscription
+ * and admins may read it.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { webhookStore } from "@/storage/webhook-store";
+import { serializeWebhookDelivery } from "@/lib/serializers";
+import { canManageWebhook } from "@/lib/webhooks";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    const subscription = webhookStore.getSubscription(id);
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageWebhook(subscription, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this webhook" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      deliveries: webhookStore.listDeliveries(id).reverse().map(serializeWebhookDelivery),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * GET /api/webhooks/[id] - Get a webhook subscription
+ * PATCH /api/webhooks/[id] - Change its URL, event types, secret or active flag
+ * DELETE /api/webhooks/[id] - Remove it along with its delivery log
+ *
+ * Only the user who registered the subscription and admins may use these.
+ * A new URL must resolve to a public address.
+ * Deactivating a subscription pauses delivery; events appended meanwhile are
+ * not queued for it.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { WebhookSubscription, webhookStore } from "@/storage/webhook-store";
+import { updateWebhookSchema } from "@/lib/validation";
+import { serializeWebhook } from "@/lib/serializers";
+import { canManageWebhook, checkWebhookTarget } from "@/lib/webhooks";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    const subscription = webhookStore.getSubscription(id);
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageWebhook(subscription, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this webhook" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, webhook: serializeWebhook(subscription) });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    const subscription = webhookStore.getSubscription(id);
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageWebhook(subscription, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this webhook" },
+        { status: 403 }
+      );
+    }
+
+    const input = updateWebhookSchema.parse(await request.json());
+    const refused = input.url ? await checkWebhookTarget(input.url) : null;
+    if (refused) {
+      return NextResponse.json({ success: false, error: refused }, { status: 400 });
+    }
+
+    const updated: WebhookSubscription = {
+      ...subscription,
+      url: input.url ?? subscription.url,
+      secret: input.secret ?? subscription.secret,
+      eventTypes: input.eventTypes ?? subscription.eventTypes,
+      active: input.active ?? subscription.active,
+      updatedAt: new Date(),
+    };
+    webhookStore.saveSubscription(updated);
+
+    return NextResponse.json({ success: true, webhook: serializeWebhook(updated) });
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await ctx.params;
+    const subscription = webhookStore.getSubscription(id);
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageWebhook(subscription, actor)) {
+      return NextResponse.json(
+        { success: false, error: "You do not have access to this webhook" },
+        { status: 403 }
+      );
+    }
+
+    webhookStore.deleteSubscription(subscription.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
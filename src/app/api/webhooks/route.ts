@@ -0,0 +1,90 @@
+/**
+ * GET /api/webhooks - List webhook subscriptions
+ * POST /api/webhooks - Register a webhook subscription
+ *
+ * Both require authentication. Non-admins only see the subscriptions they
+ * registered, and only receive events for escrows they take part in.
+ * The signing secret is returned once, in the response that creates it;
+ * a secret is generated when none is supplied. The URL must resolve to a
+ * public address: loopback, private and link-local hosts are refused.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { webhookStore } from "@/storage/webhook-store";
+import { createWebhookSchema } from "@/lib/validation";
+import { serializeWebhook } from "@/lib/serializers";
+import { checkWebhookTarget, createSubscriptionId, generateWebhookSecret } from "@/lib/webhooks";
+import { authenticate } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const subscriptions = webhookStore
+      .listSubscriptions()
+      .filter((subscription) => actor.isAdmin || subscription.ownerId === actor.userId);
+
+    return NextResponse.json({ success: true, webhooks: subscriptions.map(serializeWebhook) });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = authenticate(request);
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const input = createWebhookSchema.parse(await request.json());
+    const refused = await checkWebhookTarget(input.url);
+    if (refused) {
+      return NextResponse.json({ success: false, error: refused }, { status: 400 });
+    }
+
+    const now = new Date();
+    const subscription = {
+      id: createSubscriptionId(),
+      ownerId: actor.userId,
+      url: input.url,
+      secret: input.secret ?? generateWebhookSecret(),
+      eventTypes: input.eventTypes,
+      active: input.active,
+      createdAt: now,
+      updatedAt: now,
+    };
+    webhookStore.saveSubscription(subscription);
+
+    return NextResponse.json(
+      { success: true, webhook: { ...serializeWebhook(subscription), secret: subscription.secret } },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
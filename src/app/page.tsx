@@ -1,20 +1,76 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { EscrowState, EscrowAction, UserRole } from "@/domain/escrow-state";
-import { EscrowEvent, EventType, EscrowCreatedEvent } from "@/domain/events";
+import { DisputeCategory, DisputeStatus } from "@/domain/disputes";
+import { EVENT_SCHEMA_VERSION, EventType } from "@/domain/events";
+import { CurrencyCode, SUPPORTED_CURRENCIES, getExponent } from "@/domain/money";
+import type { serializeEvent } from "@/lib/serializers";
+import { createSseParser } from "@/lib/sse";
+import { EVIDENCE_CONTENT_TYPES } from "@/lib/validation";
+
+// Events as the API returns them: decimal-string amounts and ISO timestamps
+type EscrowEvent = ReturnType<typeof serializeEvent>;
 
 interface Escrow {
   id: string;
   buyerId: string;
   sellerId: string;
-  amount: number;
+  // Decimal strings in `currency`, e.g. "12.50"
+  amount: string;
+  currency: CurrencyCode;
   description: string;
   currentState: EscrowState;
+  milestones?: Milestone[];
+  proposedBy: UserRole;
+  pendingApprovalFrom: UserRole | null;
+  releasedAmount: string;
+  remainingAmount: string;
+  settlement?: { buyerAmount: string; sellerAmount: string };
+  payout?: Payout;
+  // Only whether the provider declined it is shown here
+  pendingPayment: { declined?: boolean } | null;
+  fundingDeadline: string | null;
+  inspectionDeadline: string | null;
+  dispute: Dispute | null;
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
 
+interface Payout {
+  sellerGross: string;
+  buyerGross: string;
+  platformFee: string;
+  arbitrationFee: string;
+  sellerNet: string;
+  buyerRefund: string;
+}
+
+interface Dispute {
+  category: DisputeCategory | null;
+  reason: string | null;
+  status: DisputeStatus;
+  sellerResponseDeadline: string | null;
+  assignedTo: string | null;
+}
+
+interface Milestone {
+  id: string;
+  name: string;
+  amount: string;
+  releasedAt: string | null;
+}
+
+const formatMoney = (amount: string, currency: CurrencyCode) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(Number(amount));
+
+// Demo admin identity; must be listed in ESCROW_ADMIN_IDS (the default in development)
+const DEMO_ADMIN_ID = "admin";
+
+// Wait before reconnecting to the live stream after it drops
+const STREAM_RETRY_MS = 3000;
+
 export default function Home() {
   const [escrows, setEscrows] = useState<Escrow[]>([]);
   const [selectedEscrow, setSelectedEscrow] = useState<{
@@ -24,21 +80,127 @@ export default function Home() {
   const [currentUser, setCurrentUser] = useState<UserRole>(UserRole.BUYER);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [loading, setLoading] = useState(false);
+  // Set while the timeline scrubber shows a past state: the live log's event IDs
+  // and the position being viewed
+  const [timeTravel, setTimeTravel] = useState<{ eventIds: string[]; index: number } | null>(null);
 
   // Form state
   const [formData, setFormData] = useState({
     buyerId: "",
     sellerId: "",
     amount: "",
+    currency: "USD" as CurrencyCode,
     description: "",
+    fundingDeadline: "",
+    inspectionDeadline: "",
   });
 
-  // Load escrows (in a real app, this would be a proper API call)
+  // Development session tokens, one per user ID the demo acts as
+  const sessionTokens = useRef<Record<string, string>>({});
+
+  const getAuthHeaders = async (userId: string): Promise<Record<string, string>> => {
+    let token = sessionTokens.current[userId];
+    if (!token) {
+      const response = await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to start session");
+      }
+      token = data.token as string;
+      sessionTokens.current[userId] = token;
+    }
+    return { Authorization: `Bearer ${token}` };
+  };
+
+  // Load the most recently updated escrows from the list endpoint.
+  // The demo reads as the admin so every role sees the same escrows.
   const loadEscrows = async () => {
-    // For demo purposes, we'll just show the selected escrow
-    // In production, you'd have a list endpoint
+    try {
+      const response = await fetch("/api/escrow?sortBy=updatedAt&sortOrder=desc&limit=50", {
+        headers: await getAuthHeaders(DEMO_ADMIN_ID),
+      });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      if (data.success && Array.isArray(data.escrows)) {
+        setEscrows(data.escrows);
+      }
+    } catch (error) {
+      console.error("Load escrows error:", error);
+    }
   };
 
+  // Load once on mount; later changes are merged in by the handlers below
+  useEffect(() => {
+    loadEscrows();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // The live stream callback outlives renders, so it reads the selection from refs
+  const selectedIdRef = useRef<string | null>(null);
+  const timeTravellingRef = useRef(false);
+  useEffect(() => {
+    selectedIdRef.current = selectedEscrow?.escrow.id ?? null;
+    timeTravellingRef.current = timeTravel !== null;
+  }, [selectedEscrow, timeTravel]);
+
+  // Follow every escrow live, so changes made by the other party show up without
+  // a refresh. Read with fetch rather than EventSource to send the session token,
+  // and resume with Last-Event-ID after the connection drops.
+  useEffect(() => {
+    const controller = new AbortController();
+    let lastEventId: string | undefined;
+
+    const follow = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const response = await fetch("/api/stream", {
+            headers: {
+              ...(await getAuthHeaders(DEMO_ADMIN_ID)),
+              ...(lastEventId ? { "Last-Event-ID": lastEventId } : {}),
+            },
+            signal: controller.signal,
+          });
+          if (response.ok && response.body) {
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            const parse = createSseParser();
+            for (;;) {
+              const { value, done } = await reader.read();
+              if (done) break;
+
+              const messages = parse(value);
+              if (messages.length === 0) continue;
+              lastEventId = messages[messages.length - 1].id ?? lastEventId;
+
+              const changed = new Set(messages.map((message) => JSON.parse(message.data).escrowId));
+              loadEscrows();
+              // A past state stays on screen until the user returns to live
+              if (
+                selectedIdRef.current &&
+                changed.has(selectedIdRef.current) &&
+                !timeTravellingRef.current
+              ) {
+                loadEscrow(selectedIdRef.current);
+              }
+            }
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error("Live updates error:", error);
+        }
+        await new Promise((resolve) => setTimeout(resolve, STREAM_RETRY_MS));
+      }
+    };
+
+    follow();
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const handleCreateEscrow = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -46,12 +208,25 @@ export default function Home() {
     try {
       const response = await fetch("/api/escrow", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+          ...(await getAuthHeaders(formData.buyerId)),
+        },
         body: JSON.stringify({
           buyerId: formData.buyerId,
           sellerId: formData.sellerId,
-          amount: parseFloat(formData.amount),
+          // Sent as typed so the server checks its precision against the currency
+          amount: formData.amount,
+          currency: formData.currency,
           description: formData.description,
+          // datetime-local values are in the browser's timezone
+          ...(formData.fundingDeadline
+            ? { fundingDeadline: new Date(formData.fundingDeadline).toISOString() }
+            : {}),
+          ...(formData.inspectionDeadline
+            ? { inspectionDeadline: new Date(formData.inspectionDeadline).toISOString() }
+            : {}),
         }),
       });
 
@@ -62,7 +237,15 @@ export default function Home() {
       const data = await response.json();
       if (data.success && data.escrow) {
         // Clear form
-        setFormData({ buyerId: "", sellerId: "", amount: "", description: "" });
+        setFormData({
+          buyerId: "",
+          sellerId: "",
+          amount: "",
+          currency: "USD",
+          description: "",
+          fundingDeadline: "",
+          inspectionDeadline: "",
+        });
         setShowCreateForm(false);
 
         // Immediately add to escrows list
@@ -71,8 +254,21 @@ export default function Home() {
           buyerId: data.escrow.buyerId,
           sellerId: data.escrow.sellerId,
           amount: data.escrow.amount,
+          currency: data.escrow.currency,
           description: data.escrow.description,
           currentState: data.escrow.currentState,
+          milestones: data.escrow.milestones,
+          proposedBy: data.escrow.proposedBy,
+          pendingApprovalFrom: data.escrow.pendingApprovalFrom,
+          releasedAmount: data.escrow.releasedAmount,
+          remainingAmount: data.escrow.remainingAmount,
+          settlement: data.escrow.settlement,
+          payout: data.escrow.payout,
+          pendingPayment: data.escrow.pendingPayment,
+          fundingDeadline: data.escrow.fundingDeadline,
+          inspectionDeadline: data.escrow.inspectionDeadline,
+          dispute: data.escrow.dispute,
+          version: data.escrow.version,
           createdAt: data.escrow.createdAt,
           updatedAt: data.escrow.updatedAt,
         };
@@ -86,14 +282,16 @@ export default function Home() {
 
         // Set as selected immediately with basic info and initial event
         // Create a basic event from the creation
-        const initialEvent: EscrowCreatedEvent = {
+        const initialEvent: EscrowEvent = {
           id: `evt_${Date.now()}`,
           type: EventType.ESCROW_CREATED,
-          timestamp: new Date(data.escrow.createdAt),
+          schemaVersion: EVENT_SCHEMA_VERSION,
+          timestamp: data.escrow.createdAt,
           escrowId: newEscrow.id,
           buyerId: newEscrow.buyerId,
           sellerId: newEscrow.sellerId,
           amount: newEscrow.amount,
+          currency: newEscrow.currency,
           description: newEscrow.description,
         };
 
@@ -118,9 +316,13 @@ export default function Home() {
     }
   };
 
-  const loadEscrow = async (id: string) => {
+  // Loads the escrow as it is now, or as it was right after `atEvent`
+  const loadEscrow = async (id: string, atEvent?: string) => {
     try {
-      const response = await fetch(`/api/escrow/${id}`);
+      const query = atEvent ? `?atEvent=${encodeURIComponent(atEvent)}` : "";
+      const response = await fetch(`/api/escrow/${id}${query}`, {
+        headers: await getAuthHeaders(DEMO_ADMIN_ID),
+      });
 
       if (!response.ok) {
         // 404 is expected sometimes with in-memory storage
@@ -138,8 +340,21 @@ export default function Home() {
           buyerId: data.escrow.buyerId,
           sellerId: data.escrow.sellerId,
           amount: data.escrow.amount,
+          currency: data.escrow.currency,
           description: data.escrow.description,
           currentState: data.escrow.currentState,
+          milestones: data.escrow.milestones,
+          proposedBy: data.escrow.proposedBy,
+          pendingApprovalFrom: data.escrow.pendingApprovalFrom,
+          releasedAmount: data.escrow.releasedAmount,
+          remainingAmount: data.escrow.remainingAmount,
+          settlement: data.escrow.settlement,
+          payout: data.escrow.payout,
+          pendingPayment: data.escrow.pendingPayment,
+          fundingDeadline: data.escrow.fundingDeadline,
+          inspectionDeadline: data.escrow.inspectionDeadline,
+          dispute: data.escrow.dispute,
+          version: data.escrow.version,
           createdAt: data.escrow.createdAt,
           updatedAt: data.escrow.updatedAt,
         };
@@ -149,6 +364,8 @@ export default function Home() {
           events: data.events || [],
         });
 
+        if (atEvent) return;
+
         // Add to escrows list if not already there
         setEscrows((prev) => {
           if (!prev.find((e) => e.id === escrow.id)) {
@@ -163,7 +380,25 @@ export default function Home() {
     }
   };
 
-  const handleAction = async (action: EscrowAction) => {
+  // Steps the detail view through the escrow's history; the last event is the live state
+  const scrubTo = (index: number) => {
+    if (!selectedEscrow) return;
+    const eventIds = timeTravel?.eventIds ?? selectedEscrow.events.map((event) => event.id);
+    if (index < 0 || index >= eventIds.length) return;
+
+    if (index === eventIds.length - 1) {
+      setTimeTravel(null);
+      loadEscrow(selectedEscrow.escrow.id);
+    } else {
+      setTimeTravel({ eventIds, index });
+      loadEscrow(selectedEscrow.escrow.id, eventIds[index]);
+    }
+  };
+
+  const handleAction = async (
+    action: EscrowAction,
+    details: { milestoneId?: string } = {}
+  ) => {
     if (!selectedEscrow) return;
 
     // Check if action is allowed before making the request
@@ -176,21 +411,114 @@ export default function Home() {
       return;
     }
 
+    // Split resolutions need the buyer's share from the admin
+    let split: { buyerPercentage: number } | undefined;
+    if (action === EscrowAction.RESOLVE_DISPUTE_SPLIT) {
+      const input = window.prompt("Buyer's share of the escrowed funds (%)", "50");
+      if (input === null) return;
+      const buyerPercentage = Number(input);
+      if (!Number.isFinite(buyerPercentage) || buyerPercentage < 0 || buyerPercentage > 100) {
+        alert("Error: Buyer share must be a percentage between 0 and 100");
+        return;
+      }
+      split = { buyerPercentage };
+    }
+
+    // Counter-proposals replace the amount and/or description
+    let terms: { amount?: string; description?: string } | undefined;
+    if (action === EscrowAction.COUNTER_PROPOSE) {
+      const amountInput = window.prompt(
+        `Proposed amount (${selectedEscrow.escrow.currency})`,
+        selectedEscrow.escrow.amount
+      );
+      if (amountInput === null) return;
+      const descriptionInput = window.prompt(
+        "Proposed description",
+        selectedEscrow.escrow.description
+      );
+      if (descriptionInput === null) return;
+
+      const amount = amountInput.trim();
+      if (!(Number(amount) > 0)) {
+        alert("Error: Amount must be a positive number");
+        return;
+      }
+      terms = {
+        ...(Number(amount) !== Number(selectedEscrow.escrow.amount) ? { amount } : {}),
+        ...(descriptionInput.trim() && descriptionInput.trim() !== selectedEscrow.escrow.description
+          ? { description: descriptionInput.trim() }
+          : {}),
+      };
+      if (Object.keys(terms).length === 0) {
+        alert("Error: A counter-proposal must change the terms");
+        return;
+      }
+    }
+
+    // Disputes need a category; the reason is optional
+    let dispute: { category: DisputeCategory } | undefined;
+    let reason: string | undefined;
+    if (action === EscrowAction.DISPUTE) {
+      const categories = Object.values(DisputeCategory);
+      const input = window.prompt(`What went wrong? (${categories.join(", ")})`, DisputeCategory.NOT_RECEIVED);
+      if (input === null) return;
+      const category = categories.find((c) => c === input.trim().toUpperCase());
+      if (!category) {
+        alert(`Error: The category must be one of ${categories.join(", ")}`);
+        return;
+      }
+      const details = window.prompt("Describe the problem (optional)");
+      if (details === null) return;
+      dispute = { category };
+      reason = details.trim() || undefined;
+    }
+
+    // Cancellations must say why
+    if (action === EscrowAction.CANCEL) {
+      const input = window.prompt("Why are you cancelling this escrow?");
+      if (input === null) return;
+      if (!input.trim()) {
+        alert("Error: A reason is required to cancel an escrow");
+        return;
+      }
+      reason = input.trim();
+    }
+
+    // So are refunds the seller gives of their own accord
+    if (action === EscrowAction.REFUND) {
+      const input = window.prompt("Why are you refunding the buyer?");
+      if (input === null) return;
+      if (!input.trim()) {
+        alert("Error: A reason is required to refund an escrow");
+        return;
+      }
+      reason = input.trim();
+    }
+
+    // Reused by the retry below so the server never applies the action twice
+    const idempotencyKey = crypto.randomUUID();
+
+    // The server derives the role from who is acting, so sign in as that party
+    const actingUserId = getActingUserId(selectedEscrow.escrow);
+
     const perform = async () => {
       const response = await fetch(
         `/api/escrow/${selectedEscrow.escrow.id}/actions`,
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": idempotencyKey,
+            ...(await getAuthHeaders(actingUserId)),
+          },
           body: JSON.stringify({
             action,
-            performedBy:
-              currentUser === UserRole.BUYER
-                ? selectedEscrow.escrow.buyerId
-                : currentUser === UserRole.SELLER
-                ? selectedEscrow.escrow.sellerId
-                : "admin",
-            userRole: currentUser,
+            milestoneId: details.milestoneId,
+            split,
+            terms,
+            dispute,
+            reason,
+            expectedVersion: selectedEscrow.escrow.version,
           }),
         }
       );
@@ -211,6 +539,10 @@ export default function Home() {
       const data = await response.json();
       if (data.success) {
         await loadEscrow(selectedEscrow.escrow.id);
+      } else if (response.status === 409) {
+        // Someone else acted first; show them the latest state before retrying
+        await loadEscrow(selectedEscrow.escrow.id);
+        alert("This escrow was updated by someone else. Review the latest state and try again.");
       } else {
         alert(`Error: ${data.error}`);
       }
@@ -221,6 +553,72 @@ export default function Home() {
     }
   };
 
+  // The party acting for the selected role; the server derives the role from it
+  const getActingUserId = (escrow: Escrow): string =>
+    currentUser === UserRole.BUYER
+      ? escrow.buyerId
+      : currentUser === UserRole.SELLER
+      ? escrow.sellerId
+      : DEMO_ADMIN_ID;
+
+  const handleSubmitEvidence = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedEscrow) return;
+
+    const form = e.currentTarget;
+    const body = new FormData(form);
+    const file = body.get("file");
+    if (file instanceof File && file.size === 0) body.delete("file");
+    if (!body.get("file") && !String(body.get("message") ?? "").trim()) {
+      alert("Error: Add a message or a file");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/escrow/${selectedEscrow.escrow.id}/evidence`, {
+        method: "POST",
+        headers: await getAuthHeaders(getActingUserId(selectedEscrow.escrow)),
+        body,
+      });
+      const data = await response.json();
+      if (data.success) {
+        form.reset();
+        await loadEscrow(selectedEscrow.escrow.id);
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      alert("Failed to submit evidence");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Downloads go through fetch so the request carries the session token
+  const handleDownloadEvidence = async (attachment: { id: string; fileName: string }) => {
+    if (!selectedEscrow) return;
+    try {
+      const response = await fetch(
+        `/api/escrow/${selectedEscrow.escrow.id}/evidence/${attachment.id}`,
+        { headers: await getAuthHeaders(DEMO_ADMIN_ID) }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`Error: ${data.error}`);
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert("Failed to download attachment");
+    }
+  };
+
   const getAvailableActions = (): EscrowAction[] => {
     if (!selectedEscrow) return [];
     const state = selectedEscrow.escrow.currentState;
@@ -228,22 +626,60 @@ export default function Home() {
 
     const actions: EscrowAction[] = [];
 
-    if (state === EscrowState.PROPOSED && role === UserRole.BUYER) {
+    if (state === EscrowState.PROPOSED && role === selectedEscrow.escrow.pendingApprovalFrom) {
+      actions.push(EscrowAction.ACCEPT, EscrowAction.COUNTER_PROPOSE, EscrowAction.REJECT);
+    }
+
+    if (state === EscrowState.ACCEPTED && role === UserRole.BUYER) {
       actions.push(EscrowAction.FUND);
     }
 
+    if (
+      (state === EscrowState.PROPOSED || state === EscrowState.ACCEPTED) &&
+      (role === UserRole.BUYER || role === UserRole.SELLER)
+    ) {
+      actions.push(EscrowAction.CANCEL);
+    }
+
     if (state === EscrowState.FUNDED) {
       if (role === UserRole.SELLER) {
-        actions.push(EscrowAction.RELEASE);
+        actions.push(EscrowAction.RELEASE, EscrowAction.REFUND);
       }
       if (role === UserRole.BUYER) {
         actions.push(EscrowAction.DISPUTE);
       }
     }
 
+    // Until an admin takes the dispute, the seller can accept it by refunding
+    if (
+      state === EscrowState.DISPUTED &&
+      role === UserRole.SELLER &&
+      !selectedEscrow.escrow.dispute?.assignedTo
+    ) {
+      actions.push(EscrowAction.REFUND);
+    }
+
+    // A declined payout waits for an admin to send it again
+    if (
+      state === EscrowState.PAYOUT_PENDING &&
+      role === UserRole.ADMIN &&
+      selectedEscrow.escrow.pendingPayment?.declined
+    ) {
+      actions.push(EscrowAction.RETRY_PAYOUT);
+    }
+
+    // Admins take the dispute before deciding it
     if (state === EscrowState.DISPUTED && role === UserRole.ADMIN) {
-      actions.push(EscrowAction.RESOLVE_DISPUTE_RELEASE);
-      actions.push(EscrowAction.RESOLVE_DISPUTE_REFUND);
+      if (selectedEscrow.escrow.dispute?.assignedTo === DEMO_ADMIN_ID) {
+        actions.push(EscrowAction.RESOLVE_DISPUTE_RELEASE);
+        actions.push(EscrowAction.RESOLVE_DISPUTE_REFUND);
+        actions.push(EscrowAction.RESOLVE_DISPUTE_SPLIT);
+      } else if (
+        !selectedEscrow.escrow.dispute?.assignedTo &&
+        selectedEscrow.escrow.dispute?.status !== DisputeStatus.AWAITING_SELLER
+      ) {
+        actions.push(EscrowAction.ASSIGN_DISPUTE);
+      }
     }
 
     return actions;
@@ -257,17 +693,29 @@ export default function Home() {
     const allActions: EscrowAction[] = [];
 
     if (state === EscrowState.PROPOSED) {
-      allActions.push(EscrowAction.FUND);
+      allActions.push(
+        EscrowAction.ACCEPT,
+        EscrowAction.COUNTER_PROPOSE,
+        EscrowAction.REJECT,
+        EscrowAction.CANCEL
+      );
+    }
+
+    if (state === EscrowState.ACCEPTED) {
+      allActions.push(EscrowAction.FUND, EscrowAction.CANCEL);
     }
 
     if (state === EscrowState.FUNDED) {
-      allActions.push(EscrowAction.RELEASE, EscrowAction.DISPUTE);
+      allActions.push(EscrowAction.RELEASE, EscrowAction.REFUND, EscrowAction.DISPUTE);
     }
 
     if (state === EscrowState.DISPUTED) {
       allActions.push(
+        EscrowAction.REFUND,
+        EscrowAction.ASSIGN_DISPUTE,
         EscrowAction.RESOLVE_DISPUTE_RELEASE,
-        EscrowAction.RESOLVE_DISPUTE_REFUND
+        EscrowAction.RESOLVE_DISPUTE_REFUND,
+        EscrowAction.RESOLVE_DISPUTE_SPLIT
       );
     }
 
@@ -280,18 +728,89 @@ export default function Home() {
     const role = currentUser;
 
     // Check if state is terminal
-    if (state === EscrowState.RELEASED || state === EscrowState.REFUNDED) {
+    if (
+      state === EscrowState.RELEASED ||
+      state === EscrowState.REFUNDED ||
+      state === EscrowState.SETTLED ||
+      state === EscrowState.EXPIRED ||
+      state === EscrowState.CANCELLED ||
+      state === EscrowState.REJECTED
+    ) {
       return false;
     }
 
     // Check permissions
+    // Only the party the terms are waiting on can respond to them
+    if (
+      (action === EscrowAction.ACCEPT ||
+        action === EscrowAction.REJECT ||
+        action === EscrowAction.COUNTER_PROPOSE) &&
+      role !== selectedEscrow.escrow.pendingApprovalFrom
+    ) {
+      return false;
+    }
+
+    // Only the admin the dispute is assigned to can decide it
+    if (
+      (action === EscrowAction.RESOLVE_DISPUTE_RELEASE ||
+        action === EscrowAction.RESOLVE_DISPUTE_REFUND ||
+        action === EscrowAction.RESOLVE_DISPUTE_SPLIT) &&
+      selectedEscrow.escrow.dispute?.assignedTo !== DEMO_ADMIN_ID
+    ) {
+      return false;
+    }
+
+    // Once assigned, only the admin reviewing the dispute can hand it over
+    if (
+      action === EscrowAction.ASSIGN_DISPUTE &&
+      selectedEscrow.escrow.dispute?.assignedTo &&
+      selectedEscrow.escrow.dispute.assignedTo !== DEMO_ADMIN_ID
+    ) {
+      return false;
+    }
+
+    // Nobody takes the dispute up while the seller's response window is open
+    if (
+      (action === EscrowAction.ASSIGN_DISPUTE ||
+        action === EscrowAction.RESOLVE_DISPUTE_RELEASE ||
+        action === EscrowAction.RESOLVE_DISPUTE_REFUND ||
+        action === EscrowAction.RESOLVE_DISPUTE_SPLIT) &&
+      selectedEscrow.escrow.dispute?.status === DisputeStatus.AWAITING_SELLER
+    ) {
+      return false;
+    }
+
+    // The seller can no longer refund once an admin has taken the dispute
+    if (
+      action === EscrowAction.REFUND &&
+      state === EscrowState.DISPUTED &&
+      selectedEscrow.escrow.dispute?.assignedTo
+    ) {
+      return false;
+    }
+
     const permissions: Record<EscrowAction, UserRole[]> = {
+      [EscrowAction.ACCEPT]: [UserRole.BUYER, UserRole.SELLER],
+      [EscrowAction.REJECT]: [UserRole.BUYER, UserRole.SELLER],
+      [EscrowAction.COUNTER_PROPOSE]: [UserRole.BUYER, UserRole.SELLER],
       [EscrowAction.FUND]: [UserRole.BUYER],
       [EscrowAction.RELEASE]: [UserRole.SELLER],
+      [EscrowAction.RELEASE_MILESTONE]: [UserRole.SELLER],
       [EscrowAction.DISPUTE]: [UserRole.BUYER],
       [EscrowAction.RESOLVE_DISPUTE_RELEASE]: [UserRole.ADMIN],
       [EscrowAction.RESOLVE_DISPUTE_REFUND]: [UserRole.ADMIN],
-      [EscrowAction.REFUND]: [], // Not used - refund only via dispute resolution
+      [EscrowAction.RESOLVE_DISPUTE_SPLIT]: [UserRole.ADMIN],
+      [EscrowAction.CANCEL]: [UserRole.BUYER, UserRole.SELLER],
+      [EscrowAction.SUBMIT_EVIDENCE]: [], // Submitted through the evidence form
+      [EscrowAction.ASSIGN_DISPUTE]: [UserRole.ADMIN],
+      [EscrowAction.REFUND]: [UserRole.SELLER],
+      [EscrowAction.EXPIRE]: [], // Applied by the deadline scheduler
+      [EscrowAction.AUTO_RELEASE]: [], // Applied by the deadline scheduler
+      [EscrowAction.CONFIRM_FUNDING]: [], // Applied when the payment provider reports back
+      [EscrowAction.FAIL_FUNDING]: [], // Applied when the payment provider reports back
+      [EscrowAction.CONFIRM_PAYOUT]: [], // Applied when the payment provider reports back
+      [EscrowAction.FAIL_PAYOUT]: [], // Applied when the payment provider reports back
+      [EscrowAction.RETRY_PAYOUT]: [UserRole.ADMIN],
     };
 
     const allowedRoles = permissions[action] || [];
@@ -302,6 +821,11 @@ export default function Home() {
     switch (state) {
       case EscrowState.PROPOSED:
         return "bg-amber-50 text-amber-700 border-amber-200";
+      case EscrowState.ACCEPTED:
+        return "bg-cyan-50 text-cyan-700 border-cyan-200";
+      case EscrowState.FUNDING_PENDING:
+      case EscrowState.PAYOUT_PENDING:
+        return "bg-sky-50 text-sky-700 border-sky-200";
       case EscrowState.FUNDED:
         return "bg-blue-50 text-blue-700 border-blue-200";
       case EscrowState.RELEASED:
@@ -310,6 +834,12 @@ export default function Home() {
         return "bg-rose-50 text-rose-700 border-rose-200";
       case EscrowState.REFUNDED:
         return "bg-slate-50 text-slate-700 border-slate-200";
+      case EscrowState.SETTLED:
+        return "bg-violet-50 text-violet-700 border-violet-200";
+      case EscrowState.EXPIRED:
+      case EscrowState.CANCELLED:
+      case EscrowState.REJECTED:
+        return "bg-gray-100 text-gray-500 border-gray-200";
       default:
         return "bg-slate-50 text-slate-700 border-slate-200";
     }
@@ -319,6 +849,11 @@ export default function Home() {
     switch (state) {
       case EscrowState.PROPOSED:
         return "⏳";
+      case EscrowState.ACCEPTED:
+        return "🤝";
+      case EscrowState.FUNDING_PENDING:
+      case EscrowState.PAYOUT_PENDING:
+        return "🔄";
       case EscrowState.FUNDED:
         return "💰";
       case EscrowState.RELEASED:
@@ -327,6 +862,14 @@ export default function Home() {
         return "⚠️";
       case EscrowState.REFUNDED:
         return "↩️";
+      case EscrowState.SETTLED:
+        return "⚖️";
+      case EscrowState.EXPIRED:
+        return "⌛";
+      case EscrowState.CANCELLED:
+        return "✖️";
+      case EscrowState.REJECTED:
+        return "👎";
       default:
         return "📋";
     }
@@ -459,21 +1002,31 @@ export default function Home() {
 
                   <div className="space-y-2">
                     <label className="text-sm font-semibold text-gray-700">
-                      Amount ($)
+                      Amount
                     </label>
-                    <div className="relative">
-                      <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 font-semibold">
-                        $
-                      </span>
+                    <div className="flex gap-3">
+                      <select
+                        value={formData.currency}
+                        onChange={(e) =>
+                          setFormData({ ...formData, currency: e.target.value as CurrencyCode })
+                        }
+                        className="px-4 py-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-900 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none font-semibold"
+                      >
+                        {SUPPORTED_CURRENCIES.map((currency) => (
+                          <option key={currency} value={currency}>
+                            {currency}
+                          </option>
+                        ))}
+                      </select>
                       <input
                         type="number"
-                        step="0.01"
+                        step={10 ** -getExponent(formData.currency)}
                         value={formData.amount}
                         onChange={(e) =>
                           setFormData({ ...formData, amount: e.target.value })
                         }
-                        className="w-full pl-8 pr-4 py-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-900 placeholder:text-gray-400 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none font-mono"
-                        placeholder="0.00"
+                        className="flex-1 px-4 py-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-900 placeholder:text-gray-400 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none font-mono"
+                        placeholder={(0).toFixed(getExponent(formData.currency))}
                         required
                       />
                     </div>
@@ -498,6 +1051,35 @@ export default function Home() {
                     />
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <label className="text-sm font-semibold text-gray-700">
+                        Funding Deadline (optional)
+                      </label>
+                      <input
+                        type="datetime-local"
+                        value={formData.fundingDeadline}
+                        onChange={(e) =>
+                          setFormData({ ...formData, fundingDeadline: e.target.value })
+                        }
+                        className="w-full px-4 py-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-900 placeholder:text-gray-400 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-semibold text-gray-700">
+                        Inspection Deadline (optional)
+                      </label>
+                      <input
+                        type="datetime-local"
+                        value={formData.inspectionDeadline}
+                        onChange={(e) =>
+                          setFormData({ ...formData, inspectionDeadline: e.target.value })
+                        }
+                        className="w-full px-4 py-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-900 placeholder:text-gray-400 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none"
+                      />
+                    </div>
+                  </div>
+
                   <div className="flex gap-4 pt-4 border-t border-gray-100">
                     <button
                       type="submit"
@@ -539,7 +1121,10 @@ export default function Home() {
                 {escrows.map((escrow) => (
                   <button
                     key={escrow.id}
-                    onClick={() => loadEscrow(escrow.id)}
+                    onClick={() => {
+                      setTimeTravel(null);
+                      loadEscrow(escrow.id);
+                    }}
                     className="w-full group text-left bg-white p-5 rounded-2xl border border-gray-200 hover:border-blue-300 hover:shadow-md transition-all duration-200"
                   >
                     <div className="flex justify-between items-start mb-3">
@@ -572,7 +1157,7 @@ export default function Home() {
                         </div>
                       </div>
                       <div className="text-2xl font-bold text-gray-900">
-                        ${escrow.amount.toLocaleString()}
+                        {formatMoney(escrow.amount, escrow.currency)}
                       </div>
                     </div>
                   </button>
@@ -584,7 +1169,10 @@ export default function Home() {
             {selectedEscrow && (
               <div className="space-y-6">
                 <button
-                  onClick={() => setSelectedEscrow(null)}
+                  onClick={() => {
+                    setTimeTravel(null);
+                    setSelectedEscrow(null);
+                  }}
                   className="text-sm font-semibold text-gray-500 hover:text-gray-900 flex items-center gap-2 transition-colors px-2"
                 >
                   ← Back to List
@@ -598,7 +1186,15 @@ export default function Home() {
                       EscrowState.RELEASED
                         ? "from-emerald-50 to-teal-50"
                         : selectedEscrow.escrow.currentState ===
-                          EscrowState.REFUNDED
+                            EscrowState.REFUNDED ||
+                          selectedEscrow.escrow.currentState ===
+                            EscrowState.SETTLED ||
+                          selectedEscrow.escrow.currentState ===
+                            EscrowState.EXPIRED ||
+                          selectedEscrow.escrow.currentState ===
+                            EscrowState.CANCELLED ||
+                          selectedEscrow.escrow.currentState ===
+                            EscrowState.REJECTED
                         ? "from-slate-50 to-gray-50"
                         : selectedEscrow.escrow.currentState ===
                           EscrowState.DISPUTED
@@ -616,7 +1212,7 @@ export default function Home() {
                         </span>
                         <div>
                           <div className="text-sm font-bold text-gray-500 uppercase tracking-widest mb-1">
-                            Current Status
+                            {timeTravel ? "Status Then" : "Current Status"}
                           </div>
                           <div
                             className={`text-2xl font-extrabold ${
@@ -641,12 +1237,65 @@ export default function Home() {
                           Amount
                         </div>
                         <div className="text-4xl font-black text-gray-900 tracking-tight">
-                          ${selectedEscrow.escrow.amount.toLocaleString()}
+                          {formatMoney(selectedEscrow.escrow.amount, selectedEscrow.escrow.currency)}
                         </div>
                       </div>
                     </div>
                   </div>
 
+                  {/* Timeline Scrubber */}
+                  {(() => {
+                    const eventIds =
+                      timeTravel?.eventIds ?? selectedEscrow.events.map((event) => event.id);
+                    const position = timeTravel?.index ?? eventIds.length - 1;
+                    return (
+                      <div className="px-8 py-4 border-b border-gray-100">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                            Timeline
+                          </span>
+                          <span className="text-xs font-semibold text-gray-500">
+                            {timeTravel
+                              ? `Event ${position + 1} of ${eventIds.length}`
+                              : "Live"}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={() => scrubTo(position - 1)}
+                            disabled={position === 0}
+                            className="px-2 py-1 text-sm font-bold text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                          >
+                            ◀
+                          </button>
+                          <input
+                            type="range"
+                            min={0}
+                            max={eventIds.length - 1}
+                            value={position}
+                            onChange={(e) => scrubTo(Number(e.target.value))}
+                            className="flex-1 accent-blue-600"
+                          />
+                          <button
+                            onClick={() => scrubTo(position + 1)}
+                            disabled={position === eventIds.length - 1}
+                            className="px-2 py-1 text-sm font-bold text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                          >
+                            ▶
+                          </button>
+                          {timeTravel && (
+                            <button
+                              onClick={() => scrubTo(eventIds.length - 1)}
+                              className="px-3 py-1 text-xs font-bold text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100"
+                            >
+                              Back to live
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
                   {/* Details Grid */}
                   <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8 bg-white">
                     <div className="space-y-6">
@@ -658,6 +1307,135 @@ export default function Home() {
                           {selectedEscrow.escrow.description}
                         </p>
                       </div>
+                      {(selectedEscrow.escrow.fundingDeadline ||
+                        selectedEscrow.escrow.inspectionDeadline) && (
+                        <div className="pt-6 border-t border-gray-100 space-y-2">
+                          <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                            Deadlines
+                          </div>
+                          {selectedEscrow.escrow.fundingDeadline && (
+                            <div className="flex justify-between text-sm">
+                              <span className="text-gray-500">Fund by</span>
+                              <span className="font-semibold text-gray-900">
+                                {new Date(selectedEscrow.escrow.fundingDeadline).toLocaleString()}
+                              </span>
+                            </div>
+                          )}
+                          {selectedEscrow.escrow.inspectionDeadline && (
+                            <div className="flex justify-between text-sm">
+                              <span className="text-gray-500">Auto-release at</span>
+                              <span className="font-semibold text-gray-900">
+                                {new Date(selectedEscrow.escrow.inspectionDeadline).toLocaleString()}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {selectedEscrow.escrow.dispute && (
+                        <div className="pt-6 border-t border-gray-100 space-y-2">
+                          <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                            Dispute
+                          </div>
+                          {[
+                            ["Status", selectedEscrow.escrow.dispute.status.replace(/_/g, " ").toLowerCase()],
+                            ["Category", selectedEscrow.escrow.dispute.category?.replace(/_/g, " ").toLowerCase()],
+                            [
+                              "Seller to respond by",
+                              selectedEscrow.escrow.dispute.sellerResponseDeadline &&
+                                new Date(selectedEscrow.escrow.dispute.sellerResponseDeadline).toLocaleString(),
+                            ],
+                            ["Assigned to", selectedEscrow.escrow.dispute.assignedTo ?? "Nobody yet"],
+                          ]
+                            .filter(([, value]) => value)
+                            .map(([label, value]) => (
+                              <div key={label} className="flex justify-between text-sm">
+                                <span className="text-gray-500">{label}</span>
+                                <span className="font-semibold text-gray-900">{value}</span>
+                              </div>
+                            ))}
+                          {selectedEscrow.escrow.dispute.reason && (
+                            <p className="text-xs text-gray-600 italic">
+                              &ldquo;{selectedEscrow.escrow.dispute.reason}&rdquo;
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {selectedEscrow.escrow.payout && (
+                        <div className="pt-6 border-t border-gray-100 space-y-2">
+                          <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                            Payout
+                          </div>
+                          {(
+                            [
+                              ["Seller receives", selectedEscrow.escrow.payout.sellerNet],
+                              ["Buyer refund", selectedEscrow.escrow.payout.buyerRefund],
+                              ["Platform fee", selectedEscrow.escrow.payout.platformFee],
+                              ["Arbitration fee", selectedEscrow.escrow.payout.arbitrationFee],
+                            ] as const
+                          ).map(([label, amount]) => (
+                            <div key={label} className="flex justify-between text-sm">
+                              <span className="text-gray-500">{label}</span>
+                              <span className="font-semibold text-gray-900">
+                                {formatMoney(amount, selectedEscrow.escrow.currency)}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {selectedEscrow.escrow.milestones && (
+                        <div className="pt-6 border-t border-gray-100">
+                          <div className="flex items-center justify-between mb-3">
+                            <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                              Milestones
+                            </div>
+                            <div className="text-xs font-semibold text-gray-500">
+                              {formatMoney(selectedEscrow.escrow.releasedAmount, selectedEscrow.escrow.currency)}{" "}
+                              released ·{" "}
+                              {formatMoney(selectedEscrow.escrow.remainingAmount, selectedEscrow.escrow.currency)}{" "}
+                              remaining
+                            </div>
+                          </div>
+                          <div className="space-y-2">
+                            {selectedEscrow.escrow.milestones.map((milestone) => (
+                              <div
+                                key={milestone.id}
+                                className="flex items-center justify-between gap-3 p-3 rounded-xl bg-gray-50 border border-gray-100"
+                              >
+                                <div>
+                                  <div className="text-sm font-bold text-gray-900">
+                                    {milestone.name}
+                                  </div>
+                                  <div className="text-xs text-gray-500">
+                                    {formatMoney(milestone.amount, selectedEscrow.escrow.currency)}
+                                  </div>
+                                </div>
+                                {milestone.releasedAt ? (
+                                  <span className="px-3 py-1 rounded-lg text-xs font-bold border bg-emerald-50 text-emerald-700 border-emerald-200">
+                                    Released
+                                  </span>
+                                ) : selectedEscrow.escrow.currentState === EscrowState.FUNDED &&
+                                  isActionAllowed(EscrowAction.RELEASE_MILESTONE) ? (
+                                  <button
+                                    onClick={() =>
+                                      handleAction(EscrowAction.RELEASE_MILESTONE, {
+                                        milestoneId: milestone.id,
+                                      })
+                                    }
+                                    disabled={loading}
+                                    className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                                  >
+                                    Release
+                                  </button>
+                                ) : (
+                                  <span className="px-3 py-1 rounded-lg text-xs font-bold border bg-slate-50 text-slate-600 border-slate-200">
+                                    Pending
+                                  </span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                       <div className="pt-6 border-t border-gray-100">
                         <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">
                           Parties Involved
@@ -708,7 +1486,14 @@ export default function Home() {
                         </p>
                       </div>
 
-                      {getAvailableActions().length > 0 ? (
+                      {timeTravel ? (
+                        <div className="text-center py-8 px-4">
+                          <div className="text-4xl mb-3">🕰️</div>
+                          <p className="text-sm text-gray-500">
+                            Viewing a past state. Return to live to take actions.
+                          </p>
+                        </div>
+                      ) : getAvailableActions().length > 0 ? (
                         <div className="space-y-3">
                           {getAvailableActions().map((action) => (
                             <button
@@ -718,22 +1503,40 @@ export default function Home() {
                               className={`w-full py-4 px-6 rounded-xl font-bold text-lg shadow-lg hover:shadow-xl hover:-translate-y-0.5 active:translate-y-0 active:shadow-md transition-all duration-200 flex items-center justify-center gap-3
                                 ${
                                   action.includes("REFUND") ||
-                                  action === EscrowAction.DISPUTE
+                                  action === EscrowAction.DISPUTE ||
+                                  action === EscrowAction.CANCEL ||
+                                  action === EscrowAction.REJECT
                                     ? "bg-rose-600 text-white hover:bg-rose-700 shadow-rose-600/20"
                                     : "bg-blue-600 text-white hover:bg-blue-700 shadow-blue-600/20"
                                 }
                               `}
                             >
                               <span>
-                                {action === EscrowAction.FUND
+                                {action === EscrowAction.ACCEPT
+                                  ? "🤝 Accept Terms"
+                                  : action === EscrowAction.COUNTER_PROPOSE
+                                  ? "✏️ Counter-Propose"
+                                  : action === EscrowAction.REJECT
+                                  ? "👎 Reject Terms"
+                                  : action === EscrowAction.FUND
                                   ? "💸 Pay Now"
                                   : action === EscrowAction.RELEASE
                                   ? "✅ Release Funds"
                                   : action === EscrowAction.DISPUTE
                                   ? "🚨 Raise Dispute"
+                                  : action === EscrowAction.CANCEL
+                                  ? "✖️ Cancel Escrow"
+                                  : action === EscrowAction.ASSIGN_DISPUTE
+                                  ? "🙋 Take Dispute"
+                                  : action === EscrowAction.RETRY_PAYOUT
+                                  ? "🔁 Retry Payout"
                                   : action ===
-                                    EscrowAction.RESOLVE_DISPUTE_REFUND
+                                      EscrowAction.RESOLVE_DISPUTE_REFUND ||
+                                    action === EscrowAction.REFUND
                                   ? "↩️ Refund Buyer"
+                                  : action ===
+                                    EscrowAction.RESOLVE_DISPUTE_SPLIT
+                                  ? "⚖️ Split Funds"
                                   : "📢 Release to Seller"}
                               </span>
                             </button>
@@ -748,6 +1551,18 @@ export default function Home() {
                               : selectedEscrow.escrow.currentState ===
                                 EscrowState.REFUNDED
                               ? "↩️"
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.SETTLED
+                              ? "⚖️"
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.EXPIRED
+                              ? "⌛"
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.CANCELLED
+                              ? "✖️"
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.REJECTED
+                              ? "👎"
                               : "✋"}
                           </div>
                           <p className="text-gray-600 font-medium">
@@ -757,12 +1572,72 @@ export default function Home() {
                             {selectedEscrow.escrow.currentState ===
                               EscrowState.RELEASED ||
                             selectedEscrow.escrow.currentState ===
-                              EscrowState.REFUNDED
+                              EscrowState.REFUNDED ||
+                            selectedEscrow.escrow.currentState ===
+                              EscrowState.SETTLED
                               ? "This transaction is complete."
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.EXPIRED
+                              ? "This escrow expired before it was funded."
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.CANCELLED
+                              ? "This escrow was cancelled before it was funded."
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.REJECTED
+                              ? "The proposed terms were rejected."
+                              : selectedEscrow.escrow.pendingPayment?.declined
+                              ? "The payout was declined; an admin can retry it."
+                              : selectedEscrow.escrow.currentState ===
+                                  EscrowState.FUNDING_PENDING ||
+                                selectedEscrow.escrow.currentState ===
+                                  EscrowState.PAYOUT_PENDING
+                              ? "Waiting for the payment provider to confirm."
+                              : selectedEscrow.escrow.pendingApprovalFrom
+                              ? `Waiting for the ${selectedEscrow.escrow.pendingApprovalFrom.toLowerCase()} to respond to the terms.`
+                              : selectedEscrow.escrow.currentState ===
+                                  EscrowState.DISPUTED &&
+                                currentUser !== UserRole.ADMIN
+                              ? "Waiting for an admin to resolve the dispute."
+                              : selectedEscrow.escrow.currentState ===
+                                EscrowState.DISPUTED
+                              ? `The dispute is assigned to ${selectedEscrow.escrow.dispute?.assignedTo}.`
                               : "Switch user role to perform authorized actions for this state."}
                           </p>
                         </div>
                       )}
+
+                      {!timeTravel &&
+                        selectedEscrow.escrow.currentState === EscrowState.DISPUTED &&
+                        currentUser !== UserRole.ADMIN && (
+                          <form
+                            onSubmit={handleSubmitEvidence}
+                            className="mt-6 pt-6 border-t border-gray-200 space-y-3"
+                          >
+                            <h4 className="font-bold text-gray-900 text-sm">
+                              📎 Submit Evidence
+                            </h4>
+                            <textarea
+                              name="message"
+                              rows={3}
+                              maxLength={5000}
+                              placeholder="Describe what happened"
+                              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                            <input
+                              type="file"
+                              name="file"
+                              accept={EVIDENCE_CONTENT_TYPES.join(",")}
+                              className="w-full text-xs text-gray-600"
+                            />
+                            <button
+                              type="submit"
+                              disabled={loading}
+                              className="w-full py-3 px-6 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 shadow-lg shadow-blue-600/20 transition-all duration-200"
+                            >
+                              Submit Evidence
+                            </button>
+                          </form>
+                        )}
                     </div>
                   </div>
                 </div>
@@ -827,15 +1702,31 @@ export default function Home() {
                             <span className="text-2xl">
                               {event.type === EventType.ESCROW_CREATED
                                 ? "✨"
+                                : event.type === EventType.MILESTONE_RELEASED
+                                ? "🎯"
+                                : event.type === EventType.TERMS_REVISED
+                                ? "✏️"
+                                : event.type === EventType.EVIDENCE_SUBMITTED
+                                ? "📎"
+                                : event.type === EventType.DISPUTE_ASSIGNED
+                                ? "🙋"
                                 : "🔄"}
                             </span>
                             <span className="font-bold text-gray-900 text-lg">
                               {event.type === EventType.ESCROW_CREATED
                                 ? "Escrow Created"
+                                : event.type === EventType.MILESTONE_RELEASED
+                                ? "Milestone Released"
+                                : event.type === EventType.TERMS_REVISED
+                                ? "Terms Revised"
+                                : event.type === EventType.EVIDENCE_SUBMITTED
+                                ? "Evidence Submitted"
+                                : event.type === EventType.DISPUTE_ASSIGNED
+                                ? `Dispute Assigned to ${event.assignedTo}`
                                 : "State Changed"}
                             </span>
                           </div>
-                          {event.type === EventType.STATE_CHANGED && (
+                          {event.type !== EventType.ESCROW_CREATED && (
                             <div className="mb-3 flex items-center gap-3">
                               <span
                                 className={`px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${getStateColor(
@@ -854,18 +1745,65 @@ export default function Home() {
                               </span>
                             </div>
                           )}
+                          {event.type !== EventType.ESCROW_CREATED &&
+                            event.type !== EventType.EVIDENCE_SUBMITTED &&
+                            event.type !== EventType.DISPUTE_ASSIGNED &&
+                            event.reason && (
+                            <div className="mb-3 text-xs text-gray-600 italic">
+                              &ldquo;{event.reason}&rdquo;
+                            </div>
+                          )}
+                          {event.type === EventType.TERMS_REVISED && (
+                            <div className="mb-3 text-xs font-semibold text-gray-600">
+                              {formatMoney(event.amount, selectedEscrow.escrow.currency)} ·{" "}
+                              {event.description}
+                            </div>
+                          )}
+                          {event.type === EventType.EVIDENCE_SUBMITTED && event.message && (
+                            <div className="mb-3 text-xs text-gray-600 italic whitespace-pre-wrap">
+                              &ldquo;{event.message}&rdquo;
+                            </div>
+                          )}
+                          {event.type === EventType.EVIDENCE_SUBMITTED && event.attachment && (
+                            <button
+                              onClick={() => handleDownloadEvidence(event.attachment!)}
+                              className="mb-3 text-xs font-semibold text-blue-600 hover:underline"
+                            >
+                              ⬇️ {event.attachment.fileName} ({Math.ceil(event.attachment.size / 1024)} KB)
+                            </button>
+                          )}
+                          {event.type === EventType.STATE_CHANGED && event.dispute?.category && (
+                            <div className="mb-3 text-xs font-semibold text-gray-600">
+                              Reported as {event.dispute.category.replace(/_/g, " ").toLowerCase()} · seller
+                              to respond by {new Date(event.dispute.sellerResponseDeadline).toLocaleString()}
+                            </div>
+                          )}
+                          {event.type === EventType.STATE_CHANGED && event.split && (
+                            <div className="mb-3 text-xs font-semibold text-gray-600">
+                              Buyer {formatMoney(event.split.buyerAmount, selectedEscrow.escrow.currency)} ·
+                              Seller {formatMoney(event.split.sellerAmount, selectedEscrow.escrow.currency)}
+                            </div>
+                          )}
                           <div className="text-xs text-gray-500 mt-3 inline-flex items-center gap-2 bg-white/50 px-3 py-1.5 rounded-lg">
                             <span>🕐</span>
                             {new Date(event.timestamp).toLocaleString()}
                           </div>
                         </div>
-                        {event.type === EventType.STATE_CHANGED && (
+                        {event.type !== EventType.ESCROW_CREATED && (
                           <div className="text-right bg-white/60 p-3 rounded-lg">
                             <div className="text-xs font-bold text-gray-500 uppercase mb-2 tracking-wider">
                               Action
                             </div>
                             <div className="text-sm font-bold text-gray-900 mb-3">
-                              {formatActionName(event.action)}
+                              {event.type === EventType.MILESTONE_RELEASED
+                                ? `${formatActionName(EscrowAction.RELEASE_MILESTONE)} (${event.milestoneId})`
+                                : event.type === EventType.TERMS_REVISED
+                                ? formatActionName(EscrowAction.COUNTER_PROPOSE)
+                                : event.type === EventType.EVIDENCE_SUBMITTED
+                                ? formatActionName(EscrowAction.SUBMIT_EVIDENCE)
+                                : event.type === EventType.DISPUTE_ASSIGNED
+                                ? formatActionName(EscrowAction.ASSIGN_DISPUTE)
+                                : formatActionName(event.action)}
                             </div>
                             <div className="text-xs text-gray-600 space-y-1">
                               <div className="font-semibold">
@@ -6,16 +6,50 @@ import { describe, it, expect } from "vitest";
 import { EscrowState, EscrowAction, UserRole, transitionState, isTerminalState } from "../escrow-state";
 
 describe("Escrow State Machine", () => {
-  it("should allow PROPOSED -> FUNDED by BUYER via FUND", () => {
-    const result = transitionState(EscrowState.PROPOSED, EscrowAction.FUND, UserRole.BUYER);
+  it("should allow ACCEPTED -> FUNDING_PENDING by BUYER via FUND", () => {
+    const result = transitionState(EscrowState.ACCEPTED, EscrowAction.FUND, UserRole.BUYER);
     expect(result.success).toBe(true);
-    expect(result.newState).toBe(EscrowState.FUNDED);
+    expect(result.newState).toBe(EscrowState.FUNDING_PENDING);
+  });
+
+  it("should let only SYSTEM confirm or fail a pending charge", () => {
+    expect(transitionState(EscrowState.FUNDING_PENDING, EscrowAction.CONFIRM_FUNDING, UserRole.SYSTEM).newState).toBe(
+      EscrowState.FUNDED
+    );
+    expect(transitionState(EscrowState.FUNDING_PENDING, EscrowAction.FAIL_FUNDING, UserRole.SYSTEM).newState).toBe(
+      EscrowState.ACCEPTED
+    );
+    for (const role of [UserRole.BUYER, UserRole.SELLER, UserRole.ADMIN]) {
+      expect(transitionState(EscrowState.FUNDING_PENDING, EscrowAction.CONFIRM_FUNDING, role).success).toBe(false);
+    }
+    expect(transitionState(EscrowState.FUNDING_PENDING, EscrowAction.CANCEL, UserRole.BUYER).success).toBe(false);
+    expect(transitionState(EscrowState.PAYOUT_PENDING, EscrowAction.DISPUTE, UserRole.BUYER).success).toBe(false);
+    expect(isTerminalState(EscrowState.PAYOUT_PENDING)).toBe(false);
+  });
+
+  it("should not allow funding a PROPOSED escrow before its terms are accepted", () => {
+    const result = transitionState(EscrowState.PROPOSED, EscrowAction.FUND, UserRole.BUYER);
+    expect(result.success).toBe(false);
   });
 
-  it("should allow FUNDED -> RELEASED by SELLER via RELEASE", () => {
+  it("should let either party ACCEPT, REJECT or COUNTER_PROPOSE a PROPOSED escrow", () => {
+    for (const role of [UserRole.BUYER, UserRole.SELLER]) {
+      expect(transitionState(EscrowState.PROPOSED, EscrowAction.ACCEPT, role).newState).toBe(EscrowState.ACCEPTED);
+      expect(transitionState(EscrowState.PROPOSED, EscrowAction.REJECT, role).newState).toBe(EscrowState.REJECTED);
+      expect(transitionState(EscrowState.PROPOSED, EscrowAction.COUNTER_PROPOSE, role).newState).toBe(
+        EscrowState.PROPOSED
+      );
+    }
+    expect(transitionState(EscrowState.PROPOSED, EscrowAction.ACCEPT, UserRole.ADMIN).success).toBe(false);
+    expect(transitionState(EscrowState.ACCEPTED, EscrowAction.COUNTER_PROPOSE, UserRole.SELLER).success).toBe(false);
+    expect(isTerminalState(EscrowState.REJECTED)).toBe(true);
+  });
+
+  it("should allow FUNDED -> RELEASED by SELLER via RELEASE, once the payout is confirmed", () => {
     const result = transitionState(EscrowState.FUNDED, EscrowAction.RELEASE, UserRole.SELLER);
     expect(result.success).toBe(true);
-    expect(result.newState).toBe(EscrowState.RELEASED);
+    expect(result.newState).toBe(EscrowState.PAYOUT_PENDING);
+    expect(result.outcome).toBe(EscrowState.RELEASED);
   });
 
   it("should allow FUNDED -> DISPUTED by BUYER via DISPUTE", () => {
@@ -31,7 +65,8 @@ describe("Escrow State Machine", () => {
       UserRole.ADMIN
     );
     expect(result.success).toBe(true);
-    expect(result.newState).toBe(EscrowState.RELEASED);
+    expect(result.newState).toBe(EscrowState.PAYOUT_PENDING);
+    expect(result.outcome).toBe(EscrowState.RELEASED);
   });
 
   it("should allow DISPUTED -> REFUNDED by ADMIN via RESOLVE_DISPUTE_REFUND", () => {
@@ -41,7 +76,56 @@ describe("Escrow State Machine", () => {
       UserRole.ADMIN
     );
     expect(result.success).toBe(true);
-    expect(result.newState).toBe(EscrowState.REFUNDED);
+    expect(result.newState).toBe(EscrowState.PAYOUT_PENDING);
+    expect(result.outcome).toBe(EscrowState.REFUNDED);
+  });
+
+  it("should allow DISPUTED -> SETTLED by ADMIN via RESOLVE_DISPUTE_SPLIT", () => {
+    const result = transitionState(
+      EscrowState.DISPUTED,
+      EscrowAction.RESOLVE_DISPUTE_SPLIT,
+      UserRole.ADMIN
+    );
+    expect(result.success).toBe(true);
+    expect(result.newState).toBe(EscrowState.PAYOUT_PENDING);
+    expect(result.outcome).toBe(EscrowState.SETTLED);
+    expect(isTerminalState(EscrowState.SETTLED)).toBe(true);
+  });
+
+  it("should reject RESOLVE_DISPUTE_SPLIT by non-admin roles", () => {
+    for (const role of [UserRole.BUYER, UserRole.SELLER]) {
+      const result = transitionState(EscrowState.DISPUTED, EscrowAction.RESOLVE_DISPUTE_SPLIT, role);
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it("should let only SYSTEM expire a PROPOSED escrow or auto-release a FUNDED one", () => {
+    expect(transitionState(EscrowState.PROPOSED, EscrowAction.EXPIRE, UserRole.SYSTEM)).toEqual({
+      success: true,
+      newState: EscrowState.EXPIRED,
+    });
+    expect(transitionState(EscrowState.FUNDED, EscrowAction.AUTO_RELEASE, UserRole.SYSTEM)).toEqual({
+      success: true,
+      newState: EscrowState.PAYOUT_PENDING,
+      outcome: EscrowState.RELEASED,
+    });
+    expect(transitionState(EscrowState.DISPUTED, EscrowAction.AUTO_RELEASE, UserRole.SYSTEM).success).toBe(false);
+    for (const role of [UserRole.BUYER, UserRole.SELLER, UserRole.ADMIN]) {
+      expect(transitionState(EscrowState.PROPOSED, EscrowAction.EXPIRE, role).success).toBe(false);
+    }
+    expect(isTerminalState(EscrowState.EXPIRED)).toBe(true);
+  });
+
+  it("should allow BUYER or SELLER to CANCEL a PROPOSED escrow", () => {
+    for (const role of [UserRole.BUYER, UserRole.SELLER]) {
+      expect(transitionState(EscrowState.PROPOSED, EscrowAction.CANCEL, role)).toEqual({
+        success: true,
+        newState: EscrowState.CANCELLED,
+      });
+    }
+    expect(transitionState(EscrowState.PROPOSED, EscrowAction.CANCEL, UserRole.ADMIN).success).toBe(false);
+    expect(transitionState(EscrowState.FUNDED, EscrowAction.CANCEL, UserRole.BUYER).success).toBe(false);
+    expect(isTerminalState(EscrowState.CANCELLED)).toBe(true);
   });
 
   it("should reject invalid transition: SELLER cannot FUND", () => {
@@ -59,11 +143,22 @@ describe("Escrow State Machine", () => {
     expect(isTerminalState(EscrowState.REFUNDED)).toBe(true);
   });
 
-  it("should reject direct REFUND action by any role", () => {
-    const roles = [UserRole.BUYER, UserRole.SELLER, UserRole.ADMIN] as const;
-    for (const role of roles) {
-      const result = transitionState(EscrowState.FUNDED, EscrowAction.REFUND, role);
-      expect(result.success).toBe(false);
+  it("should allow FUNDED -> REFUNDED and DISPUTED -> REFUNDED by SELLER via REFUND", () => {
+    for (const state of [EscrowState.FUNDED, EscrowState.DISPUTED]) {
+      const result = transitionState(state, EscrowAction.REFUND, UserRole.SELLER);
+      expect(result.success).toBe(true);
+      expect(result.newState).toBe(EscrowState.PAYOUT_PENDING);
+      expect(result.outcome).toBe(EscrowState.REFUNDED);
+    }
+  });
+
+  it("should reject REFUND by anyone but the SELLER, or before funding", () => {
+    for (const role of [UserRole.BUYER, UserRole.ADMIN, UserRole.SYSTEM]) {
+      expect(transitionState(EscrowState.FUNDED, EscrowAction.REFUND, role).success).toBe(false);
+      expect(transitionState(EscrowState.DISPUTED, EscrowAction.REFUND, role).success).toBe(false);
+    }
+    for (const state of [EscrowState.PROPOSED, EscrowState.ACCEPTED, EscrowState.PAYOUT_PENDING]) {
+      expect(transitionState(state, EscrowAction.REFUND, UserRole.SELLER).success).toBe(false);
     }
   });
 
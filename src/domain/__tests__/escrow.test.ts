@@ -2,9 +2,34 @@
  * Unit tests for escrow domain logic
  */
 
-import { describe, it, expect } from "vitest";
-import { createEscrow, applyAction } from "../escrow";
+import { describe, it, expect, vi } from "vitest";
+import {
+  Escrow,
+  createEscrow,
+  applyAction,
+  reconstructEscrow,
+  getRemainingAmount,
+  SYSTEM_ACTOR,
+} from "../escrow";
 import { EscrowState, EscrowAction, UserRole } from "../escrow-state";
+import { DisputeCategory, DisputeStatus, getDisputeStatus } from "../disputes";
+import { validateEventLog } from "../integrity";
+
+// The seller agrees to the buyer's proposal so it can be funded
+const accept = (escrow: Escrow) =>
+  applyAction(escrow, EscrowAction.ACCEPT, { userId: "seller-1", isAdmin: false });
+
+// With no response window for the seller, an admin can take the dispute at once
+const raiseDispute = { dispute: { category: DisputeCategory.NOT_AS_DESCRIBED, sellerResponseWindowMs: 0 } };
+
+// Stands in for the payment provider confirming whatever the escrow waits on
+const confirmPayment = (escrow: Escrow) =>
+  applyAction(
+    escrow,
+    escrow.pendingPayment?.kind === "charge" ? EscrowAction.CONFIRM_FUNDING : EscrowAction.CONFIRM_PAYOUT,
+    SYSTEM_ACTOR,
+    { paymentReference: `ref_${escrow.pendingPayment?.id}` }
+  );
 
 describe("Escrow Domain", () => {
   describe("createEscrow", () => {
@@ -14,6 +39,7 @@ describe("Escrow Domain", () => {
         "buyer-1",
         "seller-1",
         1000,
+        "USD",
         "Test escrow"
       );
 
@@ -23,6 +49,7 @@ describe("Escrow Domain", () => {
       expect(escrow.amount).toBe(1000);
       expect(escrow.description).toBe("Test escrow");
       expect(escrow.currentState).toBe(EscrowState.PROPOSED);
+      expect(escrow.pendingApprovalFrom).toBe(UserRole.SELLER);
       expect(event.type).toBe("ESCROW_CREATED");
     });
   });
@@ -34,18 +61,24 @@ describe("Escrow Domain", () => {
         "buyer-1",
         "seller-1",
         1000,
+        "USD",
         "Test escrow"
       );
 
       const result = applyAction(
-        escrow,
+        accept(escrow).newEscrow!,
         EscrowAction.FUND,
-        "buyer-1",
-        UserRole.BUYER
+        { userId: "buyer-1", isAdmin: false }
       );
 
       expect(result.success).toBe(true);
-      expect(result.newEscrow?.currentState).toBe(EscrowState.FUNDED);
+      expect(result.newEscrow?.currentState).toBe(EscrowState.FUNDING_PENDING);
+      expect(result.newEscrow?.pendingPayment).toEqual({
+        id: result.event?.id,
+        kind: "charge",
+        transfers: [{ party: UserRole.BUYER, amount: 1000 }],
+        outcome: EscrowState.FUNDED,
+      });
       expect(result.event?.type).toBe("STATE_CHANGED");
     });
 
@@ -55,22 +88,623 @@ describe("Escrow Domain", () => {
         "buyer-1",
         "seller-1",
         1000,
+        "USD",
         "Test escrow"
       );
 
       const result = applyAction(
         escrow,
         EscrowAction.RELEASE,
-        "seller-1",
-        UserRole.SELLER
+        { userId: "seller-1", isAdmin: false }
       );
 
       expect(result.success).toBe(false);
       expect(result.error).toBeDefined();
     });
+
+    it("should produce the same escrow as replaying its events", () => {
+      const { escrow, event } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+      const accepted = accept(escrow);
+      const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, { userId: "buyer-1", isAdmin: false });
+      const funded = confirmPayment(funding.newEscrow!);
+      const releasing = applyAction(funded.newEscrow!, EscrowAction.RELEASE, {
+        userId: "seller-1",
+        isAdmin: false,
+      });
+      const released = confirmPayment(releasing.newEscrow!);
+
+      const events = [event, accepted.event!, funding.event!, funded.event!, releasing.event!];
+      expect(reconstructEscrow(events)).toMatchObject(releasing.newEscrow!);
+      expect(reconstructEscrow([...events, released.event!])).toMatchObject(released.newEscrow!);
+    });
+  });
+
+  describe("milestones", () => {
+    const fundedMilestoneEscrow = () => {
+      const created = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Website build", [
+        { name: "Design", amount: 300 },
+        { name: "Build", amount: 700 },
+      ]);
+      const accepted = accept(created.escrow);
+      const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, { userId: "buyer-1", isAdmin: false });
+      const funded = confirmPayment(funding.newEscrow!);
+      return {
+        escrow: funded.newEscrow!,
+        events: [created.event, accepted.event!, funding.event!, funded.event!],
+      };
+    };
+
+    it("should track released and remaining balances per milestone", () => {
+      const { escrow } = fundedMilestoneEscrow();
+
+      const result = applyAction(escrow, EscrowAction.RELEASE_MILESTONE, { userId: "seller-1", isAdmin: false }, {
+        milestoneId: "milestone_1",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.event?.type).toBe("MILESTONE_RELEASED");
+      expect(result.newEscrow?.currentState).toBe(EscrowState.PAYOUT_PENDING);
+      expect(result.newEscrow?.pendingPayment?.transfers).toEqual([{ party: UserRole.SELLER, amount: 300 }]);
+      expect(result.newEscrow?.releasedAmount).toBe(300);
+      expect(getRemainingAmount(result.newEscrow!)).toBe(700);
+      expect(confirmPayment(result.newEscrow!).newEscrow?.currentState).toBe(EscrowState.FUNDED);
+    });
+
+    it("should move to RELEASED only when every milestone is paid out", () => {
+      const { escrow, events } = fundedMilestoneEscrow();
+
+      const first = applyAction(escrow, EscrowAction.RELEASE_MILESTONE, { userId: "seller-1", isAdmin: false }, {
+        milestoneId: "milestone_1",
+      });
+      const firstPaid = confirmPayment(first.newEscrow!);
+      const second = applyAction(firstPaid.newEscrow!, EscrowAction.RELEASE_MILESTONE, { userId: "seller-1", isAdmin: false }, {
+        milestoneId: "milestone_2",
+      });
+      const secondPaid = confirmPayment(second.newEscrow!);
+
+      expect(secondPaid.newEscrow?.currentState).toBe(EscrowState.RELEASED);
+      expect(getRemainingAmount(secondPaid.newEscrow!)).toBe(0);
+
+      const rebuilt = reconstructEscrow([
+        ...events,
+        first.event!,
+        firstPaid.event!,
+        second.event!,
+        secondPaid.event!,
+      ]);
+      expect(rebuilt?.currentState).toBe(EscrowState.RELEASED);
+      expect(rebuilt?.releasedAmount).toBe(1000);
+      expect(rebuilt?.milestones?.every((m) => m.releasedAt)).toBe(true);
+    });
+
+    it("should reject releasing the same milestone twice", () => {
+      const { escrow } = fundedMilestoneEscrow();
+
+      const first = applyAction(escrow, EscrowAction.RELEASE_MILESTONE, { userId: "seller-1", isAdmin: false }, {
+        milestoneId: "milestone_1",
+      });
+      const again = applyAction(confirmPayment(first.newEscrow!).newEscrow!, EscrowAction.RELEASE_MILESTONE, { userId: "seller-1", isAdmin: false }, {
+        milestoneId: "milestone_1",
+      });
+
+      expect(again.success).toBe(false);
+      expect(again.error).toMatch(/already been released/);
+    });
+  });
+
+  describe("split dispute resolution", () => {
+    const disputedEscrow = () => {
+      const created = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+      const accepted = accept(created.escrow);
+      const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, { userId: "buyer-1", isAdmin: false });
+      const funded = confirmPayment(funding.newEscrow!);
+      const disputed = applyAction(funded.newEscrow!, EscrowAction.DISPUTE, { userId: "buyer-1", isAdmin: false }, raiseDispute);
+      const assigned = applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, { userId: "admin-1", isAdmin: true });
+      return {
+        escrow: assigned.newEscrow!,
+        events: [created.event, accepted.event!, funding.event!, funded.event!, disputed.event!, assigned.event!],
+      };
+    };
+
+    it("should split by percentage and record the split in the event", () => {
+      const { escrow, events } = disputedEscrow();
+
+      const result = applyAction(escrow, EscrowAction.RESOLVE_DISPUTE_SPLIT, { userId: "admin-1", isAdmin: true }, {
+        split: { buyerPercentage: 30 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.newEscrow?.currentState).toBe(EscrowState.PAYOUT_PENDING);
+      expect(result.newEscrow?.settlement).toEqual({ buyerAmount: 300, sellerAmount: 700 });
+      expect(result.event?.type === "STATE_CHANGED" && result.event.split).toEqual({
+        buyerAmount: 300,
+        sellerAmount: 700,
+      });
+      expect(result.newEscrow?.pendingPayment?.transfers).toEqual([
+        { party: UserRole.SELLER, amount: 700 },
+        { party: UserRole.BUYER, amount: 300 },
+      ]);
+
+      const settled = confirmPayment(result.newEscrow!);
+      const rebuilt = reconstructEscrow([...events, result.event!, settled.event!]);
+      expect(rebuilt?.currentState).toBe(EscrowState.SETTLED);
+      expect(rebuilt?.settlement).toEqual({ buyerAmount: 300, sellerAmount: 700 });
+      expect(rebuilt?.releasedAmount).toBe(700);
+    });
+
+    it("should reject amounts that do not add up to the escrowed amount", () => {
+      const { escrow } = disputedEscrow();
+
+      const result = applyAction(escrow, EscrowAction.RESOLVE_DISPUTE_SPLIT, { userId: "admin-1", isAdmin: true }, {
+        split: { buyerAmount: 400, sellerAmount: 500 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/add up/);
+    });
+  });
+
+  describe("role resolution", () => {
+    it("should derive the role from the escrow and record it on the event", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+
+      const result = applyAction(accept(escrow).newEscrow!, EscrowAction.FUND, { userId: "buyer-1", isAdmin: false });
+
+      expect(result.success).toBe(true);
+      expect(result.event?.type === "STATE_CHANGED" && result.event.userRole).toBe(UserRole.BUYER);
+      expect(result.event?.type === "STATE_CHANGED" && result.event.performedBy).toBe("buyer-1");
+    });
+
+    it("should reject callers who are not participants or admins", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+
+      const result = applyAction(escrow, EscrowAction.FUND, { userId: "mallory", isAdmin: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not a participant/);
+    });
+
+    it("should not let a buyer resolve a dispute without admin rights", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+      const buyer = { userId: "buyer-1", isAdmin: false };
+      const funding = applyAction(accept(escrow).newEscrow!, EscrowAction.FUND, buyer);
+      const disputed = applyAction(confirmPayment(funding.newEscrow!).newEscrow!, EscrowAction.DISPUTE, buyer, raiseDispute);
+
+      const result = applyAction(disputed.newEscrow!, EscrowAction.RESOLVE_DISPUTE_REFUND, buyer);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not allowed/);
+    });
+  });
+
+  describe("deadlines", () => {
+    const past = new Date(Date.now() - 60_000);
+    const future = new Date(Date.now() + 60 * 60_000);
+
+    it("should expire a PROPOSED escrow once its funding deadline has passed", () => {
+      const { escrow, event } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow", undefined, {
+        fundingDeadline: past,
+      });
+
+      const result = applyAction(escrow, EscrowAction.EXPIRE, SYSTEM_ACTOR);
+
+      expect(result.success).toBe(true);
+      expect(result.newEscrow?.currentState).toBe(EscrowState.EXPIRED);
+      expect(result.event?.type === "STATE_CHANGED" && result.event.userRole).toBe(UserRole.SYSTEM);
+      expect(reconstructEscrow([event, result.event!])).toMatchObject(result.newEscrow!);
+    });
+
+    it("should not apply system actions before the deadline", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow", undefined, {
+        fundingDeadline: future,
+      });
+
+      const result = applyAction(escrow, EscrowAction.EXPIRE, SYSTEM_ACTOR);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not due/);
+    });
+
+    it("should not let participants perform system actions", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow", undefined, {
+        fundingDeadline: past,
+      });
+
+      const result = applyAction(escrow, EscrowAction.EXPIRE, { userId: "admin-1", isAdmin: true });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not allowed/);
+    });
+  });
+
+  describe("payments", () => {
+    const buyer = { userId: "buyer-1", isAdmin: false };
+
+    const fundingEscrow = () => {
+      const { escrow, event } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+      const accepted = accept(escrow);
+      const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, buyer);
+      return { escrow: funding.newEscrow!, events: [event, accepted.event!, funding.event!] };
+    };
+
+    it("should record the provider reference when a charge is confirmed", () => {
+      const { escrow } = fundingEscrow();
+
+      const result = confirmPayment(escrow);
+
+      expect(result.newEscrow?.currentState).toBe(EscrowState.FUNDED);
+      expect(result.newEscrow?.pendingPayment).toBeUndefined();
+      expect(result.event?.type === "STATE_CHANGED" && result.event.paymentReference).toBe(
+        `ref_${escrow.pendingPayment?.id}`
+      );
+    });
+
+    it("should hand a declined charge back to the buyer to try again", () => {
+      const { escrow, events } = fundingEscrow();
+
+      const declined = applyAction(escrow, EscrowAction.FAIL_FUNDING, SYSTEM_ACTOR, { reason: "Card declined" });
+
+      expect(declined.newEscrow?.currentState).toBe(EscrowState.ACCEPTED);
+      expect(declined.newEscrow?.pendingPayment).toBeUndefined();
+      expect(reconstructEscrow([...events, declined.event!])).toMatchObject(declined.newEscrow!);
+      expect(applyAction(declined.newEscrow!, EscrowAction.FUND, buyer).success).toBe(true);
+    });
+
+    it("should only let the payment provider's confirmation move a pending escrow on", () => {
+      const { escrow } = fundingEscrow();
+
+      expect(applyAction(escrow, EscrowAction.CONFIRM_FUNDING, buyer).error).toMatch(/not allowed/);
+      expect(applyAction(escrow, EscrowAction.CONFIRM_PAYOUT, SYSTEM_ACTOR).success).toBe(false);
+      expect(applyAction(escrow, EscrowAction.FUND, buyer).success).toBe(false);
+    });
   });
-});
 
+  describe("cancellation", () => {
+    it("should cancel a PROPOSED escrow and record the reason", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
 
+      const result = applyAction(escrow, EscrowAction.CANCEL, { userId: "seller-1", isAdmin: false }, {
+        reason: "Item no longer available",
+      });
 
+      expect(result.success).toBe(true);
+      expect(result.newEscrow?.currentState).toBe(EscrowState.CANCELLED);
+      expect(result.event?.type === "STATE_CHANGED" && result.event.reason).toBe("Item no longer available");
+    });
+
+    it("should require a reason", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+
+      const result = applyAction(escrow, EscrowAction.CANCEL, { userId: "buyer-1", isAdmin: false }, {
+        reason: "  ",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/reason is required/);
+    });
+  });
+
+  describe("acceptance and counter-proposals", () => {
+    const buyer = { userId: "buyer-1", isAdmin: false };
+    const seller = { userId: "seller-1", isAdmin: false };
+
+    it("should not allow funding before the seller accepts", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+
+      const result = applyAction(escrow, EscrowAction.FUND, buyer);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/Invalid transition/);
+    });
+
+    it("should not let the proposer accept their own terms", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow", undefined, {}, UserRole.SELLER);
+
+      expect(applyAction(escrow, EscrowAction.ACCEPT, seller).error).toMatch(/Waiting for the buyer/);
+      expect(applyAction(escrow, EscrowAction.ACCEPT, buyer).newEscrow?.currentState).toBe(EscrowState.ACCEPTED);
+    });
+
+    it("should keep each revision as an event and hand the decision back and forth", () => {
+      const { escrow, event } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Logo design");
+
+      const counter = applyAction(escrow, EscrowAction.COUNTER_PROPOSE, seller, {
+        terms: { amount: 1500, description: "Logo design with two revisions" },
+      });
+      expect(counter.success).toBe(true);
+      expect(counter.event?.type).toBe("TERMS_REVISED");
+      expect(counter.newEscrow).toMatchObject({
+        currentState: EscrowState.PROPOSED,
+        amount: 1500,
+        pendingApprovalFrom: UserRole.BUYER,
+      });
+
+      const recounter = applyAction(counter.newEscrow!, EscrowAction.COUNTER_PROPOSE, buyer, {
+        terms: { amount: 1200 },
+      });
+      const accepted = applyAction(recounter.newEscrow!, EscrowAction.ACCEPT, seller);
+      expect(accepted.newEscrow?.currentState).toBe(EscrowState.ACCEPTED);
+      expect(accepted.newEscrow?.pendingApprovalFrom).toBeUndefined();
+
+      const rebuilt = reconstructEscrow([event, counter.event!, recounter.event!, accepted.event!]);
+      expect(rebuilt).toMatchObject(accepted.newEscrow!);
+      expect(rebuilt?.amount).toBe(1200);
+      expect(rebuilt?.description).toBe("Logo design with two revisions");
+    });
+
+    it("should reject counter-proposals that break milestone totals", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Website", [
+        { name: "Design", amount: 400 },
+        { name: "Build", amount: 600 },
+      ]);
+
+      const result = applyAction(escrow, EscrowAction.COUNTER_PROPOSE, seller, { terms: { amount: 1200 } });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/add up/);
+    });
+
+    it("should end the negotiation when the counterparty rejects", () => {
+      const { escrow } = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+
+      const result = applyAction(escrow, EscrowAction.REJECT, seller, { reason: "Too low" });
+
+      expect(result.newEscrow?.currentState).toBe(EscrowState.REJECTED);
+    });
+  });
+
+  describe("dispute evidence", () => {
+    const buyer = { userId: "buyer-1", isAdmin: false };
+    const seller = { userId: "seller-1", isAdmin: false };
+    const attachment = {
+      id: "att_1_ab",
+      fileName: "photo.jpg",
+      contentType: "image/jpeg",
+      size: 2048,
+      checksum: "a".repeat(64),
+    };
+
+    const disputedEscrow = () => {
+      const created = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+      const accepted = accept(created.escrow);
+      const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, buyer);
+      const funded = confirmPayment(funding.newEscrow!);
+      const disputed = applyAction(funded.newEscrow!, EscrowAction.DISPUTE, buyer, raiseDispute);
+      return {
+        escrow: disputed.newEscrow!,
+        events: [created.event, accepted.event!, funding.event!, funded.event!, disputed.event!],
+      };
+    };
+
+    it("should record evidence from either party without changing the escrow", () => {
+      const { escrow, events } = disputedEscrow();
+
+      const fromBuyer = applyAction(escrow, EscrowAction.SUBMIT_EVIDENCE, buyer, {
+        evidence: { message: "  The item arrived broken  ", attachment },
+      });
+      const fromSeller = applyAction(fromBuyer.newEscrow!, EscrowAction.SUBMIT_EVIDENCE, seller, {
+        evidence: { message: "It left the warehouse intact" },
+      });
+
+      expect(fromBuyer.event).toMatchObject({
+        type: "EVIDENCE_SUBMITTED",
+        fromState: EscrowState.DISPUTED,
+        toState: EscrowState.DISPUTED,
+        userRole: UserRole.BUYER,
+        message: "The item arrived broken",
+        attachment,
+      });
+      expect(fromSeller.newEscrow).toMatchObject({ currentState: EscrowState.DISPUTED, version: escrow.version + 2 });
+
+      const log = [...events, fromBuyer.event!, fromSeller.event!];
+      expect(validateEventLog(log)).toEqual([]);
+      expect(reconstructEscrow(log)).toMatchObject(fromSeller.newEscrow!);
+    });
+
+    it("should only accept evidence with content, from the parties, during a dispute", () => {
+      const { escrow } = disputedEscrow();
+
+      expect(applyAction(escrow, EscrowAction.SUBMIT_EVIDENCE, buyer, { evidence: { message: " " } }).error).toMatch(
+        /message or an attachment/
+      );
+      expect(
+        applyAction(escrow, EscrowAction.SUBMIT_EVIDENCE, { userId: "admin-1", isAdmin: true }, {
+          evidence: { message: "Noted" },
+        }).success
+      ).toBe(false);
+
+      const { escrow: proposed } = createEscrow("other-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+      expect(
+        applyAction(proposed, EscrowAction.SUBMIT_EVIDENCE, buyer, { evidence: { message: "Too early" } }).error
+      ).toMatch(/Invalid transition/);
+    });
+  });
 
+  describe("dispute cases", () => {
+    const buyer = { userId: "buyer-1", isAdmin: false };
+    const seller = { userId: "seller-1", isAdmin: false };
+    const admin = { userId: "admin-1", isAdmin: true };
+    const otherAdmin = { userId: "admin-2", isAdmin: true };
+
+    const fundedEscrow = () => {
+      const created = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow");
+      const accepted = accept(created.escrow);
+      const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, buyer);
+      const funded = confirmPayment(funding.newEscrow!);
+      return { escrow: funded.newEscrow!, events: [created.event, accepted.event!, funding.event!, funded.event!] };
+    };
+
+    it("should open a case with a category and move it through its statuses", () => {
+      const { escrow, events } = fundedEscrow();
+      expect(applyAction(escrow, EscrowAction.DISPUTE, buyer).error).toMatch(/category is required/);
+
+      const disputed = applyAction(escrow, EscrowAction.DISPUTE, buyer, {
+        reason: "Never arrived",
+        dispute: { category: DisputeCategory.NOT_RECEIVED, sellerResponseWindowMs: 60_000 },
+      });
+      const dispute = disputed.newEscrow!.dispute!;
+      expect(dispute).toMatchObject({ category: DisputeCategory.NOT_RECEIVED, reason: "Never arrived", raisedBy: "buyer-1" });
+      expect(dispute.raisedAt).toEqual(disputed.event!.timestamp);
+      expect(dispute.sellerResponseDeadline!.getTime() - dispute.raisedAt.getTime()).toBe(60_000);
+      expect(getDisputeStatus(dispute)).toBe(DisputeStatus.AWAITING_SELLER);
+      expect(getDisputeStatus(dispute, new Date(Date.now() + 120_000))).toBe(DisputeStatus.OPEN);
+
+      const responded = applyAction(disputed.newEscrow!, EscrowAction.SUBMIT_EVIDENCE, seller, {
+        evidence: { message: "Tracking shows it was delivered" },
+      });
+      expect(getDisputeStatus(responded.newEscrow!.dispute!)).toBe(DisputeStatus.OPEN);
+
+      const assigned = applyAction(responded.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin);
+      expect(assigned.newEscrow!.dispute).toMatchObject({ assignedTo: "admin-1" });
+      expect(getDisputeStatus(assigned.newEscrow!.dispute!)).toBe(DisputeStatus.UNDER_REVIEW);
+
+      const refunded = applyAction(assigned.newEscrow!, EscrowAction.RESOLVE_DISPUTE_REFUND, admin);
+      expect(refunded.newEscrow!.dispute).toMatchObject({ decidedBy: "admin-1" });
+      expect(getDisputeStatus(refunded.newEscrow!.dispute!)).toBe(DisputeStatus.DECIDED);
+
+      const log = [...events, disputed.event!, responded.event!, assigned.event!, refunded.event!];
+      expect(validateEventLog(log)).toEqual([]);
+      expect(reconstructEscrow(log)).toMatchObject(refunded.newEscrow!);
+    });
+
+    it("should keep admins out until the seller's response window closes", () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        const { escrow, events } = fundedEscrow();
+        const disputed = applyAction(escrow, EscrowAction.DISPUTE, buyer, {
+          dispute: { category: DisputeCategory.DAMAGED, sellerResponseWindowMs: 60_000 },
+        });
+        const deadline = disputed.newEscrow!.dispute!.sellerResponseDeadline!;
+
+        for (const action of [EscrowAction.ASSIGN_DISPUTE, EscrowAction.RESOLVE_DISPUTE_REFUND]) {
+          expect(applyAction(disputed.newEscrow!, action, admin).error).toBe(
+            `The seller has until ${deadline.toISOString()} to respond to the dispute`
+          );
+        }
+
+        vi.setSystemTime(deadline);
+        const assigned = applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin);
+        expect(assigned.success).toBe(true);
+        expect(validateEventLog([...events, disputed.event!, assigned.event!])).toEqual([]);
+
+        // A log where the dispute was taken up early does not validate
+        const early = { ...assigned.event!, timestamp: new Date(deadline.getTime() - 1) };
+        expect(validateEventLog([...events, disputed.event!, early])).toEqual([
+          expect.objectContaining({ kind: "illegal_transition", sequence: 6 }),
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should only let the assigned admin resolve the dispute", () => {
+      const { escrow, events } = fundedEscrow();
+      const disputed = applyAction(escrow, EscrowAction.DISPUTE, buyer, raiseDispute);
+
+      expect(applyAction(disputed.newEscrow!, EscrowAction.RESOLVE_DISPUTE_RELEASE, admin).error).toMatch(
+        /must be assigned/
+      );
+      expect(
+        applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin, { assignee: "seller-1" }).error
+      ).toMatch(/one of its parties/);
+
+      const assigned = applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin, { assignee: "admin-2" });
+      expect(applyAction(assigned.newEscrow!, EscrowAction.RESOLVE_DISPUTE_RELEASE, admin).error).toMatch(
+        /assigned to admin-2/
+      );
+
+      const released = applyAction(assigned.newEscrow!, EscrowAction.RESOLVE_DISPUTE_RELEASE, otherAdmin);
+      expect(released.success).toBe(true);
+
+      // A log where another admin decided the dispute does not validate
+      const forged = { ...released.event!, performedBy: "admin-1" };
+      expect(validateEventLog([...events, disputed.event!, assigned.event!, forged])).toEqual([
+        expect.objectContaining({ kind: "wrong_actor", sequence: 7 }),
+      ]);
+    });
+
+    it("should not let another admin take over an assigned dispute", () => {
+      const { escrow, events } = fundedEscrow();
+      const disputed = applyAction(escrow, EscrowAction.DISPUTE, buyer, raiseDispute);
+      const assigned = applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin);
+
+      expect(applyAction(assigned.newEscrow!, EscrowAction.ASSIGN_DISPUTE, otherAdmin).error).toBe(
+        "The dispute is assigned to admin-1; only they can hand it over"
+      );
+      expect(applyAction(assigned.newEscrow!, EscrowAction.RESOLVE_DISPUTE_REFUND, otherAdmin).error).toMatch(
+        /assigned to admin-1/
+      );
+
+      // The assignee can still hand it over
+      const handedOver = applyAction(assigned.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin, { assignee: "admin-2" });
+      expect(handedOver.newEscrow!.dispute).toMatchObject({ assignedTo: "admin-2" });
+      expect(validateEventLog([...events, disputed.event!, assigned.event!, handedOver.event!])).toEqual([]);
+
+      // A log where another admin took the dispute over does not validate
+      const forged = { ...handedOver.event!, performedBy: "admin-2" };
+      expect(validateEventLog([...events, disputed.event!, assigned.event!, forged])).toEqual([
+        expect.objectContaining({ kind: "wrong_actor", sequence: 7 }),
+      ]);
+    });
+  });
+
+  describe("seller refunds", () => {
+    const buyer = { userId: "buyer-1", isAdmin: false };
+    const seller = { userId: "seller-1", isAdmin: false };
+    const admin = { userId: "admin-1", isAdmin: true };
+    const fees = {
+      platform: { type: "percentage" as const, basisPoints: 250 },
+      arbitration: { type: "percentage" as const, basisPoints: 500 },
+    };
+
+    const fundedEscrow = () => {
+      const created = createEscrow("test-id", "buyer-1", "seller-1", 1000, "USD", "Test escrow", undefined, {}, UserRole.BUYER, fees);
+      const accepted = accept(created.escrow);
+      const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, buyer);
+      const funded = confirmPayment(funding.newEscrow!);
+      return { escrow: funded.newEscrow!, events: [created.event, accepted.event!, funding.event!, funded.event!] };
+    };
+
+    it("should refund a FUNDED escrow in full and record the reason", () => {
+      const { escrow, events } = fundedEscrow();
+      expect(applyAction(escrow, EscrowAction.REFUND, seller).error).toMatch(/reason is required/);
+      expect(applyAction(escrow, EscrowAction.REFUND, buyer, { reason: "Changed my mind" }).success).toBe(false);
+
+      const refunding = applyAction(escrow, EscrowAction.REFUND, seller, { reason: "Out of stock" });
+      expect(refunding.event).toMatchObject({ action: EscrowAction.REFUND, reason: "Out of stock" });
+      expect(refunding.newEscrow!.pendingPayment?.transfers).toEqual([{ party: UserRole.BUYER, amount: 1000 }]);
+
+      const refunded = confirmPayment(refunding.newEscrow!);
+      expect(refunded.newEscrow!.currentState).toBe(EscrowState.REFUNDED);
+      expect(refunded.newEscrow!.payout).toMatchObject({ buyerRefund: 1000, platformFee: 0, arbitrationFee: 0 });
+
+      const log = [...events, refunding.event!, refunded.event!];
+      expect(validateEventLog(log)).toEqual([]);
+      expect(reconstructEscrow(log)).toMatchObject(refunded.newEscrow!);
+    });
+
+    it("should let the seller accept a dispute by refunding, until an admin takes it", () => {
+      const { escrow, events } = fundedEscrow();
+      const disputed = applyAction(escrow, EscrowAction.DISPUTE, buyer, raiseDispute);
+
+      const assigned = applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin);
+      expect(
+        applyAction(assigned.newEscrow!, EscrowAction.REFUND, seller, { reason: "Sorry about that" }).error
+      ).toMatch(/already under review by admin-1/);
+
+      // Accepting the dispute avoids arbitration, and its fee
+      const refunding = applyAction(disputed.newEscrow!, EscrowAction.REFUND, seller, { reason: "Sorry about that" });
+      expect(refunding.newEscrow!.payout).toMatchObject({ buyerRefund: 1000, arbitrationFee: 0 });
+      expect(refunding.newEscrow!.dispute).toMatchObject({ decidedBy: "seller-1" });
+      expect(getDisputeStatus(refunding.newEscrow!.dispute!)).toBe(DisputeStatus.DECIDED);
+
+      const log = [...events, disputed.event!, refunding.event!];
+      expect(validateEventLog(log)).toEqual([]);
+      expect(reconstructEscrow(log)).toMatchObject(refunding.newEscrow!);
+
+      // A log where the seller refunded after the dispute was assigned does not validate
+      expect(validateEventLog([...events, disputed.event!, assigned.event!, refunding.event!])).toEqual([
+        expect.objectContaining({ kind: "wrong_actor", sequence: 7 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the fee engine and payout breakdowns
+ */
+
+import { describe, it, expect } from "vitest";
+import { SYSTEM_ACTOR, applyAction, createEscrow, reconstructEscrow } from "../escrow";
+import { EscrowAction, EscrowState } from "../escrow-state";
+import { DisputeCategory } from "../disputes";
+import { EscrowEvent } from "../events";
+import { FeeSchedule, calculateFee, calculatePayout } from "../fees";
+import { getFeeSchedule, parseFeeConfig } from "@/lib/fee-config";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+const admin = { userId: "admin-1", isAdmin: true };
+// With no response window for the seller, an admin can take the dispute at once
+const raiseDispute = { dispute: { category: DisputeCategory.DAMAGED, sellerResponseWindowMs: 0 } };
+
+const schedule: FeeSchedule = {
+  platform: { type: "percentage", basisPoints: 250, min: 100 },
+  arbitration: { type: "flat", amount: 2000 },
+};
+
+function fundedEscrow(amount: number) {
+  const created = createEscrow(
+    "fee-test",
+    "buyer-1",
+    "seller-1",
+    amount,
+    "USD",
+    "Fee test",
+    undefined,
+    {},
+    undefined,
+    schedule
+  );
+  const accepted = applyAction(created.escrow, EscrowAction.ACCEPT, seller);
+  const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, buyer);
+  const funded = applyAction(funding.newEscrow!, EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR);
+  return {
+    escrow: funded.newEscrow!,
+    events: [created.event, accepted.event!, funding.event!, funded.event!] as EscrowEvent[],
+  };
+}
+
+describe("Fee Engine", () => {
+  it("should evaluate flat, percentage and tiered rules with caps", () => {
+    expect(calculateFee({ type: "flat", amount: 500 }, 10_000)).toBe(500);
+    expect(calculateFee({ type: "percentage", basisPoints: 250 }, 10_001)).toBe(250);
+    expect(calculateFee({ type: "percentage", basisPoints: 250, min: 100 }, 1_000)).toBe(100);
+    expect(calculateFee({ type: "percentage", basisPoints: 250, max: 1_000 }, 1_000_000)).toBe(1_000);
+
+    const tiered = {
+      type: "tiered" as const,
+      tiers: [
+        { upTo: 100_000, basisPoints: 300 },
+        { upTo: null, basisPoints: 100 },
+      ],
+    };
+    expect(calculateFee(tiered, 50_000)).toBe(1_500);
+    expect(calculateFee(tiered, 300_000)).toBe(3_000 + 2_000);
+  });
+
+  it("should never charge more than the amount and nothing without a rule", () => {
+    expect(calculateFee({ type: "flat", amount: 500 }, 200)).toBe(200);
+    expect(calculateFee({ type: "percentage", basisPoints: 250, min: 100 }, 0)).toBe(0);
+    expect(calculateFee(undefined, 10_000)).toBe(0);
+  });
+
+  it("should share the arbitration fee in proportion to the disputed funds", () => {
+    const payout = calculatePayout(schedule, 10_000, 4_000, { heldAmount: 10_000, sellerAmount: 4_000 });
+    expect(payout).toEqual({
+      sellerGross: 4_000,
+      buyerGross: 6_000,
+      platformFee: 100,
+      arbitrationFee: 2_000,
+      sellerNet: 4_000 - 100 - 800,
+      buyerRefund: 6_000 - 1_200,
+    });
+    expect(payout.sellerNet + payout.buyerRefund + payout.platformFee + payout.arbitrationFee).toBe(10_000);
+  });
+
+  it("should record the payout in the event that requests it and replay it", () => {
+    const { escrow, events } = fundedEscrow(10_000);
+    const released = applyAction(escrow, EscrowAction.RELEASE, seller);
+
+    const expected = {
+      sellerGross: 10_000,
+      buyerGross: 0,
+      platformFee: 250,
+      arbitrationFee: 0,
+      sellerNet: 9_750,
+      buyerRefund: 0,
+    };
+    expect(released.newEscrow?.payout).toEqual(expected);
+    expect(released.event?.type === "STATE_CHANGED" && released.event.payout).toEqual(expected);
+    expect(reconstructEscrow([...events, released.event!])?.payout).toEqual(expected);
+    expect(released.newEscrow?.pendingPayment?.transfers).toEqual([{ party: "SELLER", amount: 9_750 }]);
+  });
+
+  it("should charge the arbitration fee to the buyer when a dispute ends in a refund", () => {
+    const { escrow } = fundedEscrow(10_000);
+    const disputed = applyAction(escrow, EscrowAction.DISPUTE, buyer, raiseDispute);
+    const assigned = applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin);
+    const refunded = applyAction(assigned.newEscrow!, EscrowAction.RESOLVE_DISPUTE_REFUND, admin);
+
+    expect(refunded.newEscrow?.pendingPayment?.outcome).toBe(EscrowState.REFUNDED);
+    expect(refunded.newEscrow?.payout).toMatchObject({
+      platformFee: 0,
+      arbitrationFee: 2_000,
+      sellerNet: 0,
+      buyerRefund: 8_000,
+    });
+  });
+
+  it("should end the escrow without a payout request when fees take everything", () => {
+    const created = createEscrow("fee-test", "buyer-1", "seller-1", 1_500, "USD", "Fee test", undefined, {}, undefined, {
+      arbitration: { type: "flat", amount: 2_000 },
+    });
+    const accepted = applyAction(created.escrow, EscrowAction.ACCEPT, seller);
+    const funding = applyAction(accepted.newEscrow!, EscrowAction.FUND, buyer);
+    const funded = applyAction(funding.newEscrow!, EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR);
+    const disputed = applyAction(funded.newEscrow!, EscrowAction.DISPUTE, buyer, raiseDispute);
+    const assigned = applyAction(disputed.newEscrow!, EscrowAction.ASSIGN_DISPUTE, admin);
+
+    const refunded = applyAction(assigned.newEscrow!, EscrowAction.RESOLVE_DISPUTE_REFUND, admin);
+
+    expect(refunded.newEscrow?.currentState).toBe(EscrowState.REFUNDED);
+    expect(refunded.newEscrow?.pendingPayment).toBeUndefined();
+    expect(refunded.newEscrow?.payout).toMatchObject({ arbitrationFee: 1_500, buyerRefund: 0 });
+  });
+
+  it("should leave non-terminal events without a payout", () => {
+    const { escrow } = fundedEscrow(10_000);
+    const disputed = applyAction(escrow, EscrowAction.DISPUTE, buyer, raiseDispute);
+    expect(disputed.newEscrow?.currentState).toBe(EscrowState.DISPUTED);
+    expect(disputed.newEscrow?.payout).toBeUndefined();
+  });
+
+  it("should pick the configured schedule for the currency, falling back to the default", () => {
+    const config = parseFeeConfig(
+      JSON.stringify({
+        default: { platform: { type: "percentage", basisPoints: 100 } },
+        JPY: { platform: { type: "flat", amount: 300 } },
+      })
+    );
+    expect(getFeeSchedule("JPY", config)).toEqual({ platform: { type: "flat", amount: 300 } });
+    expect(getFeeSchedule("EUR", config)).toEqual({ platform: { type: "percentage", basisPoints: 100 } });
+    const invertedCaps = { type: "percentage", basisPoints: 250, min: 500, max: 100 };
+    expect(() => parseFeeConfig(JSON.stringify({ USD: { platform: invertedCaps } }))).toThrow();
+  });
+});
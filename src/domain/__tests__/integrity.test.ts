@@ -0,0 +1,121 @@
+/**
+ * Unit tests for event log validation
+ */
+
+import { describe, it, expect } from "vitest";
+import { Escrow, SYSTEM_ACTOR, applyAction, createEscrow } from "../escrow";
+import { EscrowAction, EscrowState, UserRole } from "../escrow-state";
+import { EscrowEvent, EventType, StateChangedEvent } from "../events";
+import { validateEventLog } from "../integrity";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+
+// A released escrow's log: created, accepted, funded, confirmed, released, paid out
+function releasedLog(): EscrowEvent[] {
+  const { escrow, event } = createEscrow("i-1", "buyer-1", "seller-1", 1000, "USD", "Integrity test");
+  const events: EscrowEvent[] = [event];
+  let current: Escrow = escrow;
+  const steps: [EscrowAction, typeof buyer][] = [
+    [EscrowAction.ACCEPT, seller],
+    [EscrowAction.FUND, buyer],
+    [EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR],
+    [EscrowAction.RELEASE, seller],
+    [EscrowAction.CONFIRM_PAYOUT, SYSTEM_ACTOR],
+  ];
+  for (const [action, actor] of steps) {
+    const result = applyAction(current, action, actor);
+    expect(result.success).toBe(true);
+    events.push(result.event!);
+    current = result.newEscrow!;
+  }
+  return events;
+}
+
+// Copies the log with one event replaced
+function edit(events: EscrowEvent[], index: number, changes: Partial<StateChangedEvent>): EscrowEvent[] {
+  return events.map((event, i) => (i === index ? ({ ...event, ...changes } as EscrowEvent) : event));
+}
+
+describe("validateEventLog", () => {
+  it("should accept a log written by the domain layer", () => {
+    expect(validateEventLog(releasedLog())).toEqual([]);
+  });
+
+  it("should report an event whose recorded states the escrow could not have been in", () => {
+    // Hand-edited: funding jumps straight to RELEASED
+    const events = edit(releasedLog(), 2, { toState: EscrowState.RELEASED });
+
+    expect(validateEventLog(events)).toEqual([
+      expect.objectContaining({ kind: "illegal_transition", sequence: 3 }),
+      expect.objectContaining({ kind: "state_mismatch", sequence: 4 }),
+      expect.objectContaining({ kind: "illegal_transition", sequence: 4 }),
+    ]);
+  });
+
+  it("should report actions the recorded role may not perform", () => {
+    const events = edit(releasedLog(), 4, { userRole: UserRole.BUYER, performedBy: "buyer-1" });
+
+    expect(validateEventLog(events)).toEqual([
+      expect.objectContaining({
+        kind: "illegal_transition",
+        sequence: 5,
+        message: "Role BUYER is not allowed to perform action RELEASE",
+      }),
+    ]);
+  });
+
+  it("should report actors who are not the party their role belongs to", () => {
+    const events = edit(releasedLog(), 1, { performedBy: "mallory" });
+
+    expect(validateEventLog(events)).toEqual([
+      expect.objectContaining({ kind: "wrong_actor", sequence: 2 }),
+    ]);
+  });
+
+  it("should report duplicate IDs, foreign events and events out of order", () => {
+    const log = releasedLog();
+    const earlier = new Date(log[0].timestamp.getTime() - 1000);
+    const events = edit(edit(edit(log, 3, { id: log[2].id }), 4, { escrowId: "i-2" }), 5, { timestamp: earlier });
+
+    expect(validateEventLog(events).map((v) => [v.kind, v.sequence])).toEqual([
+      ["duplicate_event_id", 4],
+      ["wrong_escrow", 5],
+      ["out_of_order", 6],
+    ]);
+  });
+
+  it("should report a log that does not start with its creation", () => {
+    const [, ...rest] = releasedLog();
+    expect(validateEventLog(rest)).toEqual([
+      expect.objectContaining({ kind: "invalid_creation", sequence: 1 }),
+    ]);
+  });
+
+  it("should accept logs from before acceptance and the payment provider existed", () => {
+    const [created] = releasedLog();
+    const legacy = { ...created, proposedBy: undefined };
+    const at = created.timestamp;
+    const change = (id: string, action: EscrowAction, fromState: EscrowState, toState: EscrowState) => ({
+      id,
+      type: EventType.STATE_CHANGED as const,
+      schemaVersion: created.schemaVersion,
+      timestamp: at,
+      escrowId: "i-1",
+      action,
+      fromState,
+      toState,
+      ...(action === EscrowAction.FUND
+        ? { performedBy: "buyer-1", userRole: UserRole.BUYER }
+        : { performedBy: "seller-1", userRole: UserRole.SELLER }),
+    });
+
+    expect(
+      validateEventLog([
+        legacy,
+        change("e-2", EscrowAction.FUND, EscrowState.PROPOSED, EscrowState.FUNDED),
+        change("e-3", EscrowAction.RELEASE, EscrowState.FUNDED, EscrowState.RELEASED),
+      ])
+    ).toEqual([]);
+  });
+});
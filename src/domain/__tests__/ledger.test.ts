@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the double-entry ledger projection
+ */
+
+import { describe, it, expect } from "vitest";
+import { ActionOptions, Actor, Escrow, SYSTEM_ACTOR, applyAction, createEscrow } from "../escrow";
+import { EscrowAction } from "../escrow-state";
+import { DisputeCategory } from "../disputes";
+import { EscrowEvent } from "../events";
+import { FeeSchedule } from "../fees";
+import {
+  PLATFORM_FEES_ACCOUNT,
+  computeBalances,
+  isBalanced,
+  journalEntriesFor,
+} from "../ledger";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+const admin = { userId: "admin-1", isAdmin: true };
+// With no response window for the seller, an admin can take the dispute at once
+const raiseDispute = { dispute: { category: DisputeCategory.NOT_AS_DESCRIBED, sellerResponseWindowMs: 0 } };
+
+const schedule: FeeSchedule = {
+  platform: { type: "percentage", basisPoints: 250, min: 100 },
+  arbitration: { type: "flat", amount: 2000 },
+};
+
+type Step = [EscrowAction, Actor, ActionOptions?];
+
+// Runs the steps after acceptance and funding; the payment provider confirms
+// every payment straight away unless `confirm` is false
+function run(
+  milestones: { name: string; amount: number }[] | undefined,
+  steps: Step[],
+  confirm = true
+): EscrowEvent[] {
+  const created = createEscrow(
+    "ledger-test",
+    "buyer-1",
+    "seller-1",
+    10_000,
+    "USD",
+    "Ledger test",
+    milestones,
+    {},
+    undefined,
+    schedule
+  );
+  let escrow: Escrow = created.escrow;
+  const events: EscrowEvent[] = [created.event];
+  for (const [action, actor, options] of [
+    [EscrowAction.ACCEPT, seller],
+    [EscrowAction.FUND, buyer],
+    ...steps,
+  ] as Step[]) {
+    const result = applyAction(escrow, action, actor, options);
+    expect(result.success).toBe(true);
+    escrow = result.newEscrow!;
+    events.push(result.event!);
+
+    if (confirm && escrow.pendingPayment) {
+      const confirmed = applyAction(
+        escrow,
+        escrow.pendingPayment.kind === "charge" ? EscrowAction.CONFIRM_FUNDING : EscrowAction.CONFIRM_PAYOUT,
+        SYSTEM_ACTOR
+      );
+      escrow = confirmed.newEscrow!;
+      events.push(confirmed.event!);
+    }
+  }
+  return events;
+}
+
+function balancesOf(events: EscrowEvent[]) {
+  return Object.fromEntries(
+    computeBalances(journalEntriesFor(events)).map((b) => [b.accountId, b.balance])
+  );
+}
+
+describe("Ledger", () => {
+  it("should post a balanced entry when funding and release are confirmed, keyed by event ID", () => {
+    const events = run(undefined, [[EscrowAction.RELEASE, seller]]);
+    const entries = journalEntriesFor(events);
+
+    // Created, accepted, fund, funding confirmed, release, payout confirmed
+    expect(entries.map((e) => e.eventId)).toEqual([events[3].id, events[5].id]);
+    expect(entries.every(isBalanced)).toBe(true);
+    expect(balancesOf(events)).toEqual({
+      "buyer:buyer-1": -10_000,
+      "escrow:ledger-test": 0,
+      [PLATFORM_FEES_ACCOUNT]: 250,
+      "seller:seller-1": 9_750,
+    });
+  });
+
+  it("should hold the funds until the escrow ends", () => {
+    const events = run(undefined, []);
+    expect(balancesOf(events)).toEqual({
+      "buyer:buyer-1": -10_000,
+      "escrow:ledger-test": 10_000,
+    });
+  });
+
+  it("should move nothing while a payment is waiting on the provider", () => {
+    expect(journalEntriesFor(run(undefined, [], false))).toEqual([]);
+
+    const releasing = run(undefined, [[EscrowAction.RELEASE, seller]]).slice(0, -1);
+    expect(balancesOf(releasing)["escrow:ledger-test"]).toBe(10_000);
+  });
+
+  it("should pay milestones out as they are released and charge fees on the last one", () => {
+    const events = run(
+      [
+        { name: "Design", amount: 4_000 },
+        { name: "Build", amount: 6_000 },
+      ],
+      [
+        [EscrowAction.RELEASE_MILESTONE, seller, { milestoneId: "milestone_1" }],
+        [EscrowAction.RELEASE_MILESTONE, seller, { milestoneId: "milestone_2" }],
+      ]
+    );
+    const entries = journalEntriesFor(events);
+
+    expect(entries).toHaveLength(3);
+    expect(entries.every(isBalanced)).toBe(true);
+    expect(balancesOf(events.slice(0, 6))["seller:seller-1"]).toBe(4_000);
+    expect(balancesOf(events)).toMatchObject({
+      "escrow:ledger-test": 0,
+      [PLATFORM_FEES_ACCOUNT]: 250,
+      "seller:seller-1": 9_750,
+    });
+  });
+
+  it("should settle a split dispute with each side paying its share of the arbitration fee", () => {
+    const events = run(undefined, [
+      [EscrowAction.DISPUTE, buyer, raiseDispute],
+      [EscrowAction.ASSIGN_DISPUTE, admin],
+      [EscrowAction.RESOLVE_DISPUTE_SPLIT, admin, { split: { buyerPercentage: 40 } }],
+    ]);
+
+    expect(journalEntriesFor(events).every(isBalanced)).toBe(true);
+    expect(balancesOf(events)).toEqual({
+      "buyer:buyer-1": -10_000 + 3_200,
+      "escrow:ledger-test": 0,
+      [PLATFORM_FEES_ACCOUNT]: 150 + 2_000,
+      "seller:seller-1": 4_650,
+    });
+  });
+
+  it("should return the funds less the arbitration fee when a dispute ends in a refund", () => {
+    const events = run(undefined, [
+      [EscrowAction.DISPUTE, buyer, raiseDispute],
+      [EscrowAction.ASSIGN_DISPUTE, admin],
+      [EscrowAction.RESOLVE_DISPUTE_REFUND, admin],
+    ]);
+
+    expect(balancesOf(events)).toEqual({
+      "buyer:buyer-1": -2_000,
+      "escrow:ledger-test": 0,
+      [PLATFORM_FEES_ACCOUNT]: 2_000,
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for minor-unit amounts and currency precision
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatMinorUnits, isSupportedCurrency, toMinorUnits } from "../money";
+import { createEscrowSchema } from "@/lib/validation";
+
+describe("Money", () => {
+  it("should convert major units to integer minor units per currency", () => {
+    expect(toMinorUnits(12.5, "USD")).toBe(1250);
+    expect(toMinorUnits("0.30", "EUR")).toBe(30);
+    expect(toMinorUnits(1500, "JPY")).toBe(1500);
+    expect(toMinorUnits("1.234", "KWD")).toBe(1234);
+    expect(toMinorUnits("5.00", "JPY")).toBe(5);
+  });
+
+  it("should reject amounts more precise than the currency allows", () => {
+    expect(toMinorUnits(0.1 + 0.2, "USD")).toBeNull();
+    expect(toMinorUnits("12.345", "EUR")).toBeNull();
+    expect(toMinorUnits("1.5", "JPY")).toBeNull();
+    expect(toMinorUnits("1e3", "USD")).toBeNull();
+  });
+
+  it("should format minor units with exactly the currency's decimal places", () => {
+    expect(formatMinorUnits(1230, "USD")).toBe("12.30");
+    expect(formatMinorUnits(5, "EUR")).toBe("0.05");
+    expect(formatMinorUnits(1500, "JPY")).toBe("1500");
+    expect(formatMinorUnits(-1234, "KWD")).toBe("-1.234");
+  });
+
+  it("should only accept known ISO 4217 codes", () => {
+    expect(isSupportedCurrency("EUR")).toBe(true);
+    expect(isSupportedCurrency("XYZ")).toBe(false);
+    expect(isSupportedCurrency("toString")).toBe(false);
+  });
+
+  it("should validate escrow amounts against the currency on creation", () => {
+    const base = { buyerId: "buyer-1", sellerId: "seller-1", description: "Test escrow" };
+
+    expect(
+      createEscrowSchema.parse({
+        ...base,
+        amount: "100.10",
+        currency: "eur",
+        milestones: [
+          { name: "Design", amount: 40.05 },
+          { name: "Build", amount: "60.05" },
+        ],
+      })
+    ).toMatchObject({ amount: 10010, currency: "EUR", milestones: [{ amount: 4005 }, { amount: 6005 }] });
+
+    const yen = createEscrowSchema.safeParse({ ...base, amount: 1500.5, currency: "JPY" });
+    expect(yen.success).toBe(false);
+    expect(yen.error?.issues[0]).toMatchObject({ path: ["amount"] });
+
+    expect(createEscrowSchema.safeParse({ ...base, amount: 10 }).success).toBe(false);
+    expect(createEscrowSchema.safeParse({ ...base, amount: 10, currency: "XYZ" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Dispute Cases
+ *
+ * A DISPUTED escrow carries a dispute case: why the buyer raised it, how long the
+ * seller has to respond, and which admin decides it. The case is folded from the
+ * event log like the rest of the escrow; its status is derived from it at the
+ * time of asking, since the seller's response window closes without an event.
+ */
+
+export enum DisputeCategory {
+  NOT_RECEIVED = "NOT_RECEIVED",
+  NOT_AS_DESCRIBED = "NOT_AS_DESCRIBED",
+  DAMAGED = "DAMAGED",
+  FRAUD = "FRAUD",
+}
+
+export enum DisputeStatus {
+  // Waiting for an admin to take the case
+  OPEN = "OPEN",
+  // The seller has not responded yet and their response window is still open
+  AWAITING_SELLER = "AWAITING_SELLER",
+  // Assigned to an admin, who may decide it
+  UNDER_REVIEW = "UNDER_REVIEW",
+  DECIDED = "DECIDED",
+}
+
+export enum DisputePriority {
+  HIGH = "HIGH",
+  NORMAL = "NORMAL",
+}
+
+// How long the seller has to respond to a new dispute, unless configured otherwise
+export const DEFAULT_SELLER_RESPONSE_WINDOW_MS = 72 * 60 * 60 * 1000;
+
+/**
+ * What the buyer chooses when raising a dispute
+ */
+export interface DisputeRequest {
+  category: DisputeCategory;
+  // How long the seller has to respond, counted from when the dispute is recorded
+  sellerResponseWindowMs: number;
+}
+
+/**
+ * What the buyer records when raising a dispute
+ */
+export interface DisputeDetails {
+  // Absent on disputes raised before categories existed
+  category?: DisputeCategory;
+  sellerResponseDeadline: Date;
+}
+
+/**
+ * The details of a dispute raised at `raisedAt`
+ */
+export function disputeDetails(request: DisputeRequest, raisedAt: Date): DisputeDetails {
+  return {
+    category: request.category,
+    sellerResponseDeadline: new Date(raisedAt.getTime() + request.sellerResponseWindowMs),
+  };
+}
+
+export interface DisputeCase {
+  // Absent on disputes raised before categories existed
+  category?: DisputeCategory;
+  reason?: string;
+  raisedBy: string;
+  raisedAt: Date;
+  sellerResponseDeadline?: Date;
+  // The seller's first evidence on the dispute
+  sellerRespondedAt?: Date;
+  // The admin who may decide the dispute
+  assignedTo?: string;
+  assignedAt?: Date;
+  decidedBy?: string;
+  decidedAt?: Date;
+}
+
+/**
+ * Where the case stands at `now`
+ */
+export function getDisputeStatus(dispute: DisputeCase, now: Date = new Date()): DisputeStatus {
+  if (dispute.decidedAt) return DisputeStatus.DECIDED;
+  if (
+    !dispute.sellerRespondedAt &&
+    dispute.sellerResponseDeadline &&
+    dispute.sellerResponseDeadline > now
+  ) {
+    return DisputeStatus.AWAITING_SELLER;
+  }
+  return dispute.assignedTo ? DisputeStatus.UNDER_REVIEW : DisputeStatus.OPEN;
+}
+
+/**
+ * Fraud claims go to the front of the queue
+ */
+export function getDisputePriority(dispute: DisputeCase): DisputePriority {
+  return dispute.category === DisputeCategory.FRAUD ? DisputePriority.HIGH : DisputePriority.NORMAL;
+}
+
+/**
+ * The case opened by a DISPUTE action
+ */
+export function openDispute(
+  raisedBy: string,
+  raisedAt: Date,
+  reason?: string,
+  details?: DisputeDetails
+): DisputeCase {
+  return {
+    ...(details?.category ? { category: details.category } : {}),
+    ...(reason ? { reason } : {}),
+    raisedBy,
+    raisedAt,
+    ...(details ? { sellerResponseDeadline: details.sellerResponseDeadline } : {}),
+  };
+}
+
+/**
+ * Only the seller's first response counts towards the response window
+ */
+export function recordSellerResponse(dispute: DisputeCase, at: Date): DisputeCase {
+  return dispute.sellerRespondedAt ? dispute : { ...dispute, sellerRespondedAt: at };
+}
+
+export function assignDispute(dispute: DisputeCase, assignedTo: string, at: Date): DisputeCase {
+  return { ...dispute, assignedTo, assignedAt: at };
+}
+
+export function decideDispute(dispute: DisputeCase, decidedBy: string, at: Date): DisputeCase {
+  return { ...dispute, decidedBy, decidedAt: at };
+}
@@ -5,20 +5,55 @@
  */
 
 export enum EscrowState {
+  // Waiting for the counterparty to accept, reject or counter the current terms
   PROPOSED = "PROPOSED",
+  // Both parties agreed to the terms; waiting for the buyer to fund
+  ACCEPTED = "ACCEPTED",
+  // The buyer asked to fund; waiting for the payment provider to confirm the charge
+  FUNDING_PENDING = "FUNDING_PENDING",
   FUNDED = "FUNDED",
+  // A payout was decided; waiting for the payment provider to confirm the transfers
+  PAYOUT_PENDING = "PAYOUT_PENDING",
   RELEASED = "RELEASED",
   DISPUTED = "DISPUTED",
   REFUNDED = "REFUNDED",
+  // Dispute resolved by splitting the held funds between buyer and seller
+  SETTLED = "SETTLED",
+  // Never funded before the funding deadline
+  EXPIRED = "EXPIRED",
+  // Withdrawn by a participant before it was funded
+  CANCELLED = "CANCELLED",
+  // The counterparty turned the proposal down
+  REJECTED = "REJECTED",
 }
 
 export enum EscrowAction {
+  ACCEPT = "ACCEPT",
+  REJECT = "REJECT",
+  COUNTER_PROPOSE = "COUNTER_PROPOSE",
   FUND = "FUND",
   RELEASE = "RELEASE",
+  RELEASE_MILESTONE = "RELEASE_MILESTONE",
   DISPUTE = "DISPUTE",
   RESOLVE_DISPUTE_RELEASE = "RESOLVE_DISPUTE_RELEASE",
   RESOLVE_DISPUTE_REFUND = "RESOLVE_DISPUTE_REFUND",
-  // Not exposed through UI; kept here to document rejected path
+  RESOLVE_DISPUTE_SPLIT = "RESOLVE_DISPUTE_SPLIT",
+  CANCEL = "CANCEL",
+  // Adds a document, photo or message to a dispute; the escrow stays DISPUTED
+  SUBMIT_EVIDENCE = "SUBMIT_EVIDENCE",
+  // Hands a dispute to the admin who will decide it; the escrow stays DISPUTED
+  ASSIGN_DISPUTE = "ASSIGN_DISPUTE",
+  // Performed by the scheduler when a deadline passes
+  EXPIRE = "EXPIRE",
+  AUTO_RELEASE = "AUTO_RELEASE",
+  // Performed when the payment provider reports back
+  CONFIRM_FUNDING = "CONFIRM_FUNDING",
+  FAIL_FUNDING = "FAIL_FUNDING",
+  CONFIRM_PAYOUT = "CONFIRM_PAYOUT",
+  FAIL_PAYOUT = "FAIL_PAYOUT",
+  // Sends a declined payout to the provider again, as a new request; the escrow stays PAYOUT_PENDING
+  RETRY_PAYOUT = "RETRY_PAYOUT",
+  // The seller gives the held funds back, instead of delivering or contesting a dispute
   REFUND = "REFUND",
 }
 
@@ -26,11 +61,18 @@ export enum UserRole {
   BUYER = "BUYER",
   SELLER = "SELLER",
   ADMIN = "ADMIN",
+  // The platform itself, e.g. the deadline scheduler; never granted to a caller
+  SYSTEM = "SYSTEM",
 }
 
+// The two sides of an escrow, as opposed to admins or the system
+export type PartyRole = UserRole.BUYER | UserRole.SELLER;
+
 export interface TransitionResult {
   success: boolean;
   newState?: EscrowState;
+  // Set when newState is PAYOUT_PENDING: the state reached once the payout is confirmed
+  outcome?: EscrowState;
   error?: string;
 }
 
@@ -38,7 +80,21 @@ export interface TransitionResult {
  * Returns true if the given state is terminal (no further actions allowed)
  */
 export function isTerminalState(state: EscrowState): boolean {
-  return state === EscrowState.RELEASED || state === EscrowState.REFUNDED;
+  return (
+    state === EscrowState.RELEASED ||
+    state === EscrowState.REFUNDED ||
+    state === EscrowState.SETTLED ||
+    state === EscrowState.EXPIRED ||
+    state === EscrowState.CANCELLED ||
+    state === EscrowState.REJECTED
+  );
+}
+
+/**
+ * The other party to an escrow
+ */
+export function getCounterparty(role: PartyRole): PartyRole {
+  return role === UserRole.BUYER ? UserRole.SELLER : UserRole.BUYER;
 }
 
 /**
@@ -50,7 +106,7 @@ export function transitionState(
   action: EscrowAction,
   role: UserRole
 ): TransitionResult {
-  // Invariant 5: Once RELEASED or REFUNDED, no further actions are allowed
+  // Invariant 5: Once an escrow reaches a terminal state, no further actions are allowed
   if (isTerminalState(current)) {
     return {
       success: false,
@@ -60,12 +116,28 @@ export function transitionState(
 
   // Centralized permission rules (Invariants 1-3)
   const permissionMap: Record<EscrowAction, UserRole[]> = {
-    [EscrowAction.FUND]: [UserRole.BUYER], // Only buyer can fund
+    // Whichever party did not propose the current terms responds; the domain layer checks which
+    [EscrowAction.ACCEPT]: [UserRole.BUYER, UserRole.SELLER],
+    [EscrowAction.REJECT]: [UserRole.BUYER, UserRole.SELLER],
+    [EscrowAction.COUNTER_PROPOSE]: [UserRole.BUYER, UserRole.SELLER],
+    [EscrowAction.FUND]: [UserRole.BUYER], // Only buyer can fund, once terms are accepted
     [EscrowAction.RELEASE]: [UserRole.SELLER], // Seller can release when FUNDED
+    [EscrowAction.RELEASE_MILESTONE]: [UserRole.SELLER], // Seller releases milestones one by one
     [EscrowAction.DISPUTE]: [UserRole.BUYER], // Only buyer can raise dispute
     [EscrowAction.RESOLVE_DISPUTE_RELEASE]: [UserRole.ADMIN], // Only admin resolves
     [EscrowAction.RESOLVE_DISPUTE_REFUND]: [UserRole.ADMIN], // Only admin resolves
-    [EscrowAction.REFUND]: [], // Direct refund is not permitted by any role
+    [EscrowAction.RESOLVE_DISPUTE_SPLIT]: [UserRole.ADMIN], // Only admin resolves
+    [EscrowAction.CANCEL]: [UserRole.BUYER, UserRole.SELLER], // Either party may withdraw before funding
+    [EscrowAction.SUBMIT_EVIDENCE]: [UserRole.BUYER, UserRole.SELLER], // Either party argues their side
+    [EscrowAction.ASSIGN_DISPUTE]: [UserRole.ADMIN], // Any admin may take or hand over a dispute
+    [EscrowAction.EXPIRE]: [UserRole.SYSTEM], // Funding deadline passed
+    [EscrowAction.AUTO_RELEASE]: [UserRole.SYSTEM], // Inspection deadline passed
+    [EscrowAction.CONFIRM_FUNDING]: [UserRole.SYSTEM], // Provider confirmed the charge
+    [EscrowAction.FAIL_FUNDING]: [UserRole.SYSTEM], // Provider declined the charge
+    [EscrowAction.CONFIRM_PAYOUT]: [UserRole.SYSTEM], // Provider confirmed the payout
+    [EscrowAction.FAIL_PAYOUT]: [UserRole.SYSTEM], // Provider declined the payout
+    [EscrowAction.RETRY_PAYOUT]: [UserRole.ADMIN], // An admin follows up on a declined payout
+    [EscrowAction.REFUND]: [UserRole.SELLER], // Only the seller can give the money back of their own accord
   };
 
   const allowedRoles = permissionMap[action] ?? [];
@@ -79,32 +151,109 @@ export function transitionState(
   // State transition table (Invariant 4: reject invalid transitions)
   switch (current) {
     case EscrowState.PROPOSED:
+      if (action === EscrowAction.ACCEPT) {
+        return { success: true, newState: EscrowState.ACCEPTED };
+      }
+      if (action === EscrowAction.REJECT) {
+        return { success: true, newState: EscrowState.REJECTED };
+      }
+      // New terms keep the escrow PROPOSED, now awaiting the other party
+      if (action === EscrowAction.COUNTER_PROPOSE) {
+        return { success: true, newState: EscrowState.PROPOSED };
+      }
+      if (action === EscrowAction.CANCEL && (role === UserRole.BUYER || role === UserRole.SELLER)) {
+        return { success: true, newState: EscrowState.CANCELLED };
+      }
+      if (action === EscrowAction.EXPIRE && role === UserRole.SYSTEM) {
+        return { success: true, newState: EscrowState.EXPIRED };
+      }
+      break;
+
+    case EscrowState.ACCEPTED:
       if (action === EscrowAction.FUND && role === UserRole.BUYER) {
+        return { success: true, newState: EscrowState.FUNDING_PENDING };
+      }
+      if (action === EscrowAction.CANCEL && (role === UserRole.BUYER || role === UserRole.SELLER)) {
+        return { success: true, newState: EscrowState.CANCELLED };
+      }
+      if (action === EscrowAction.EXPIRE && role === UserRole.SYSTEM) {
+        return { success: true, newState: EscrowState.EXPIRED };
+      }
+      break;
+
+    case EscrowState.FUNDING_PENDING:
+      if (action === EscrowAction.CONFIRM_FUNDING && role === UserRole.SYSTEM) {
         return { success: true, newState: EscrowState.FUNDED };
       }
+      // A declined charge hands the escrow back to the buyer to try again
+      if (action === EscrowAction.FAIL_FUNDING && role === UserRole.SYSTEM) {
+        return { success: true, newState: EscrowState.ACCEPTED };
+      }
       break;
 
     case EscrowState.FUNDED:
       if (action === EscrowAction.RELEASE && role === UserRole.SELLER) {
-        return { success: true, newState: EscrowState.RELEASED };
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.RELEASED };
+      }
+      // Partial release returns the escrow to FUNDED; the domain layer makes
+      // RELEASED the outcome once the last milestone is paid out
+      if (action === EscrowAction.RELEASE_MILESTONE && role === UserRole.SELLER) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.FUNDED };
       }
       if (action === EscrowAction.DISPUTE && role === UserRole.BUYER) {
         return { success: true, newState: EscrowState.DISPUTED };
       }
+      if (action === EscrowAction.AUTO_RELEASE && role === UserRole.SYSTEM) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.RELEASED };
+      }
+      if (action === EscrowAction.REFUND && role === UserRole.SELLER) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.REFUNDED };
+      }
       break;
 
     case EscrowState.DISPUTED:
       if (action === EscrowAction.RESOLVE_DISPUTE_RELEASE && role === UserRole.ADMIN) {
-        return { success: true, newState: EscrowState.RELEASED };
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.RELEASED };
       }
       if (action === EscrowAction.RESOLVE_DISPUTE_REFUND && role === UserRole.ADMIN) {
-        return { success: true, newState: EscrowState.REFUNDED };
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.REFUNDED };
+      }
+      if (action === EscrowAction.RESOLVE_DISPUTE_SPLIT && role === UserRole.ADMIN) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.SETTLED };
+      }
+      if (action === EscrowAction.SUBMIT_EVIDENCE && (role === UserRole.BUYER || role === UserRole.SELLER)) {
+        return { success: true, newState: EscrowState.DISPUTED };
+      }
+      if (action === EscrowAction.ASSIGN_DISPUTE && role === UserRole.ADMIN) {
+        return { success: true, newState: EscrowState.DISPUTED };
+      }
+      // The seller accepts the dispute; the domain layer refuses once an admin has taken it
+      if (action === EscrowAction.REFUND && role === UserRole.SELLER) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING, outcome: EscrowState.REFUNDED };
+      }
+      break;
+
+    case EscrowState.PAYOUT_PENDING:
+      // The domain layer moves the escrow to the outcome recorded when the payout was requested
+      if (action === EscrowAction.CONFIRM_PAYOUT && role === UserRole.SYSTEM) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING };
+      }
+      // A declined payout waits, still owed, until an admin sends it again
+      if (action === EscrowAction.FAIL_PAYOUT && role === UserRole.SYSTEM) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING };
+      }
+      if (action === EscrowAction.RETRY_PAYOUT && role === UserRole.ADMIN) {
+        return { success: true, newState: EscrowState.PAYOUT_PENDING };
       }
       break;
 
     // Terminal states are already handled above
     case EscrowState.RELEASED:
     case EscrowState.REFUNDED:
+    case EscrowState.SETTLED:
+    case EscrowState.EXPIRED:
+    case EscrowState.CANCELLED:
+    case EscrowState.REJECTED:
       return { success: false, error: `No actions allowed from terminal state ${current}` };
   }
 
@@ -7,24 +7,77 @@
 import {
   EscrowState,
   EscrowAction,
+  PartyRole,
   UserRole,
+  getCounterparty,
   transitionState,
 } from "./escrow-state";
 import {
+  DisputeSplit,
+  EscrowDeadlines,
   EscrowEvent,
   EventType,
+  EvidenceAttachment,
+  MilestoneTerms,
+  PaymentInstruction,
+  PaymentTransfer,
+  PendingPayment,
+  createDisputeAssignedEvent,
   createEscrowCreatedEvent,
+  createEvidenceSubmittedEvent,
+  createMilestoneReleasedEvent,
   createStateChangedEvent,
+  createTermsRevisedEvent,
   reconstructStateFromEvents,
 } from "./events";
+import {
+  DEFAULT_SELLER_RESPONSE_WINDOW_MS,
+  DisputeCase,
+  DisputeCategory,
+  DisputeRequest,
+  DisputeStatus,
+  assignDispute,
+  decideDispute,
+  getDisputeStatus,
+  openDispute,
+  recordSellerResponse,
+} from "./disputes";
+import { FeeSchedule, PayoutBreakdown, calculatePayout } from "./fees";
+import { CurrencyCode, formatMinorUnits } from "./money";
+
+export interface Milestone extends MilestoneTerms {
+  releasedAt?: Date;
+}
 
-export interface Escrow {
+export interface Escrow extends EscrowDeadlines {
   id: string;
   buyerId: string;
   sellerId: string;
+  // Integer minor units of `currency`, as are all other amounts on the escrow
   amount: number;
+  currency: CurrencyCode;
   description: string;
   currentState: EscrowState;
+  // Present only for milestone-based escrows
+  milestones?: Milestone[];
+  // Who proposed the initial terms
+  proposedBy: PartyRole;
+  // Set while PROPOSED: the party who must accept, reject or counter the current terms
+  pendingApprovalFrom?: PartyRole;
+  // Total paid out to the seller so far
+  releasedAmount: number;
+  // How the held funds were divided when a dispute was settled
+  settlement?: DisputeSplit;
+  // Fees agreed at creation; absent means the escrow pays no fees
+  feeSchedule?: FeeSchedule;
+  // Who receives what, once the escrow pays out
+  payout?: PayoutBreakdown;
+  // Set while FUNDING_PENDING or PAYOUT_PENDING: what the payment provider has to confirm
+  pendingPayment?: PendingPayment;
+  // Set once the escrow has been disputed, and kept after the dispute is decided
+  dispute?: DisputeCase;
+  // Number of events in the escrow's log; used for optimistic concurrency
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,34 +87,282 @@ export interface EscrowWithHistory extends Escrow {
 }
 
 /**
- * Creates a new escrow
+ * An authenticated caller. Roles are derived from the escrow, never supplied by the caller.
+ */
+export interface Actor {
+  userId: string;
+  isAdmin: boolean;
+  // Set only for platform-initiated actions such as deadline expiry
+  isSystem?: boolean;
+}
+
+/**
+ * The actor recorded on transitions the platform performs on its own
+ */
+export const SYSTEM_ACTOR: Actor = { userId: "system", isAdmin: false, isSystem: true };
+
+export interface MilestoneInput {
+  name: string;
+  amount: number;
+}
+
+// Revised terms for a counter-proposal; omitted fields keep their current value
+export interface TermsInput {
+  amount?: number;
+  description?: string;
+  milestones?: MilestoneInput[];
+}
+
+export type SplitInput =
+  | { buyerAmount: number; sellerAmount: number }
+  | { buyerPercentage: number };
+
+// A message, an attachment already stored with the attachment store, or both
+export interface EvidenceInput {
+  message?: string;
+  attachment?: EvidenceAttachment;
+}
+
+export interface DisputeInput {
+  category: DisputeCategory;
+  // How long the seller has to respond (default: DEFAULT_SELLER_RESPONSE_WINDOW_MS)
+  sellerResponseWindowMs?: number;
+}
+
+export interface ActionOptions {
+  // Required for CANCEL
+  reason?: string;
+  // Required for RELEASE_MILESTONE
+  milestoneId?: string;
+  // Required for RESOLVE_DISPUTE_SPLIT
+  split?: SplitInput;
+  // Required for COUNTER_PROPOSE
+  terms?: TermsInput;
+  // Required for SUBMIT_EVIDENCE
+  evidence?: EvidenceInput;
+  // Required for DISPUTE
+  dispute?: DisputeInput;
+  // The admin to assign with ASSIGN_DISPUTE; defaults to the actor
+  assignee?: string;
+  // The provider's reference for CONFIRM_FUNDING and CONFIRM_PAYOUT
+  paymentReference?: string;
+}
+
+export type ActionResult = {
+  success: boolean;
+  newEscrow?: Escrow;
+  event?: EscrowEvent;
+  error?: string;
+};
+
+/**
+ * Strips the event history, leaving the escrow snapshot
+ */
+export function toSnapshot(escrow: EscrowWithHistory): Escrow {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { events, ...snapshot } = escrow;
+  return snapshot;
+}
+
+/**
+ * Amount still held in escrow
+ */
+export function getRemainingAmount(escrow: Escrow): number {
+  return escrow.amount - escrow.releasedAmount;
+}
+
+/**
+ * Roles the actor holds on this escrow, most specific first
+ */
+export function resolveRoles(escrow: Pick<Escrow, "buyerId" | "sellerId">, actor: Actor): UserRole[] {
+  if (actor.isSystem) return [UserRole.SYSTEM];
+
+  const roles: UserRole[] = [];
+  if (actor.userId === escrow.buyerId) roles.push(UserRole.BUYER);
+  if (actor.userId === escrow.sellerId) roles.push(UserRole.SELLER);
+  if (actor.isAdmin) roles.push(UserRole.ADMIN);
+  return roles;
+}
+
+/**
+ * Returns true if the actor may see the escrow
+ */
+export function canView(escrow: Pick<Escrow, "buyerId" | "sellerId">, actor: Actor): boolean {
+  return resolveRoles(escrow, actor).length > 0;
+}
+
+/**
+ * The system action whose deadline has passed for this escrow, if any
+ */
+export function getDueSystemAction(escrow: Escrow, now: Date = new Date()): EscrowAction | null {
+  if (
+    (escrow.currentState === EscrowState.PROPOSED ||
+      escrow.currentState === EscrowState.ACCEPTED) &&
+    escrow.fundingDeadline &&
+    escrow.fundingDeadline <= now
+  ) {
+    return EscrowAction.EXPIRE;
+  }
+  if (
+    escrow.currentState === EscrowState.FUNDED &&
+    escrow.inspectionDeadline &&
+    escrow.inspectionDeadline <= now
+  ) {
+    return EscrowAction.AUTO_RELEASE;
+  }
+  return null;
+}
+
+/**
+ * Turns a split request into concrete amounts that add up to what is still held.
+ * Percentages round to whole minor units, with the remainder going to the seller.
+ */
+export function resolveSplit(
+  escrow: Escrow,
+  input: SplitInput
+): { success: boolean; split?: DisputeSplit; error?: string } {
+  const remaining = getRemainingAmount(escrow);
+
+  let buyerAmount: number;
+  let sellerAmount: number;
+  if ("buyerPercentage" in input) {
+    if (input.buyerPercentage < 0 || input.buyerPercentage > 100) {
+      return { success: false, error: "Buyer percentage must be between 0 and 100" };
+    }
+    buyerAmount = Math.round((remaining * input.buyerPercentage) / 100);
+    sellerAmount = remaining - buyerAmount;
+  } else {
+    ({ buyerAmount, sellerAmount } = input);
+    if (!Number.isInteger(buyerAmount) || !Number.isInteger(sellerAmount)) {
+      return { success: false, error: "Split amounts must be whole minor units" };
+    }
+    if (buyerAmount < 0 || sellerAmount < 0) {
+      return { success: false, error: "Split amounts must not be negative" };
+    }
+    if (buyerAmount + sellerAmount !== remaining) {
+      return {
+        success: false,
+        error: `Split amounts must add up to the escrowed amount ${formatMinorUnits(remaining, escrow.currency)} ${escrow.currency}`,
+      };
+    }
+  }
+
+  return {
+    success: true,
+    split: { buyerAmount, sellerAmount },
+  };
+}
+
+/**
+ * The itemised payout for an escrow moving to `newState`, or undefined if that
+ * state does not end the escrow with a payout. `releasedAmount` is the seller's
+ * total over the escrow's life. The arbitration fee applies only when an admin
+ * decides the dispute.
+ */
+function settlePayout(
+  escrow: Escrow,
+  newState: EscrowState,
+  releasedAmount: number,
+  arbitrated: boolean = escrow.currentState === EscrowState.DISPUTED
+): PayoutBreakdown | undefined {
+  if (
+    newState !== EscrowState.RELEASED &&
+    newState !== EscrowState.REFUNDED &&
+    newState !== EscrowState.SETTLED
+  ) {
+    return undefined;
+  }
+
+  const dispute = arbitrated
+    ? {
+        heldAmount: getRemainingAmount(escrow),
+        sellerAmount: releasedAmount - escrow.releasedAmount,
+      }
+    : undefined;
+  return calculatePayout(escrow.feeSchedule, escrow.amount, releasedAmount, dispute);
+}
+
+/**
+ * The payments that settle a payout: the seller's net less what earlier
+ * milestones already paid them, and the buyer's refund
+ */
+function settlementTransfers(escrow: Escrow, payout: PayoutBreakdown): PaymentTransfer[] {
+  return [
+    { party: UserRole.SELLER, amount: payout.sellerNet - escrow.releasedAmount },
+    { party: UserRole.BUYER, amount: payout.buyerRefund },
+  ];
+}
+
+/**
+ * A payout request for the transfers that move money, or undefined if none do
+ */
+function payoutInstruction(
+  outcome: EscrowState,
+  transfers: PaymentTransfer[]
+): PaymentInstruction | undefined {
+  const moving = transfers.filter((t) => t.amount > 0);
+  return moving.length > 0 ? { kind: "payout", transfers: moving, outcome } : undefined;
+}
+
+function toMilestoneTerms(milestones: MilestoneInput[]): MilestoneTerms[] {
+  return milestones.map((m, index) => ({
+    id: `milestone_${index + 1}`,
+    name: m.name,
+    amount: m.amount,
+  }));
+}
+
+/**
+ * Creates a new escrow, awaiting acceptance by the party who did not propose it
  */
 export function createEscrow(
   id: string,
   buyerId: string,
   sellerId: string,
   amount: number,
-  description: string
+  currency: CurrencyCode,
+  description: string,
+  milestones?: MilestoneInput[],
+  deadlines: EscrowDeadlines = {},
+  proposedBy: PartyRole = UserRole.BUYER,
+  feeSchedule?: FeeSchedule
 ): { escrow: Escrow; event: EscrowEvent } {
-  const now = new Date();
-  const escrow: Escrow = {
+  const milestoneTerms = milestones && toMilestoneTerms(milestones);
+
+  const event = createEscrowCreatedEvent(
     id,
     buyerId,
     sellerId,
     amount,
+    currency,
     description,
-    currentState: EscrowState.PROPOSED,
-    createdAt: now,
-    updatedAt: now,
-  };
+    milestoneTerms,
+    deadlines,
+    proposedBy,
+    feeSchedule
+  );
 
-  const event = createEscrowCreatedEvent(
+  // Timestamps come from the event so the snapshot matches a replay of the log
+  const now = event.timestamp;
+  const escrow: Escrow = {
     id,
     buyerId,
     sellerId,
     amount,
-    description
-  );
+    currency,
+    description,
+    currentState: EscrowState.PROPOSED,
+    ...(milestoneTerms ? { milestones: milestoneTerms.map((m) => ({ ...m })) } : {}),
+    ...(deadlines.fundingDeadline ? { fundingDeadline: deadlines.fundingDeadline } : {}),
+    ...(deadlines.inspectionDeadline ? { inspectionDeadline: deadlines.inspectionDeadline } : {}),
+    proposedBy,
+    pendingApprovalFrom: getCounterparty(proposedBy),
+    releasedAmount: 0,
+    ...(feeSchedule ? { feeSchedule } : {}),
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
 
   return { escrow, event };
 }
@@ -72,35 +373,339 @@ export function createEscrow(
 export function applyAction(
   escrow: Escrow,
   action: EscrowAction,
-  performedBy: string,
-  userRole: UserRole,
-  reason?: string
-): { success: boolean; newEscrow?: Escrow; event?: EscrowEvent; error?: string } {
-  const transition = transitionState(escrow.currentState, action, userRole);
+  actor: Actor,
+  options: ActionOptions = {}
+): ActionResult {
+  const roles = resolveRoles(escrow, actor);
+  if (roles.length === 0) {
+    return {
+      success: false,
+      error: `User ${actor.userId} is not a participant in escrow ${escrow.id}`,
+    };
+  }
 
-  if (!transition.success) {
+  // Act in the first role the state machine accepts; report the primary role's error otherwise
+  const attempts = roles.map((role) => ({
+    role,
+    transition: transitionState(escrow.currentState, action, role),
+  }));
+  const accepted = attempts.find((attempt) => attempt.transition.success);
+
+  if (!accepted) {
     return {
       success: false,
-      error: transition.error,
+      error: attempts[0].transition.error,
     };
   }
 
+  const { role: userRole, transition } = accepted;
+  const performedBy = actor.userId;
+
+  // Deadline transitions only happen once their deadline has actually passed
+  if (
+    (action === EscrowAction.EXPIRE || action === EscrowAction.AUTO_RELEASE) &&
+    getDueSystemAction(escrow) !== action
+  ) {
+    return { success: false, error: `Action ${action} is not due for escrow ${escrow.id}` };
+  }
+
+  // Only the party the current terms are waiting on may respond to them
+  if (
+    (action === EscrowAction.ACCEPT ||
+      action === EscrowAction.REJECT ||
+      action === EscrowAction.COUNTER_PROPOSE) &&
+    userRole !== escrow.pendingApprovalFrom
+  ) {
+    return {
+      success: false,
+      error: `Waiting for the ${escrow.pendingApprovalFrom?.toLowerCase()} to respond to the current terms`,
+    };
+  }
+
+  if (action === EscrowAction.RELEASE_MILESTONE) {
+    return releaseMilestone(escrow, performedBy, userRole, options);
+  }
+
+  if (action === EscrowAction.COUNTER_PROPOSE) {
+    return counterPropose(escrow, performedBy, userRole as PartyRole, options);
+  }
+
+  if (action === EscrowAction.CONFIRM_PAYOUT) {
+    return confirmPayout(escrow, performedBy, userRole, options);
+  }
+
+  if (action === EscrowAction.FAIL_PAYOUT) {
+    return failPayout(escrow, performedBy, userRole, options);
+  }
+
+  if (action === EscrowAction.RETRY_PAYOUT) {
+    return retryPayout(escrow, performedBy, userRole, options);
+  }
+
+  if (action === EscrowAction.SUBMIT_EVIDENCE) {
+    return submitEvidence(escrow, performedBy, userRole as PartyRole, options);
+  }
+
+  // Admins take up a dispute only once the seller has responded or let their window close
+  if (
+    (action === EscrowAction.ASSIGN_DISPUTE ||
+      action === EscrowAction.RESOLVE_DISPUTE_RELEASE ||
+      action === EscrowAction.RESOLVE_DISPUTE_REFUND ||
+      action === EscrowAction.RESOLVE_DISPUTE_SPLIT) &&
+    escrow.dispute &&
+    getDisputeStatus(escrow.dispute) === DisputeStatus.AWAITING_SELLER
+  ) {
+    return {
+      success: false,
+      error: `The seller has until ${escrow.dispute.sellerResponseDeadline!.toISOString()} to respond to the dispute`,
+    };
+  }
+
+  if (action === EscrowAction.ASSIGN_DISPUTE) {
+    return assignToAdmin(escrow, performedBy, userRole, options);
+  }
+
+  // Only the admin a dispute is assigned to may decide it
+  if (
+    action === EscrowAction.RESOLVE_DISPUTE_RELEASE ||
+    action === EscrowAction.RESOLVE_DISPUTE_REFUND ||
+    action === EscrowAction.RESOLVE_DISPUTE_SPLIT
+  ) {
+    const assignedTo = escrow.dispute?.assignedTo;
+    if (!assignedTo) {
+      return { success: false, error: "The dispute must be assigned to an admin before it is resolved" };
+    }
+    if (assignedTo !== performedBy) {
+      return { success: false, error: `The dispute is assigned to ${assignedTo}` };
+    }
+  }
+
+  let disputeRequest: DisputeRequest | undefined;
+  if (action === EscrowAction.DISPUTE) {
+    if (!options.dispute?.category) {
+      return { success: false, error: "A category is required to raise a dispute" };
+    }
+    disputeRequest = {
+      category: options.dispute.category,
+      sellerResponseWindowMs: options.dispute.sellerResponseWindowMs ?? DEFAULT_SELLER_RESPONSE_WINDOW_MS,
+    };
+  }
+
+  if (action === EscrowAction.CANCEL && !options.reason?.trim()) {
+    return { success: false, error: "A reason is required to cancel an escrow" };
+  }
+
+  // The seller can accept a dispute by refunding only until an admin takes it
+  if (action === EscrowAction.REFUND) {
+    if (!options.reason?.trim()) {
+      return { success: false, error: "A reason is required to refund an escrow" };
+    }
+    if (escrow.dispute?.assignedTo && escrow.currentState === EscrowState.DISPUTED) {
+      return { success: false, error: `The dispute is already under review by ${escrow.dispute.assignedTo}` };
+    }
+  }
+
+  let split: DisputeSplit | undefined;
+  if (action === EscrowAction.RESOLVE_DISPUTE_SPLIT) {
+    if (!options.split) {
+      return { success: false, error: "A split is required to settle a dispute" };
+    }
+    const resolved = resolveSplit(escrow, options.split);
+    if (!resolved.success) {
+      return { success: false, error: resolved.error };
+    }
+    split = resolved.split;
+  }
+
+  // Where the escrow ends up once the payment provider has done its part
+  const outcome = transition.outcome ?? transition.newState!;
+
+  // A full release pays out whatever is still held; a split pays the seller's share
+  const releasedAmount =
+    outcome === EscrowState.RELEASED
+      ? escrow.amount
+      : escrow.releasedAmount + (split?.sellerAmount ?? 0);
+  // A refund the seller offers is not arbitrated, so carries no arbitration fee
+  const payout = settlePayout(
+    escrow,
+    outcome,
+    releasedAmount,
+    escrow.currentState === EscrowState.DISPUTED && action !== EscrowAction.REFUND
+  );
+
+  let payment: PaymentInstruction | undefined;
+  if (transition.newState === EscrowState.FUNDING_PENDING) {
+    payment = {
+      kind: "charge",
+      transfers: [{ party: UserRole.BUYER, amount: escrow.amount }],
+      outcome: EscrowState.FUNDED,
+    };
+  } else if (transition.newState === EscrowState.PAYOUT_PENDING && payout) {
+    payment = payoutInstruction(outcome, settlementTransfers(escrow, payout));
+  }
+  // With nothing left to pay out after fees there is nothing to wait for
+  const newState = payment ? transition.newState! : outcome;
+
+  const event = createStateChangedEvent(
+    escrow.id,
+    action,
+    escrow.currentState,
+    newState,
+    performedBy,
+    userRole,
+    options.reason,
+    split,
+    payout,
+    payment,
+    options.paymentReference,
+    disputeRequest
+  );
+
+  const now = event.timestamp;
+  let dispute = escrow.dispute;
+  if (action === EscrowAction.DISPUTE) {
+    dispute = openDispute(performedBy, now, options.reason, event.dispute);
+  } else if (dispute && escrow.currentState === EscrowState.DISPUTED && newState !== EscrowState.DISPUTED) {
+    dispute = decideDispute(dispute, performedBy, now);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { pendingApprovalFrom, pendingPayment, ...rest } = escrow;
+  const newEscrow: Escrow = {
+    ...rest,
+    // Responding to the terms settles who they were waiting on
+    ...(newState === EscrowState.PROPOSED && pendingApprovalFrom ? { pendingApprovalFrom } : {}),
+    currentState: newState,
+    releasedAmount,
+    ...(split ? { settlement: split } : {}),
+    ...(payout ? { payout } : {}),
+    ...(payment ? { pendingPayment: { id: event.id, ...payment } } : {}),
+    ...(dispute ? { dispute } : {}),
+    version: escrow.version + 1,
+    updatedAt: now,
+  };
+
+  // A full release pays out every milestone that is still outstanding
+  if (outcome === EscrowState.RELEASED) {
+    if (escrow.milestones) {
+      newEscrow.milestones = escrow.milestones.map((m) => ({
+        ...m,
+        releasedAt: m.releasedAt ?? now,
+      }));
+    }
+  }
+
+  return {
+    success: true,
+    newEscrow,
+    event,
+  };
+}
+
+/**
+ * Pays out a single milestone; the escrow becomes RELEASED with the last one
+ */
+function releaseMilestone(
+  escrow: Escrow,
+  performedBy: string,
+  userRole: UserRole,
+  options: ActionOptions
+): ActionResult {
+  if (!escrow.milestones) {
+    return { success: false, error: `Escrow ${escrow.id} has no milestones` };
+  }
+
+  const milestone = escrow.milestones.find((m) => m.id === options.milestoneId);
+  if (!milestone) {
+    return { success: false, error: `Milestone ${options.milestoneId} not found` };
+  }
+  if (milestone.releasedAt) {
+    return { success: false, error: `Milestone ${milestone.id} has already been released` };
+  }
+
+  const outcome = escrow.milestones.every((m) => m.id === milestone.id || m.releasedAt)
+    ? EscrowState.RELEASED
+    : escrow.currentState;
+  const releasedAmount = escrow.releasedAmount + milestone.amount;
+  const payout = settlePayout(escrow, outcome, releasedAmount);
+  const payment = payoutInstruction(
+    outcome,
+    payout ? settlementTransfers(escrow, payout) : [{ party: UserRole.SELLER, amount: milestone.amount }]
+  );
+  const newState = payment ? EscrowState.PAYOUT_PENDING : outcome;
+
+  const event = createMilestoneReleasedEvent(
+    escrow.id,
+    milestone.id,
+    milestone.amount,
+    escrow.currentState,
+    newState,
+    performedBy,
+    userRole,
+    options.reason,
+    payout,
+    payment
+  );
+
+  const now = event.timestamp;
+  const milestones = escrow.milestones.map((m) =>
+    m.id === milestone.id ? { ...m, releasedAt: now } : m
+  );
+
   const newEscrow: Escrow = {
     ...escrow,
-    currentState: transition.newState!,
-    updatedAt: new Date(),
+    milestones,
+    releasedAmount,
+    ...(payout ? { payout } : {}),
+    ...(payment ? { pendingPayment: { id: event.id, ...payment } } : {}),
+    currentState: newState,
+    version: escrow.version + 1,
+    updatedAt: now,
   };
 
+  return {
+    success: true,
+    newEscrow,
+    event,
+  };
+}
+
+/**
+ * Records the provider's confirmation of a payout; the escrow moves to the
+ * outcome decided when the payout was requested
+ */
+function confirmPayout(
+  escrow: Escrow,
+  performedBy: string,
+  userRole: UserRole,
+  options: ActionOptions
+): ActionResult {
+  const { pendingPayment, ...rest } = escrow;
+  if (pendingPayment?.kind !== "payout") {
+    return { success: false, error: `Escrow ${escrow.id} has no pending payout` };
+  }
+
   const event = createStateChangedEvent(
     escrow.id,
-    action,
+    EscrowAction.CONFIRM_PAYOUT,
     escrow.currentState,
-    transition.newState!,
+    pendingPayment.outcome,
     performedBy,
     userRole,
-    reason
+    options.reason,
+    undefined,
+    undefined,
+    undefined,
+    options.paymentReference
   );
 
+  const newEscrow: Escrow = {
+    ...rest,
+    currentState: pendingPayment.outcome,
+    version: escrow.version + 1,
+    updatedAt: event.timestamp,
+  };
+
   return {
     success: true,
     newEscrow,
@@ -108,6 +713,230 @@ export function applyAction(
   };
 }
 
+/**
+ * Records that the provider declined a payout. The payout stays owed, and the
+ * escrow PAYOUT_PENDING, until an admin retries it.
+ */
+function failPayout(
+  escrow: Escrow,
+  performedBy: string,
+  userRole: UserRole,
+  options: ActionOptions
+): ActionResult {
+  const { pendingPayment } = escrow;
+  if (pendingPayment?.kind !== "payout" || pendingPayment.declined) {
+    return { success: false, error: `Escrow ${escrow.id} has no pending payout` };
+  }
+
+  const event = createStateChangedEvent(
+    escrow.id,
+    EscrowAction.FAIL_PAYOUT,
+    escrow.currentState,
+    escrow.currentState,
+    performedBy,
+    userRole,
+    options.reason,
+    undefined,
+    undefined,
+    undefined,
+    options.paymentReference
+  );
+
+  return {
+    success: true,
+    newEscrow: {
+      ...escrow,
+      pendingPayment: { ...pendingPayment, declined: true },
+      version: escrow.version + 1,
+      updatedAt: event.timestamp,
+    },
+    event,
+  };
+}
+
+/**
+ * Sends a declined payout again. The retry is a new payment request, with the
+ * transfers and outcome of the declined one, so the provider treats it afresh.
+ */
+function retryPayout(
+  escrow: Escrow,
+  performedBy: string,
+  userRole: UserRole,
+  options: ActionOptions
+): ActionResult {
+  const { pendingPayment } = escrow;
+  if (pendingPayment?.kind !== "payout") {
+    return { success: false, error: `Escrow ${escrow.id} has no pending payout` };
+  }
+  if (!pendingPayment.declined) {
+    return { success: false, error: "Only a declined payout can be retried" };
+  }
+
+  const payment: PaymentInstruction = {
+    kind: pendingPayment.kind,
+    transfers: pendingPayment.transfers,
+    outcome: pendingPayment.outcome,
+  };
+  const event = createStateChangedEvent(
+    escrow.id,
+    EscrowAction.RETRY_PAYOUT,
+    escrow.currentState,
+    escrow.currentState,
+    performedBy,
+    userRole,
+    options.reason,
+    undefined,
+    undefined,
+    payment
+  );
+
+  return {
+    success: true,
+    newEscrow: {
+      ...escrow,
+      pendingPayment: { id: event.id, ...payment },
+      version: escrow.version + 1,
+      updatedAt: event.timestamp,
+    },
+    event,
+  };
+}
+
+/**
+ * Replaces the terms and hands the decision to the other party
+ */
+function counterPropose(
+  escrow: Escrow,
+  performedBy: string,
+  userRole: PartyRole,
+  options: ActionOptions
+): ActionResult {
+  const terms = options.terms;
+  if (
+    !terms ||
+    (terms.amount === undefined && terms.description === undefined && terms.milestones === undefined)
+  ) {
+    return { success: false, error: "A counter-proposal must change the terms" };
+  }
+
+  const amount = terms.amount ?? escrow.amount;
+  const description = terms.description ?? escrow.description;
+  const milestones = terms.milestones
+    ? toMilestoneTerms(terms.milestones)
+    : escrow.milestones?.map((m) => ({ id: m.id, name: m.name, amount: m.amount }));
+
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return { success: false, error: "Amount must be a positive number of minor units" };
+  }
+  if (milestones && milestones.reduce((sum, m) => sum + m.amount, 0) !== amount) {
+    return { success: false, error: "Milestone amounts must add up to the escrow amount" };
+  }
+
+  const event = createTermsRevisedEvent(
+    escrow.id,
+    { amount, description, milestones },
+    performedBy,
+    userRole,
+    options.reason
+  );
+
+  const newEscrow: Escrow = {
+    ...escrow,
+    amount,
+    description,
+    ...(milestones ? { milestones: milestones.map((m) => ({ ...m })) } : {}),
+    pendingApprovalFrom: getCounterparty(userRole),
+    version: escrow.version + 1,
+    updatedAt: event.timestamp,
+  };
+
+  return {
+    success: true,
+    newEscrow,
+    event,
+  };
+}
+
+/**
+ * Records evidence on a dispute; the escrow itself does not change
+ */
+function submitEvidence(
+  escrow: Escrow,
+  performedBy: string,
+  userRole: PartyRole,
+  options: ActionOptions
+): ActionResult {
+  const message = options.evidence?.message?.trim();
+  const attachment = options.evidence?.attachment;
+  if (!message && !attachment) {
+    return { success: false, error: "Evidence needs a message or an attachment" };
+  }
+
+  const event = createEvidenceSubmittedEvent(
+    escrow.id,
+    { message, attachment },
+    escrow.currentState,
+    performedBy,
+    userRole
+  );
+
+  // The seller's first evidence is their response to the dispute
+  const dispute =
+    escrow.dispute && userRole === UserRole.SELLER
+      ? recordSellerResponse(escrow.dispute, event.timestamp)
+      : escrow.dispute;
+
+  return {
+    success: true,
+    newEscrow: {
+      ...escrow,
+      ...(dispute ? { dispute } : {}),
+      version: escrow.version + 1,
+      updatedAt: event.timestamp,
+    },
+    event,
+  };
+}
+
+/**
+ * Hands a dispute to an admin; whether the assignee is an admin is for the caller to check
+ */
+function assignToAdmin(
+  escrow: Escrow,
+  performedBy: string,
+  userRole: UserRole,
+  options: ActionOptions
+): ActionResult {
+  if (!escrow.dispute) {
+    return { success: false, error: `Escrow ${escrow.id} has no dispute to assign` };
+  }
+  // Once taken, a dispute is only handed over by the admin reviewing it
+  const { assignedTo } = escrow.dispute;
+  if (assignedTo && assignedTo !== performedBy) {
+    return { success: false, error: `The dispute is assigned to ${assignedTo}; only they can hand it over` };
+  }
+  const assignee = options.assignee?.trim() || performedBy;
+  if (assignee === escrow.buyerId || assignee === escrow.sellerId) {
+    return { success: false, error: "A dispute cannot be assigned to one of its parties" };
+  }
+  if (assignee === assignedTo) {
+    return { success: false, error: `The dispute is already assigned to ${assignee}` };
+  }
+
+  const event = createDisputeAssignedEvent(escrow.id, assignee, escrow.currentState, performedBy, userRole);
+
+  return {
+    success: true,
+    newEscrow: {
+      ...escrow,
+      dispute: assignDispute(escrow.dispute, assignee, event.timestamp),
+      version: escrow.version + 1,
+      updatedAt: event.timestamp,
+    },
+    event,
+  };
+}
+
 /**
  * Reconstructs escrow from events
  */
@@ -125,6 +954,7 @@ export function reconstructEscrow(events: EscrowEvent[]): EscrowWithHistory | nu
   return {
     ...escrow,
     currentState: state,
+    version: events.length,
     createdAt: createdEvent.timestamp,
     updatedAt: events[events.length - 1].timestamp,
     events,
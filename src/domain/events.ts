@@ -5,29 +5,101 @@
  * This allows us to:
  * - Reconstruct state from events
  * - Audit all actions
- * - Time-travel debugging
+ * - Time-travel debugging: fold a prefix of the log (see `eventsAsOf` and
+ *   `eventsThrough`) to see the escrow as it was at that point
  */
 
-import { EscrowState, EscrowAction, UserRole } from "./escrow-state";
+import { EscrowState, EscrowAction, PartyRole, UserRole, getCounterparty } from "./escrow-state";
+import {
+  DisputeCase,
+  DisputeDetails,
+  DisputeRequest,
+  assignDispute,
+  decideDispute,
+  disputeDetails,
+  openDispute,
+  recordSellerResponse,
+} from "./disputes";
+import { FeeSchedule, PayoutBreakdown } from "./fees";
+import { CurrencyCode } from "./money";
 
 export enum EventType {
   ESCROW_CREATED = "ESCROW_CREATED",
   STATE_CHANGED = "STATE_CHANGED",
+  MILESTONE_RELEASED = "MILESTONE_RELEASED",
+  TERMS_REVISED = "TERMS_REVISED",
+  EVIDENCE_SUBMITTED = "EVIDENCE_SUBMITTED",
+  DISPUTE_ASSIGNED = "DISPUTE_ASSIGNED",
 }
 
+/**
+ * Shape version of newly written events. Stored events keep the version they
+ * were written in and are upcast to this one as they load (see
+ * storage/event-upcasters.ts); bump it, and register an upcaster from the
+ * previous version, whenever an event's shape changes.
+ */
+export const EVENT_SCHEMA_VERSION = 5;
+
 export interface BaseEvent {
   id: string;
   type: EventType;
+  schemaVersion: number;
   timestamp: Date;
   escrowId: string;
+  // Set by the repository when the event is stored (see storage/hash-chain.ts)
+  previousHash?: string;
+  hash?: string;
+}
+
+// Every amount below is an integer in the minor unit of the escrow's currency
+export interface MilestoneTerms {
+  id: string;
+  name: string;
+  amount: number;
 }
 
-export interface EscrowCreatedEvent extends BaseEvent {
+export interface EscrowDeadlines {
+  // A PROPOSED escrow expires if not funded by this time
+  fundingDeadline?: Date;
+  // A FUNDED escrow is released to the seller at this time unless disputed
+  inspectionDeadline?: Date;
+}
+
+export interface EscrowCreatedEvent extends BaseEvent, EscrowDeadlines {
   type: EventType.ESCROW_CREATED;
   buyerId: string;
   sellerId: string;
   amount: number;
+  currency: CurrencyCode;
   description: string;
+  milestones?: MilestoneTerms[];
+  // The party who proposed the initial terms (absent in logs from before acceptance existed: buyer)
+  proposedBy?: PartyRole;
+  // Fees agreed at creation; absent means the escrow pays no fees
+  feeSchedule?: FeeSchedule;
+}
+
+export interface DisputeSplit {
+  buyerAmount: number;
+  sellerAmount: number;
+}
+
+export interface PaymentTransfer {
+  // The party charged, for a charge, or paid, for a payout
+  party: PartyRole;
+  amount: number;
+}
+
+/**
+ * Money the payment provider has to move before a pending escrow can go on.
+ * The event that carries it is the payment request; its ID is the provider's
+ * idempotency key.
+ */
+export interface PaymentInstruction {
+  kind: "charge" | "payout";
+  transfers: PaymentTransfer[];
+  // State the escrow moves to once the provider confirms
+  outcome: EscrowState;
 }
 
 export interface StateChangedEvent extends BaseEvent {
@@ -38,9 +110,126 @@ export interface StateChangedEvent extends BaseEvent {
   performedBy: string;
   userRole: UserRole;
   reason?: string;
+  // Set when a dispute is resolved by splitting the held funds
+  split?: DisputeSplit;
+  // Set when the escrow pays out (RELEASED, REFUNDED or SETTLED)
+  payout?: PayoutBreakdown;
+  // Set when the action waits on the payment provider (FUNDING_PENDING or PAYOUT_PENDING)
+  payment?: PaymentInstruction;
+  // The provider's reference, on the event recording its confirmation
+  paymentReference?: string;
+  // Set when the buyer raises a dispute
+  dispute?: DisputeDetails;
+}
+
+export interface MilestoneReleasedEvent extends BaseEvent {
+  type: EventType.MILESTONE_RELEASED;
+  milestoneId: string;
+  amount: number;
+  fromState: EscrowState;
+  toState: EscrowState;
+  performedBy: string;
+  userRole: UserRole;
+  reason?: string;
+  // Set when the last milestone releases the escrow
+  payout?: PayoutBreakdown;
+  payment?: PaymentInstruction;
+}
+
+/**
+ * A file stored with the attachment store; the event keeps what is needed to
+ * fetch it and prove it unchanged
+ */
+export interface EvidenceAttachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  // Bytes
+  size: number;
+  // SHA-256 of the content, hex
+  checksum: string;
+}
+
+/**
+ * Evidence added to a dispute: a message, a file, or both
+ */
+export interface EvidenceSubmittedEvent extends BaseEvent {
+  type: EventType.EVIDENCE_SUBMITTED;
+  fromState: EscrowState;
+  toState: EscrowState;
+  performedBy: string;
+  userRole: PartyRole;
+  message?: string;
+  attachment?: EvidenceAttachment;
+}
+
+/**
+ * A dispute handed to the admin who will decide it; the escrow stays DISPUTED
+ */
+export interface DisputeAssignedEvent extends BaseEvent {
+  type: EventType.DISPUTE_ASSIGNED;
+  assignedTo: string;
+  fromState: EscrowState;
+  toState: EscrowState;
+  performedBy: string;
+  userRole: UserRole;
+}
+
+/**
+ * A counter-proposal; carries the complete revised terms
+ */
+export interface TermsRevisedEvent extends BaseEvent {
+  type: EventType.TERMS_REVISED;
+  amount: number;
+  description: string;
+  milestones?: MilestoneTerms[];
+  fromState: EscrowState;
+  toState: EscrowState;
+  performedBy: string;
+  userRole: PartyRole;
+  reason?: string;
 }
 
-export type EscrowEvent = EscrowCreatedEvent | StateChangedEvent;
+export type EscrowEvent =
+  | EscrowCreatedEvent
+  | StateChangedEvent
+  | MilestoneReleasedEvent
+  | TermsRevisedEvent
+  | EvidenceSubmittedEvent
+  | DisputeAssignedEvent;
+
+/**
+ * Escrow terms and balances as folded from the event log
+ */
+export interface ReconstructedEscrow extends EscrowDeadlines {
+  id: string;
+  buyerId: string;
+  sellerId: string;
+  amount: number;
+  currency: CurrencyCode;
+  description: string;
+  milestones?: (MilestoneTerms & { releasedAt?: Date })[];
+  proposedBy: PartyRole;
+  // Set while PROPOSED: the party who must accept, reject or counter the current terms
+  pendingApprovalFrom?: PartyRole;
+  releasedAmount: number;
+  settlement?: DisputeSplit;
+  feeSchedule?: FeeSchedule;
+  payout?: PayoutBreakdown;
+  // Set while FUNDING_PENDING or PAYOUT_PENDING
+  pendingPayment?: PendingPayment;
+  // Set once the escrow has been disputed
+  dispute?: DisputeCase;
+}
+
+/**
+ * The payment an escrow is waiting on, identified by the event that requested it
+ */
+export interface PendingPayment extends PaymentInstruction {
+  id: string;
+  // Set once the provider has declined it; an admin can then retry it as a new request
+  declined?: boolean;
+}
 
 /**
  * Creates an event ID
@@ -57,22 +246,61 @@ export function createEscrowCreatedEvent(
   buyerId: string,
   sellerId: string,
   amount: number,
-  description: string
+  currency: CurrencyCode,
+  description: string,
+  milestones?: MilestoneTerms[],
+  deadlines: EscrowDeadlines = {},
+  proposedBy: PartyRole = UserRole.BUYER,
+  feeSchedule?: FeeSchedule
 ): EscrowCreatedEvent {
   return {
     id: createEventId(),
     type: EventType.ESCROW_CREATED,
+    schemaVersion: EVENT_SCHEMA_VERSION,
     timestamp: new Date(),
     escrowId,
     buyerId,
     sellerId,
     amount,
+    currency,
     description,
+    ...(milestones ? { milestones } : {}),
+    ...(deadlines.fundingDeadline ? { fundingDeadline: deadlines.fundingDeadline } : {}),
+    ...(deadlines.inspectionDeadline ? { inspectionDeadline: deadlines.inspectionDeadline } : {}),
+    proposedBy,
+    ...(feeSchedule ? { feeSchedule } : {}),
+  };
+}
+
+/**
+ * Creates a terms revised event
+ */
+export function createTermsRevisedEvent(
+  escrowId: string,
+  terms: { amount: number; description: string; milestones?: MilestoneTerms[] },
+  performedBy: string,
+  userRole: PartyRole,
+  reason?: string
+): TermsRevisedEvent {
+  return {
+    id: createEventId(),
+    type: EventType.TERMS_REVISED,
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    timestamp: new Date(),
+    escrowId,
+    amount: terms.amount,
+    description: terms.description,
+    ...(terms.milestones ? { milestones: terms.milestones } : {}),
+    fromState: EscrowState.PROPOSED,
+    toState: EscrowState.PROPOSED,
+    performedBy,
+    userRole,
+    reason,
   };
 }
 
 /**
- * Creates a state changed event
+ * Creates a state changed event; a dispute's response deadline runs from the event's timestamp
  */
 export function createStateChangedEvent(
   escrowId: string,
@@ -81,12 +309,19 @@ export function createStateChangedEvent(
   toState: EscrowState,
   performedBy: string,
   userRole: UserRole,
-  reason?: string
+  reason?: string,
+  split?: DisputeSplit,
+  payout?: PayoutBreakdown,
+  payment?: PaymentInstruction,
+  paymentReference?: string,
+  dispute?: DisputeRequest
 ): StateChangedEvent {
+  const timestamp = new Date();
   return {
     id: createEventId(),
     type: EventType.STATE_CHANGED,
-    timestamp: new Date(),
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    timestamp,
     escrowId,
     action,
     fromState,
@@ -94,9 +329,112 @@ export function createStateChangedEvent(
     performedBy,
     userRole,
     reason,
+    ...(split ? { split } : {}),
+    ...(payout ? { payout } : {}),
+    ...(payment ? { payment } : {}),
+    ...(paymentReference ? { paymentReference } : {}),
+    ...(dispute ? { dispute: disputeDetails(dispute, timestamp) } : {}),
+  };
+}
+
+/**
+ * Creates a milestone released event
+ */
+export function createMilestoneReleasedEvent(
+  escrowId: string,
+  milestoneId: string,
+  amount: number,
+  fromState: EscrowState,
+  toState: EscrowState,
+  performedBy: string,
+  userRole: UserRole,
+  reason?: string,
+  payout?: PayoutBreakdown,
+  payment?: PaymentInstruction
+): MilestoneReleasedEvent {
+  return {
+    id: createEventId(),
+    type: EventType.MILESTONE_RELEASED,
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    timestamp: new Date(),
+    escrowId,
+    milestoneId,
+    amount,
+    fromState,
+    toState,
+    performedBy,
+    userRole,
+    reason,
+    ...(payout ? { payout } : {}),
+    ...(payment ? { payment } : {}),
+  };
+}
+
+/**
+ * Creates an evidence submitted event
+ */
+export function createEvidenceSubmittedEvent(
+  escrowId: string,
+  evidence: { message?: string; attachment?: EvidenceAttachment },
+  state: EscrowState,
+  performedBy: string,
+  userRole: PartyRole
+): EvidenceSubmittedEvent {
+  return {
+    id: createEventId(),
+    type: EventType.EVIDENCE_SUBMITTED,
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    timestamp: new Date(),
+    escrowId,
+    fromState: state,
+    toState: state,
+    performedBy,
+    userRole,
+    ...(evidence.message ? { message: evidence.message } : {}),
+    ...(evidence.attachment ? { attachment: evidence.attachment } : {}),
   };
 }
 
+/**
+ * Creates a dispute assigned event
+ */
+export function createDisputeAssignedEvent(
+  escrowId: string,
+  assignedTo: string,
+  state: EscrowState,
+  performedBy: string,
+  userRole: UserRole
+): DisputeAssignedEvent {
+  return {
+    id: createEventId(),
+    type: EventType.DISPUTE_ASSIGNED,
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    timestamp: new Date(),
+    escrowId,
+    assignedTo,
+    fromState: state,
+    toState: state,
+    performedBy,
+    userRole,
+  };
+}
+
+/**
+ * The prefix of a log recorded at or before `asOf` (empty if the escrow did not exist yet)
+ */
+export function eventsAsOf(events: EscrowEvent[], asOf: Date): EscrowEvent[] {
+  const end = events.findIndex((event) => event.timestamp.getTime() > asOf.getTime());
+  return end === -1 ? [...events] : events.slice(0, end);
+}
+
+/**
+ * The prefix of a log ending with the given event, or null if the log does not contain it
+ */
+export function eventsThrough(events: EscrowEvent[], eventId: string): EscrowEvent[] | null {
+  const index = events.findIndex((event) => event.id === eventId);
+  return index === -1 ? null : events.slice(0, index + 1);
+}
+
 /**
  * Reconstructs escrow state from events
  */
@@ -104,13 +442,7 @@ export function reconstructStateFromEvents(
   events: EscrowEvent[]
 ): {
   state: EscrowState | null;
-  escrow: {
-    id: string;
-    buyerId: string;
-    sellerId: string;
-    amount: number;
-    description: string;
-  } | null;
+  escrow: ReconstructedEscrow | null;
 } {
   if (events.length === 0) {
     return { state: null, escrow: null };
@@ -124,29 +456,102 @@ export function reconstructStateFromEvents(
     return { state: null, escrow: null };
   }
 
-  const escrow = {
+  const escrow: ReconstructedEscrow = {
     id: createdEvent.escrowId,
     buyerId: createdEvent.buyerId,
     sellerId: createdEvent.sellerId,
     amount: createdEvent.amount,
+    currency: createdEvent.currency,
     description: createdEvent.description,
+    ...(createdEvent.milestones
+      ? { milestones: createdEvent.milestones.map((m): MilestoneTerms & { releasedAt?: Date } => ({ ...m })) }
+      : {}),
+    ...(createdEvent.fundingDeadline ? { fundingDeadline: createdEvent.fundingDeadline } : {}),
+    ...(createdEvent.inspectionDeadline ? { inspectionDeadline: createdEvent.inspectionDeadline } : {}),
+    proposedBy: createdEvent.proposedBy ?? UserRole.BUYER,
+    pendingApprovalFrom: getCounterparty(createdEvent.proposedBy ?? UserRole.BUYER),
+    releasedAmount: 0,
+    ...(createdEvent.feeSchedule ? { feeSchedule: createdEvent.feeSchedule } : {}),
   };
 
-  const stateChangeEvents = events.filter(
-    (e) => e.type === EventType.STATE_CHANGED
-  ) as StateChangedEvent[];
-
   // Start with PROPOSED state
   let currentState: EscrowState = EscrowState.PROPOSED;
 
-  // Apply all state changes in order
-  for (const event of stateChangeEvents) {
-    currentState = event.toState;
+  // Apply all state changes, revisions and milestone payouts in order; evidence and
+  // assignments only move the dispute case along
+  for (const event of events) {
+    if (event.type === EventType.TERMS_REVISED) {
+      escrow.amount = event.amount;
+      escrow.description = event.description;
+      if (event.milestones) {
+        escrow.milestones = event.milestones.map((m) => ({ ...m }));
+      }
+      escrow.pendingApprovalFrom = getCounterparty(event.userRole);
+      currentState = event.toState;
+    } else if (event.type === EventType.MILESTONE_RELEASED) {
+      const milestone = escrow.milestones?.find((m) => m.id === event.milestoneId);
+      if (milestone) milestone.releasedAt = event.timestamp;
+      escrow.releasedAmount += event.amount;
+      if (event.payout) escrow.payout = { ...event.payout };
+      trackPayment(escrow, event);
+      currentState = event.toState;
+    } else if (event.type === EventType.EVIDENCE_SUBMITTED) {
+      if (escrow.dispute && event.userRole === UserRole.SELLER) {
+        escrow.dispute = recordSellerResponse(escrow.dispute, event.timestamp);
+      }
+    } else if (event.type === EventType.DISPUTE_ASSIGNED) {
+      if (escrow.dispute) {
+        escrow.dispute = assignDispute(escrow.dispute, event.assignedTo, event.timestamp);
+      }
+    } else if (event.type === EventType.STATE_CHANGED) {
+      if (event.toState !== EscrowState.PROPOSED) {
+        delete escrow.pendingApprovalFrom;
+      }
+      // A full release pays out whatever is still held
+      if ((event.payment?.outcome ?? event.toState) === EscrowState.RELEASED) {
+        for (const milestone of escrow.milestones ?? []) {
+          milestone.releasedAt ??= event.timestamp;
+        }
+        escrow.releasedAmount = escrow.amount;
+      }
+      // A split settlement pays the seller's share and refunds the rest
+      if (event.split) {
+        escrow.settlement = { ...event.split };
+        escrow.releasedAmount += event.split.sellerAmount;
+      }
+      if (event.action === EscrowAction.DISPUTE) {
+        escrow.dispute = openDispute(event.performedBy, event.timestamp, event.reason, event.dispute);
+      } else if (
+        escrow.dispute &&
+        event.fromState === EscrowState.DISPUTED &&
+        event.toState !== EscrowState.DISPUTED
+      ) {
+        escrow.dispute = decideDispute(escrow.dispute, event.performedBy, event.timestamp);
+      }
+      if (event.payout) escrow.payout = { ...event.payout };
+      trackPayment(escrow, event);
+      currentState = event.toState;
+    }
   }
 
   return { state: currentState, escrow };
 }
 
-
-
-
+// A payment request stays pending until the next state change settles it; a
+// declined payout stays owed until it is retried
+function trackPayment(
+  escrow: ReconstructedEscrow,
+  event: StateChangedEvent | MilestoneReleasedEvent
+): void {
+  if (event.payment) {
+    escrow.pendingPayment = { id: event.id, ...event.payment };
+  } else if (
+    event.type === EventType.STATE_CHANGED &&
+    event.action === EscrowAction.FAIL_PAYOUT &&
+    escrow.pendingPayment
+  ) {
+    escrow.pendingPayment = { ...escrow.pendingPayment, declined: true };
+  } else {
+    delete escrow.pendingPayment;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Fee Engine
+ *
+ * Works out what each party receives when an escrow pays out. All amounts are
+ * integer minor units of the escrow's currency; rates are basis points (1/100 of
+ * a percent), so the only rounding is one Math.round per fee.
+ */
+
+export interface FeeCaps {
+  min?: number;
+  max?: number;
+}
+
+export interface FeeTier {
+  // Upper bound of the band, exclusive; null for the last band
+  upTo: number | null;
+  basisPoints: number;
+}
+
+export type FeeRule =
+  | { type: "flat"; amount: number }
+  | ({ type: "percentage"; basisPoints: number } & FeeCaps)
+  // Each tier's rate applies to the part of the amount inside its band
+  | ({ type: "tiered"; tiers: FeeTier[] } & FeeCaps);
+
+export interface FeeSchedule {
+  // Charged to the seller on everything released to them
+  platform?: FeeRule;
+  // Charged on the funds held when a dispute is resolved, to whoever receives them
+  arbitration?: FeeRule;
+}
+
+/**
+ * Itemised payout recorded in the event that ends the escrow.
+ * sellerNet + buyerRefund + platformFee + arbitrationFee always equals the escrow amount.
+ */
+export interface PayoutBreakdown {
+  sellerGross: number;
+  buyerGross: number;
+  platformFee: number;
+  arbitrationFee: number;
+  sellerNet: number;
+  buyerRefund: number;
+}
+
+/**
+ * Evaluates a fee rule on an amount; the fee never exceeds the amount itself
+ */
+export function calculateFee(rule: FeeRule | undefined, amount: number): number {
+  if (!rule || amount <= 0) return 0;
+
+  let fee: number;
+  switch (rule.type) {
+    case "flat":
+      fee = rule.amount;
+      break;
+    case "percentage":
+      fee = Math.round((amount * rule.basisPoints) / 10_000);
+      break;
+    case "tiered": {
+      let scaled = 0;
+      let lower = 0;
+      for (const tier of rule.tiers) {
+        const upper = tier.upTo === null ? amount : Math.min(tier.upTo, amount);
+        if (upper > lower) scaled += (upper - lower) * tier.basisPoints;
+        if (tier.upTo === null || tier.upTo >= amount) break;
+        lower = tier.upTo;
+      }
+      fee = Math.round(scaled / 10_000);
+      break;
+    }
+  }
+
+  if (rule.type !== "flat") {
+    if (rule.min !== undefined) fee = Math.max(fee, rule.min);
+    if (rule.max !== undefined) fee = Math.min(fee, rule.max);
+  }
+  return Math.min(fee, amount);
+}
+
+/**
+ * Splits an escrow's funds between seller, buyer and platform.
+ *
+ * `sellerGross` is everything released to the seller over the escrow's life.
+ * `dispute` is set when a dispute decided the outcome: the amount that was held
+ * and how much of it went to the seller. The arbitration fee is shared in
+ * proportion to what each side received from the disputed funds.
+ */
+export function calculatePayout(
+  schedule: FeeSchedule | undefined,
+  total: number,
+  sellerGross: number,
+  dispute?: { heldAmount: number; sellerAmount: number }
+): PayoutBreakdown {
+  const buyerGross = total - sellerGross;
+  const platformFee = calculateFee(schedule?.platform, sellerGross);
+
+  let sellerArbitration = 0;
+  let buyerArbitration = 0;
+  if (dispute && dispute.heldAmount > 0) {
+    const fee = calculateFee(schedule?.arbitration, dispute.heldAmount);
+    sellerArbitration = Math.min(
+      Math.round((fee * dispute.sellerAmount) / dispute.heldAmount),
+      sellerGross - platformFee
+    );
+    buyerArbitration = Math.min(fee - sellerArbitration, buyerGross);
+  }
+
+  return {
+    sellerGross,
+    buyerGross,
+    platformFee,
+    arbitrationFee: sellerArbitration + buyerArbitration,
+    sellerNet: sellerGross - platformFee - sellerArbitration,
+    buyerRefund: buyerGross - buyerArbitration,
+  };
+}
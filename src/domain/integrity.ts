@@ -0,0 +1,246 @@
+/**
+ * Event Log Integrity
+ *
+ * Replays a log step by step instead of trusting it: every event must leave the
+ * state the escrow was actually in, be a legal move for the recorded role
+ * according to `transitionState`, come from the party it names, and follow the
+ * previous event in time. The fold in `reconstructStateFromEvents` takes each
+ * event at its word, so without this a hand-edited log could produce any state.
+ *
+ * Logs written before acceptance or the payment provider existed fund straight
+ * from PROPOSED or ACCEPTED and pay out without a PAYOUT_PENDING step; those
+ * shapes are accepted.
+ */
+
+import {
+  EscrowAction,
+  EscrowState,
+  PartyRole,
+  TransitionResult,
+  UserRole,
+  getCounterparty,
+  transitionState,
+} from "./escrow-state";
+import { EscrowEvent, EventType, PaymentInstruction } from "./events";
+
+export type IntegrityViolationKind =
+  // The log does not start with ESCROW_CREATED, or has a second one
+  | "invalid_creation"
+  // The event belongs to a different escrow
+  | "wrong_escrow"
+  | "duplicate_event_id"
+  // Recorded, or issued its ID, before the event preceding it
+  | "out_of_order"
+  // The event's fromState is not the state the escrow was in
+  | "state_mismatch"
+  // The state machine does not allow the move
+  | "illegal_transition"
+  // The recorded actor is not the party the role belongs to, not the one whose turn
+  // it was, or not the admin the dispute is assigned to
+  | "wrong_actor"
+  // Found by the store audit: the event does not verify against its escrow's hash chain
+  | "broken_chain"
+  // Found as the log is read: the stored event cannot be upcast to the current schema
+  | "unreadable";
+
+export interface IntegrityViolation {
+  kind: IntegrityViolationKind;
+  // Position of the offending event in the log, starting at 1
+  sequence: number;
+  eventId: string;
+  message: string;
+}
+
+// The action an event records; terms revisions, milestone payouts, evidence and
+// dispute assignments have their own event types
+function actionOf(event: Exclude<EscrowEvent, { type: EventType.ESCROW_CREATED }>): EscrowAction {
+  if (event.type === EventType.TERMS_REVISED) return EscrowAction.COUNTER_PROPOSE;
+  if (event.type === EventType.MILESTONE_RELEASED) return EscrowAction.RELEASE_MILESTONE;
+  if (event.type === EventType.EVIDENCE_SUBMITTED) return EscrowAction.SUBMIT_EVIDENCE;
+  if (event.type === EventType.DISPUTE_ASSIGNED) return EscrowAction.ASSIGN_DISPUTE;
+  return event.action;
+}
+
+// Event IDs embed the millisecond they were issued at; IDs of any other shape are not compared
+function issuedAt(eventId: string): number | null {
+  const match = /^evt_(\d+)_/.exec(eventId);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * States a legal move can record as its toState. A step that waits on the
+ * payment provider may also land directly on the state the payment leads to:
+ * when nothing is owed after fees, and in logs from before the provider existed.
+ */
+function reachableStates(action: EscrowAction, transition: TransitionResult): EscrowState[] {
+  const newState = transition.newState!;
+  const states = [newState];
+  if (transition.outcome) states.push(transition.outcome);
+  if (newState === EscrowState.FUNDING_PENDING) states.push(EscrowState.FUNDED);
+  // The last milestone releases the escrow
+  if (action === EscrowAction.RELEASE_MILESTONE) states.push(EscrowState.RELEASED);
+  return states;
+}
+
+/**
+ * Checks an escrow's event log and lists everything wrong with it, in log
+ * order; an empty list means the log is sound. Checking carries on from each
+ * event's recorded toState, so every bad event in a log is reported, along with
+ * the events that no longer follow from it.
+ */
+export function validateEventLog(events: EscrowEvent[]): IntegrityViolation[] {
+  const violations: IntegrityViolation[] = [];
+  if (events.length === 0) return violations;
+
+  const created = events[0];
+  if (created.type !== EventType.ESCROW_CREATED) {
+    return [
+      {
+        kind: "invalid_creation",
+        sequence: 1,
+        eventId: created.id,
+        message: `The log starts with ${created.type} instead of ${EventType.ESCROW_CREATED}`,
+      },
+    ];
+  }
+
+  const parties: Record<PartyRole, string> = {
+    [UserRole.BUYER]: created.buyerId,
+    [UserRole.SELLER]: created.sellerId,
+  };
+  const seen = new Set<string>();
+  let state = EscrowState.PROPOSED;
+  let pendingApprovalFrom: PartyRole | undefined = getCounterparty(created.proposedBy ?? UserRole.BUYER);
+  let pendingPayment: PaymentInstruction | undefined;
+  // Disputes raised before assignment existed were decided by any admin
+  let assignedTo: string | undefined;
+  // Cleared once the seller responds; disputes raised before response windows existed have none
+  let sellerResponseDeadline: Date | undefined;
+  let previous: EscrowEvent | undefined;
+
+  events.forEach((event, index) => {
+    const report = (kind: IntegrityViolationKind, message: string) =>
+      violations.push({ kind, sequence: index + 1, eventId: event.id, message });
+
+    if (seen.has(event.id)) {
+      report("duplicate_event_id", `Event ID ${event.id} appears earlier in the log`);
+    }
+    seen.add(event.id);
+
+    if (event.escrowId !== created.escrowId) {
+      report("wrong_escrow", `The event belongs to escrow ${event.escrowId}, not ${created.escrowId}`);
+    }
+
+    if (Number.isNaN(event.timestamp.getTime())) {
+      report("out_of_order", "The event has no valid timestamp");
+    } else if (previous && event.timestamp.getTime() < previous.timestamp.getTime()) {
+      report(
+        "out_of_order",
+        `Recorded at ${event.timestamp.toISOString()}, before the previous event (${previous.timestamp.toISOString()})`
+      );
+    } else if (previous) {
+      const issued = issuedAt(event.id);
+      const previousIssued = issuedAt(previous.id);
+      if (issued !== null && previousIssued !== null && issued < previousIssued) {
+        report("out_of_order", `Event ID ${event.id} was issued before the previous event's ID ${previous.id}`);
+      }
+    }
+    previous = event;
+
+    if (event.type === EventType.ESCROW_CREATED) {
+      if (index > 0) report("invalid_creation", "The escrow is created a second time");
+      return;
+    }
+
+    if (event.fromState !== state) {
+      report("state_mismatch", `Recorded as leaving ${event.fromState}, but the escrow was ${state}`);
+    }
+
+    const action = actionOf(event);
+    // Before acceptance existed the buyer funded straight from PROPOSED
+    const legacyFunding =
+      action === EscrowAction.FUND && state === EscrowState.PROPOSED && created.proposedBy === undefined;
+    const transition = transitionState(legacyFunding ? EscrowState.ACCEPTED : state, action, event.userRole);
+
+    if (!transition.success) {
+      report("illegal_transition", transition.error!);
+    } else if (action === EscrowAction.CONFIRM_PAYOUT) {
+      if (pendingPayment?.kind !== "payout") {
+        report("illegal_transition", "A payout is confirmed without one pending");
+      } else if (event.toState !== pendingPayment.outcome) {
+        report(
+          "illegal_transition",
+          `The payout was requested to reach ${pendingPayment.outcome}, but its confirmation records ${event.toState}`
+        );
+      }
+    } else if (action === EscrowAction.FAIL_PAYOUT && pendingPayment?.kind !== "payout") {
+      report("illegal_transition", "A payout is declined without one pending");
+    } else if (action === EscrowAction.RETRY_PAYOUT && pendingPayment) {
+      report("illegal_transition", "A payout is retried before it was declined");
+    } else if (!reachableStates(action, transition).includes(event.toState)) {
+      report("illegal_transition", `${action} from ${state} cannot lead to ${event.toState}`);
+    }
+
+    const role = event.userRole;
+    if ((role === UserRole.BUYER || role === UserRole.SELLER) && event.performedBy !== parties[role]) {
+      report(
+        "wrong_actor",
+        `${event.performedBy} acted as the ${role.toLowerCase()}, but the ${role.toLowerCase()} is ${parties[role]}`
+      );
+    }
+    if (
+      (action === EscrowAction.ACCEPT ||
+        action === EscrowAction.REJECT ||
+        action === EscrowAction.COUNTER_PROPOSE) &&
+      pendingApprovalFrom &&
+      role !== pendingApprovalFrom
+    ) {
+      report("wrong_actor", `The ${role.toLowerCase()} responded while the terms awaited the ${pendingApprovalFrom.toLowerCase()}`);
+    }
+    if (
+      (action === EscrowAction.RESOLVE_DISPUTE_RELEASE ||
+        action === EscrowAction.RESOLVE_DISPUTE_REFUND ||
+        action === EscrowAction.RESOLVE_DISPUTE_SPLIT) &&
+      assignedTo &&
+      event.performedBy !== assignedTo
+    ) {
+      report("wrong_actor", `${event.performedBy} resolved a dispute assigned to ${assignedTo}`);
+    }
+    if (
+      (action === EscrowAction.ASSIGN_DISPUTE ||
+        action === EscrowAction.RESOLVE_DISPUTE_RELEASE ||
+        action === EscrowAction.RESOLVE_DISPUTE_REFUND ||
+        action === EscrowAction.RESOLVE_DISPUTE_SPLIT) &&
+      sellerResponseDeadline &&
+      event.timestamp.getTime() < sellerResponseDeadline.getTime()
+    ) {
+      report(
+        "illegal_transition",
+        `The dispute was taken up before the seller's response window closed at ${sellerResponseDeadline.toISOString()}`
+      );
+    }
+    if (event.type === EventType.DISPUTE_ASSIGNED && assignedTo && event.performedBy !== assignedTo) {
+      report("wrong_actor", `${event.performedBy} took over a dispute assigned to ${assignedTo}`);
+    }
+    if (action === EscrowAction.REFUND && state === EscrowState.DISPUTED && assignedTo) {
+      report("wrong_actor", `The seller refunded a dispute already under review by ${assignedTo}`);
+    }
+
+    state = event.toState;
+    if (event.type === EventType.TERMS_REVISED) {
+      pendingApprovalFrom = getCounterparty(event.userRole);
+    } else if (event.type === EventType.DISPUTE_ASSIGNED) {
+      assignedTo = event.assignedTo;
+    } else if (event.type === EventType.EVIDENCE_SUBMITTED) {
+      if (event.userRole === UserRole.SELLER) sellerResponseDeadline = undefined;
+    } else {
+      if (event.type === EventType.STATE_CHANGED && event.action === EscrowAction.DISPUTE) {
+        sellerResponseDeadline = event.dispute?.sellerResponseDeadline;
+      }
+      if (state !== EscrowState.PROPOSED) pendingApprovalFrom = undefined;
+      pendingPayment = event.payment;
+    }
+  });
+
+  return violations;
+}
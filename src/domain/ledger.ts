@@ -0,0 +1,195 @@
+/**
+ * Double-entry Ledger
+ *
+ * Tracks where an escrow's money sits. Every event that moves money produces one
+ * balanced journal entry carrying the event's ID; like any other view of an
+ * escrow, the ledger is derived from the event log. Money moves when the payment
+ * provider confirms it, so the entry belongs to the confirming event.
+ *
+ * Each line pair moves money from one account to another: the receiving account
+ * is debited and the paying account credited, so an account's balance (debits
+ * minus credits) is the money it holds. Buyer accounts go negative by what the
+ * buyer paid in.
+ */
+
+import { EscrowAction, EscrowState } from "./escrow-state";
+import {
+  EscrowCreatedEvent,
+  EscrowEvent,
+  EventType,
+  MilestoneReleasedEvent,
+  StateChangedEvent,
+} from "./events";
+import { PayoutBreakdown, calculatePayout } from "./fees";
+import { CurrencyCode } from "./money";
+
+export const PLATFORM_FEES_ACCOUNT = "platform:fees";
+
+export const buyerAccount = (userId: string) => `buyer:${userId}`;
+export const sellerAccount = (userId: string) => `seller:${userId}`;
+// Holds an escrow's funds between funding and payout
+export const holdingAccount = (escrowId: string) => `escrow:${escrowId}`;
+
+export interface JournalLine {
+  accountId: string;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntry {
+  // One entry per event, so the entry shares the event's ID
+  id: string;
+  eventId: string;
+  escrowId: string;
+  currency: CurrencyCode;
+  timestamp: Date;
+  memo: string;
+  lines: JournalLine[];
+}
+
+export interface AccountBalance {
+  accountId: string;
+  currency: CurrencyCode;
+  // Minor units; debits minus credits
+  balance: number;
+}
+
+/**
+ * Returns true if the entry's debits equal its credits
+ */
+export function isBalanced(entry: JournalEntry): boolean {
+  const debits = entry.lines.reduce((sum, line) => sum + line.debit, 0);
+  const credits = entry.lines.reduce((sum, line) => sum + line.credit, 0);
+  return debits === credits;
+}
+
+function transfer(from: string, to: string, amount: number): JournalLine[] {
+  if (amount === 0) return [];
+  return [
+    { accountId: to, debit: amount, credit: 0 },
+    { accountId: from, debit: 0, credit: amount },
+  ];
+}
+
+/**
+ * Journal entries for one escrow's event log, in event order
+ */
+export function journalEntriesFor(events: EscrowEvent[]): JournalEntry[] {
+  const created = events.find((e) => e.type === EventType.ESCROW_CREATED) as
+    | EscrowCreatedEvent
+    | undefined;
+  if (!created) return [];
+
+  const holding = holdingAccount(created.escrowId);
+  const buyer = buyerAccount(created.buyerId);
+  const seller = sellerAccount(created.sellerId);
+
+  let amount = created.amount;
+  // Paid to the seller by earlier milestone releases
+  let released = 0;
+  const entries: JournalEntry[] = [];
+
+  const post = (event: EscrowEvent, memo: string, lines: JournalLine[]) => {
+    if (lines.length === 0) return;
+    entries.push({
+      id: event.id,
+      eventId: event.id,
+      escrowId: created.escrowId,
+      currency: created.currency,
+      timestamp: event.timestamp,
+      memo,
+      lines,
+    });
+  };
+
+  // Empties the holding account: the rest of the seller's share, the buyer's refund, then fees
+  const settle = (payout: PayoutBreakdown): JournalLine[] => {
+    const sellerArbitration = payout.sellerGross - payout.platformFee - payout.sellerNet;
+    const buyerArbitration = payout.buyerGross - payout.buyerRefund;
+    return [
+      ...transfer(holding, seller, payout.sellerGross - released),
+      ...transfer(holding, buyer, payout.buyerGross),
+      ...transfer(seller, PLATFORM_FEES_ACCOUNT, payout.platformFee + sellerArbitration),
+      ...transfer(buyer, PLATFORM_FEES_ACCOUNT, buyerArbitration),
+    ];
+  };
+
+  // The payout request awaiting the provider's confirmation
+  let requested: StateChangedEvent | MilestoneReleasedEvent | undefined;
+
+  for (const event of events) {
+    if (event.type === EventType.TERMS_REVISED) {
+      amount = event.amount;
+      continue;
+    }
+    if (
+      event.type === EventType.ESCROW_CREATED ||
+      event.type === EventType.EVIDENCE_SUBMITTED ||
+      event.type === EventType.DISPUTE_ASSIGNED
+    ) {
+      continue;
+    }
+
+    if (event.toState === EscrowState.PAYOUT_PENDING) {
+      // A declined or retried payout still settles what was first requested
+      if (event.fromState !== EscrowState.PAYOUT_PENDING) requested = event;
+      continue;
+    }
+    // Logs from before payment providers existed move money on the action itself
+    const source =
+      event.type === EventType.STATE_CHANGED && event.action === EscrowAction.CONFIRM_PAYOUT
+        ? requested
+        : event;
+    if (!source) continue;
+
+    if (source.type === EventType.MILESTONE_RELEASED) {
+      if (source.payout) {
+        post(event, `Final milestone ${source.milestoneId} released`, settle(source.payout));
+      } else {
+        post(event, `Milestone ${source.milestoneId} released`, transfer(holding, seller, source.amount));
+      }
+      released += source.amount;
+    } else if (
+      event.toState === EscrowState.FUNDED &&
+      (source.action === EscrowAction.CONFIRM_FUNDING || source.action === EscrowAction.FUND)
+    ) {
+      post(event, "Escrow funded", transfer(buyer, holding, amount));
+    } else if (
+      event.toState === EscrowState.RELEASED ||
+      event.toState === EscrowState.REFUNDED ||
+      event.toState === EscrowState.SETTLED
+    ) {
+      // Logs from before fees existed carry no payout: everything moves fee-free
+      const sellerGross =
+        event.toState === EscrowState.RELEASED
+          ? amount
+          : released + (source.split?.sellerAmount ?? 0);
+      const payout = source.payout ?? calculatePayout(undefined, amount, sellerGross);
+      post(event, `Escrow ${event.toState.toLowerCase()}`, settle(payout));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Sums entries into per-account, per-currency balances, ordered by account
+ */
+export function computeBalances(entries: JournalEntry[]): AccountBalance[] {
+  const balances = new Map<string, AccountBalance>();
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      const key = `${line.accountId}|${entry.currency}`;
+      const current = balances.get(key) ?? {
+        accountId: line.accountId,
+        currency: entry.currency,
+        balance: 0,
+      };
+      current.balance += line.debit - line.credit;
+      balances.set(key, current);
+    }
+  }
+  return [...balances.values()].sort(
+    (a, b) => a.accountId.localeCompare(b.accountId) || a.currency.localeCompare(b.currency)
+  );
+}
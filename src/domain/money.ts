@@ -0,0 +1,66 @@
+/**
+ * Money
+ *
+ * Amounts are integers in the currency's minor unit (cents for USD, yen for JPY),
+ * so sums and splits never go through floating point. Conversion from and to the
+ * decimal strings clients see happens only at the API boundary.
+ */
+
+// Supported ISO 4217 codes and the number of digits after their decimal point
+export const CURRENCY_EXPONENTS = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CHF: 2,
+  CAD: 2,
+  AUD: 2,
+  JPY: 0,
+  KWD: 3,
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCY_EXPONENTS;
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_EXPONENTS) as [CurrencyCode, ...CurrencyCode[]];
+
+export function isSupportedCurrency(code: string): code is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(CURRENCY_EXPONENTS, code);
+}
+
+/**
+ * Number of decimal places the currency allows
+ */
+export function getExponent(currency: CurrencyCode): number {
+  return CURRENCY_EXPONENTS[currency];
+}
+
+/**
+ * Converts a major-unit amount (12.5 or "12.50") to integer minor units.
+ * Returns null if the value is not a plain decimal or has more decimal places
+ * than the currency allows.
+ */
+export function toMinorUnits(value: number | string, currency: CurrencyCode): number | null {
+  const text = typeof value === "number" ? String(value) : value.trim();
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) return null;
+
+  const [, sign, whole, fraction = ""] = match;
+  const exponent = getExponent(currency);
+  // Trailing zeros beyond the currency's precision are harmless ("5.00" JPY)
+  const significant = fraction.replace(/0+$/, "");
+  if (significant.length > exponent) return null;
+
+  const minor = Number(whole + significant.padEnd(exponent, "0"));
+  if (!Number.isSafeInteger(minor)) return null;
+  return sign && minor !== 0 ? -minor : minor;
+}
+
+/**
+ * Formats minor units as a decimal string with the currency's precision ("12.30", "1500")
+ */
+export function formatMinorUnits(minor: number, currency: CurrencyCode): string {
+  const exponent = getExponent(currency);
+  const digits = Math.abs(minor).toString().padStart(exponent + 1, "0");
+  const whole = digits.slice(0, digits.length - exponent);
+  const fraction = digits.slice(digits.length - exponent);
+  return `${minor < 0 ? "-" : ""}${whole}${exponent > 0 ? `.${fraction}` : ""}`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Server startup hook
+ *
+ * Starts the deadline scheduler, the payment sync, the outbox dispatcher and
+ * webhook delivery in the Node.js runtime.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { escrowStore } = await import("@/storage/escrow-store");
+  const { startDeadlineScheduler } = await import("@/lib/deadline-scheduler");
+  startDeadlineScheduler(escrowStore);
+
+  const { getPaymentProvider } = await import("@/lib/payment-provider");
+  const { startPaymentSync } = await import("@/lib/payment-processor");
+  startPaymentSync(escrowStore, getPaymentProvider());
+
+  const { webhookStore } = await import("@/storage/webhook-store");
+  const { createWebhookConsumer, startWebhookDispatcher } = await import("@/lib/webhooks");
+  const { registerOutboxConsumer, startOutboxDispatcher } = await import("@/lib/outbox-dispatcher");
+  registerOutboxConsumer(createWebhookConsumer(escrowStore, webhookStore));
+  startOutboxDispatcher(escrowStore);
+  startWebhookDispatcher(webhookStore);
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the deadline scheduler
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { SYSTEM_ACTOR, applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction, EscrowState, UserRole } from "@/domain/escrow-state";
+import { DisputeCategory } from "@/domain/disputes";
+import { EventType } from "@/domain/events";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { createEscrowRepository } from "@/storage/escrow-store";
+import { runDeadlineScan } from "../deadline-scheduler";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+const past = () => new Date(Date.now() - 60_000);
+const future = () => new Date(Date.now() + 60 * 60_000);
+
+describe("Deadline Scheduler", () => {
+  let repository: EscrowRepository;
+
+  function seed(id: string, deadlines: { fundingDeadline?: Date; inspectionDeadline?: Date }, fund = false) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 500, "USD", "Deadline test", undefined, deadlines);
+    repository.create(event);
+    if (fund) {
+      const accept = applyAction(escrow, EscrowAction.ACCEPT, seller);
+      const accepted = repository.appendEvents(id, [accept.event!], escrow.version);
+      const fund = applyAction(accepted, EscrowAction.FUND, buyer);
+      const funding = repository.appendEvents(id, [fund.event!], accepted.version);
+      const confirm = applyAction(funding, EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR);
+      repository.appendEvents(id, [confirm.event!], funding.version);
+    }
+  }
+
+  beforeEach(() => {
+    repository = createEscrowRepository(
+      "json",
+      fs.mkdtempSync(path.join(os.tmpdir(), "escrow-scheduler-"))
+    );
+  });
+
+  it("should expire unfunded escrows and auto-release funded ones whose deadlines passed", () => {
+    seed("expire-me", { fundingDeadline: past() });
+    seed("release-me", { inspectionDeadline: past() }, true);
+    seed("not-yet", { fundingDeadline: future(), inspectionDeadline: future() });
+    seed("no-deadline", {}, true);
+
+    const result = runDeadlineScan(repository);
+
+    expect(result).toEqual({ expired: ["expire-me"], released: ["release-me"], skipped: [] });
+    expect(repository.getById("expire-me")?.currentState).toBe(EscrowState.EXPIRED);
+    // The payment sync pays the seller out
+    expect(repository.getById("release-me")?.currentState).toBe(EscrowState.PAYOUT_PENDING);
+    expect(repository.getById("release-me")?.pendingPayment?.outcome).toBe(EscrowState.RELEASED);
+    expect(repository.getById("not-yet")?.currentState).toBe(EscrowState.PROPOSED);
+    expect(repository.getById("no-deadline")?.currentState).toBe(EscrowState.FUNDED);
+
+    const lastEvent = repository.getById("release-me")!.events.at(-1)!;
+    expect(lastEvent.type).toBe(EventType.STATE_CHANGED);
+    expect(lastEvent.type === EventType.STATE_CHANGED && lastEvent.performedBy).toBe("system");
+    expect(lastEvent.type === EventType.STATE_CHANGED && lastEvent.userRole).toBe(UserRole.SYSTEM);
+  });
+
+  it("should leave disputed escrows alone even after the inspection deadline", () => {
+    seed("disputed", { inspectionDeadline: past() }, true);
+    const funded = repository.getById("disputed")!;
+    const disputed = applyAction(funded, EscrowAction.DISPUTE, buyer, {
+      dispute: { category: DisputeCategory.NOT_RECEIVED },
+    });
+    repository.appendEvents("disputed", [disputed.event!], funded.version);
+
+    expect(runDeadlineScan(repository).released).toEqual([]);
+    expect(repository.getById("disputed")?.currentState).toBe(EscrowState.DISPUTED);
+  });
+
+  it("should be idempotent across repeated scans", () => {
+    seed("expire-me", { fundingDeadline: past() });
+
+    runDeadlineScan(repository);
+    const second = runDeadlineScan(repository);
+
+    expect(second.expired).toEqual([]);
+    expect(repository.getById("expire-me")?.events).toHaveLength(2);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the live event streams and the SSE wire format
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { applyAction, createEscrow, toSnapshot } from "@/domain/escrow";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { createEscrowRepository } from "@/storage/escrow-store";
+import { createEscrowEventStream, createParticipantEventStream } from "../event-stream";
+import { SseMessage, createSseParser, formatSseMessage } from "../sse";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+
+// Reads messages off a stream until `count` have arrived, then disconnects
+async function readMessages(stream: ReadableStream<Uint8Array>, count: number): Promise<SseMessage[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const parse = createSseParser();
+  const messages: SseMessage[] = [];
+  while (messages.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    messages.push(...parse(decoder.decode(value, { stream: true })));
+  }
+  await reader.cancel();
+  return messages;
+}
+
+describe("Event Streams", () => {
+  let repository: EscrowRepository;
+
+  function seed(id: string, buyerId = "buyer-1") {
+    const { event } = createEscrow(id, buyerId, "seller-1", 1000, "USD", "Stream test");
+    repository.create(event);
+  }
+
+  function act(id: string, action: EscrowAction, actor = seller) {
+    const escrow = repository.getById(id)!;
+    const result = applyAction(toSnapshot(escrow), action, actor);
+    expect(result.success).toBe(true);
+    repository.appendEvents(id, [result.event!], escrow.version);
+  }
+
+  beforeEach(() => {
+    repository = createEscrowRepository(
+      "json",
+      fs.mkdtempSync(path.join(os.tmpdir(), "escrow-stream-"))
+    );
+  });
+
+  it("should push events appended to an escrow after connecting", async () => {
+    seed("s-1");
+    const stream = createEscrowEventStream(repository, "s-1", "USD", { pollIntervalMs: 5 });
+
+    const reading = readMessages(stream, 2);
+    act("s-1", EscrowAction.ACCEPT);
+    act("s-1", EscrowAction.FUND, buyer);
+    const messages = await reading;
+
+    expect(messages.map((m) => m.id)).toEqual(["2", "3"]);
+    expect(JSON.parse(messages[1].data)).toMatchObject({
+      escrowId: "s-1",
+      sequence: 3,
+      event: { toState: EscrowState.FUNDING_PENDING },
+    });
+  });
+
+  it("should resume an escrow stream after Last-Event-ID", async () => {
+    seed("s-1");
+    act("s-1", EscrowAction.ACCEPT);
+    act("s-1", EscrowAction.FUND, buyer);
+
+    const messages = await readMessages(
+      createEscrowEventStream(repository, "s-1", "USD", { lastEventId: "1", pollIntervalMs: 5 }),
+      2
+    );
+
+    expect(messages.map((m) => m.id)).toEqual(["2", "3"]);
+  });
+
+  it("should only push the escrows a participant takes part in, resuming by outbox offset", async () => {
+    seed("s-1");
+    seed("s-2", "buyer-2");
+    act("s-2", EscrowAction.ACCEPT);
+    act("s-1", EscrowAction.ACCEPT);
+
+    const messages = await readMessages(
+      createParticipantEventStream(repository, buyer, { lastEventId: "0", pollIntervalMs: 5 }),
+      2
+    );
+
+    expect(messages.map((m) => [m.id, JSON.parse(m.data).escrowId])).toEqual([
+      ["1", "s-1"],
+      ["4", "s-1"],
+    ]);
+  });
+
+  it("should push every escrow to admins from the present when no Last-Event-ID is sent", async () => {
+    seed("s-1");
+    const stream = createParticipantEventStream(
+      repository,
+      { userId: "admin", isAdmin: true },
+      { pollIntervalMs: 5 }
+    );
+
+    const reading = readMessages(stream, 1);
+    seed("s-2", "buyer-2");
+    const [message] = await reading;
+
+    expect(message.id).toBe("2");
+    expect(JSON.parse(message.data).escrowId).toBe("s-2");
+  });
+
+  it("should parse messages split across chunks", () => {
+    const parse = createSseParser();
+    const text = `: keepalive\n\nretry: 3000\n\n${formatSseMessage({ id: "7", data: "line one\nline two" })}`;
+
+    expect(parse(text.slice(0, 30))).toEqual([]);
+    expect(parse(text.slice(30))).toEqual([{ id: "7", data: "line one\nline two" }]);
+  });
+});
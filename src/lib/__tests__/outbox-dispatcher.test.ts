@@ -0,0 +1,87 @@
+/**
+ * Unit tests for draining the outbox to consumers
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { EscrowRepository, OutboxEntry } from "@/storage/escrow-repository";
+import { createEscrowRepository } from "@/storage/escrow-store";
+import { OutboxConsumer, rewindConsumer, runOutboxDispatch } from "../outbox-dispatcher";
+
+const seller = { userId: "seller-1", isAdmin: false };
+
+describe("Outbox Dispatcher", () => {
+  let repository: EscrowRepository;
+
+  // Records what it receives; throws on entries `fail` rejects
+  function recorder(name: string, fail: (entry: OutboxEntry) => boolean = () => false) {
+    const received: string[] = [];
+    const consumer: OutboxConsumer = {
+      name,
+      handle(entry) {
+        if (fail(entry)) throw new Error(`Cannot handle ${entry.offset}`);
+        received.push(`${entry.escrowId}#${entry.sequence}`);
+      },
+    };
+    return { consumer, received };
+  }
+
+  function seed(id: string) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 1000, "USD", "Dispatch test");
+    repository.create(event);
+    const accept = applyAction(escrow, EscrowAction.ACCEPT, seller);
+    repository.appendEvents(id, [accept.event!], escrow.version);
+  }
+
+  beforeEach(() => {
+    repository = createEscrowRepository(
+      "json",
+      fs.mkdtempSync(path.join(os.tmpdir(), "escrow-outbox-dispatch-"))
+    );
+  });
+
+  it("should deliver every entry in order and remember how far each consumer got", async () => {
+    const { consumer, received } = recorder("audit");
+    seed("d-1");
+    seed("d-2");
+
+    expect(await runOutboxDispatch(repository, [consumer])).toEqual([
+      { consumer: "audit", delivered: [1, 2, 3, 4] },
+    ]);
+    expect(received).toEqual(["d-1#1", "d-1#2", "d-2#1", "d-2#2"]);
+    expect(repository.getConsumerOffset("audit")).toBe(4);
+
+    expect((await runOutboxDispatch(repository, [consumer]))[0].delivered).toEqual([]);
+  });
+
+  it("should stop a failing consumer and deliver the same entry again on the next run", async () => {
+    let failing = true;
+    const flaky = recorder("flaky", (entry) => failing && entry.offset === 2);
+    const steady = recorder("steady");
+    seed("d-1");
+
+    const [first, second] = await runOutboxDispatch(repository, [flaky.consumer, steady.consumer]);
+    expect(first).toEqual({ consumer: "flaky", delivered: [1], error: "Cannot handle 2" });
+    expect(second.delivered).toEqual([1, 2]);
+
+    failing = false;
+    await runOutboxDispatch(repository, [flaky.consumer]);
+    expect(flaky.received).toEqual(["d-1#1", "d-1#2"]);
+  });
+
+  it("should replay from a stored offset after a rewind", async () => {
+    const { consumer, received } = recorder("audit");
+    seed("d-1");
+    await runOutboxDispatch(repository, [consumer]);
+
+    rewindConsumer(repository, "audit", 1);
+    await runOutboxDispatch(repository, [consumer]);
+
+    expect(received).toEqual(["d-1#1", "d-1#2", "d-1#2"]);
+    expect(() => rewindConsumer(repository, "audit", 3)).toThrow(RangeError);
+  });
+});
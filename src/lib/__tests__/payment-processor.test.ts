@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the payment processor and the mock payment gateway
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { applyAction, createEscrow, toSnapshot } from "@/domain/escrow";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EventType } from "@/domain/events";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { createEscrowRepository } from "@/storage/escrow-store";
+import { checkLedger } from "@/storage/ledger";
+import { MockOutcome, MockPaymentGateway } from "../mock-payment-gateway";
+import { processPayment, runPaymentSync } from "../payment-processor";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+const admin = { userId: "admin", isAdmin: true };
+
+describe("Payment Processor", () => {
+  let repository: EscrowRepository;
+  let now: Date;
+
+  const gateway = (outcome: MockOutcome) =>
+    new MockPaymentGateway({ outcome: () => outcome, settlementDelayMs: 1000, now: () => now });
+
+  // Appends the action's event; the payment it requests is left to the test
+  function act(id: string, action: EscrowAction, actor = buyer) {
+    const escrow = repository.getById(id)!;
+    const result = applyAction(toSnapshot(escrow), action, actor);
+    expect(result.success).toBe(true);
+    return repository.appendEvents(id, [result.event!], escrow.version);
+  }
+
+  function seedAccepted(id: string) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 2500, "USD", "Payment test");
+    repository.create(event);
+    const accept = applyAction(escrow, EscrowAction.ACCEPT, seller);
+    repository.appendEvents(id, [accept.event!], escrow.version);
+  }
+
+  beforeEach(() => {
+    now = new Date("2026-01-01T00:00:00Z");
+    repository = createEscrowRepository(
+      "json",
+      fs.mkdtempSync(path.join(os.tmpdir(), "escrow-payments-"))
+    );
+  });
+
+  it("should charge the buyer and pay the seller out, recording the provider references", async () => {
+    const provider = gateway("succeed");
+    seedAccepted("p-1");
+
+    act("p-1", EscrowAction.FUND);
+    expect(await processPayment(repository, provider, "p-1")).toBe("confirmed");
+    expect(repository.getById("p-1")?.currentState).toBe(EscrowState.FUNDED);
+
+    act("p-1", EscrowAction.RELEASE, seller);
+    expect(await processPayment(repository, provider, "p-1")).toBe("confirmed");
+
+    const escrow = repository.getById("p-1")!;
+    expect(escrow.currentState).toBe(EscrowState.RELEASED);
+    const confirmations = escrow.events.flatMap((e) =>
+      e.type === EventType.STATE_CHANGED && e.paymentReference ? [e.paymentReference] : []
+    );
+    expect(confirmations).toEqual(
+      provider.listRequests().map((request) => `mock_${request.kind}_${request.id}`)
+    );
+  });
+
+  it("should return the escrow to ACCEPTED when the charge is declined", async () => {
+    seedAccepted("p-1");
+    act("p-1", EscrowAction.FUND);
+
+    expect(await processPayment(repository, gateway("decline"), "p-1")).toBe("declined");
+
+    const escrow = repository.getById("p-1")!;
+    expect(escrow.currentState).toBe(EscrowState.ACCEPTED);
+    const last = escrow.events.at(-1)!;
+    expect(last.type === EventType.STATE_CHANGED && last.reason).toBe(
+      "Payment declined: Declined by the mock gateway"
+    );
+  });
+
+  it("should record a declined payout and pay it out once an admin retries it", async () => {
+    seedAccepted("p-1");
+    act("p-1", EscrowAction.FUND);
+    await processPayment(repository, gateway("succeed"), "p-1");
+    act("p-1", EscrowAction.RELEASE, seller);
+    const requestId = repository.getById("p-1")!.pendingPayment!.id;
+
+    // The gateway declines every payout the first time it sees it
+    const provider = new MockPaymentGateway({
+      outcome: (request) => (request.id === requestId ? "decline" : "succeed"),
+    });
+    expect(await processPayment(repository, provider, "p-1")).toBe("declined");
+
+    let escrow = repository.getById("p-1")!;
+    expect(escrow.currentState).toBe(EscrowState.PAYOUT_PENDING);
+    expect(escrow.pendingPayment).toMatchObject({ id: requestId, declined: true });
+    expect(escrow.events.at(-1)).toMatchObject({
+      action: EscrowAction.FAIL_PAYOUT,
+      reason: "Payment declined: Declined by the mock gateway",
+    });
+    expect((await runPaymentSync(repository, provider)).declined).toEqual(["p-1"]);
+    expect(repository.getById("p-1")!.events).toHaveLength(escrow.events.length);
+
+    act("p-1", EscrowAction.RETRY_PAYOUT, admin);
+    expect(repository.getById("p-1")!.pendingPayment?.id).not.toBe(requestId);
+    expect(await processPayment(repository, provider, "p-1")).toBe("confirmed");
+
+    escrow = repository.getById("p-1")!;
+    expect(escrow.currentState).toBe(EscrowState.RELEASED);
+    expect(provider.listRequests()).toHaveLength(2);
+    expect(checkLedger(repository).consistent).toBe(true);
+  });
+
+  it("should only retry a payout the provider declined", async () => {
+    seedAccepted("p-1");
+    act("p-1", EscrowAction.FUND);
+    await processPayment(repository, gateway("succeed"), "p-1");
+    const releasing = act("p-1", EscrowAction.RELEASE, seller);
+
+    expect(applyAction(toSnapshot(releasing), EscrowAction.RETRY_PAYOUT, admin).error).toBe(
+      "Only a declined payout can be retried"
+    );
+  });
+
+  it("should confirm delayed settlements on a later sync", async () => {
+    const provider = gateway("delay");
+    seedAccepted("p-1");
+    act("p-1", EscrowAction.FUND);
+
+    expect(await processPayment(repository, provider, "p-1")).toBe("pending");
+    expect(await runPaymentSync(repository, provider)).toEqual({
+      confirmed: [],
+      declined: [],
+      pending: ["p-1"],
+      skipped: [],
+    });
+
+    now = new Date(now.getTime() + 1000);
+    expect((await runPaymentSync(repository, provider)).confirmed).toEqual(["p-1"]);
+    expect(repository.getById("p-1")?.currentState).toBe(EscrowState.FUNDED);
+  });
+
+  it("should submit payments the provider has never seen", async () => {
+    const provider = gateway("succeed");
+    seedAccepted("p-1");
+    act("p-1", EscrowAction.FUND);
+
+    expect((await runPaymentSync(repository, provider)).confirmed).toEqual(["p-1"]);
+    expect(provider.listRequests()).toEqual([
+      expect.objectContaining({
+        kind: "charge",
+        escrowId: "p-1",
+        currency: "USD",
+        transfers: [{ userId: "buyer-1", amount: 2500 }],
+      }),
+    ]);
+  });
+
+  it("should record each payment once, however often it is processed", async () => {
+    const provider = gateway("succeed");
+    seedAccepted("p-1");
+    act("p-1", EscrowAction.FUND);
+
+    await processPayment(repository, provider, "p-1");
+    expect(await processPayment(repository, provider, "p-1")).toBe("skipped");
+    await runPaymentSync(repository, provider);
+
+    expect(repository.getById("p-1")?.events).toHaveLength(4);
+    expect(provider.listRequests()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Unit tests for webhook delivery, against a local receiver
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import fs from "node:fs";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { applyAction, createEscrow, toSnapshot } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { EventType } from "@/domain/events";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { createEscrowRepository } from "@/storage/escrow-store";
+import { WebhookStore, createWebhookStore } from "@/storage/webhook-store";
+import { runOutboxDispatch } from "../outbox-dispatcher";
+import {
+  SIGNATURE_HEADER,
+  checkWebhookTarget,
+  createWebhookConsumer,
+  formatSignatureHeader,
+  retryDelayMs,
+  runWebhookDispatch,
+  sendWebhookRequest,
+  verifySignature,
+  WebhookRequest,
+} from "../webhooks";
+
+const SECRET = "test-webhook-secret";
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+
+interface Received {
+  body: string;
+  signature: string;
+  eventType: string;
+}
+
+describe("Webhooks", () => {
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  // Status the receiver answers with; can depend on how many requests came before
+  let respond: (count: number) => number;
+
+  let repository: EscrowRepository;
+  let store: WebhookStore;
+  let dataDir: string;
+  let now: Date;
+
+  beforeAll(async () => {
+    // The receiver listens on loopback
+    process.env.ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS = "true";
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({
+          body,
+          signature: String(req.headers[SIGNATURE_HEADER.toLowerCase()]),
+          eventType: String(req.headers["x-escrow-event"]),
+        });
+        res.writeHead(respond(received.length)).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    delete process.env.ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    respond = () => 200;
+    now = new Date();
+
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-webhooks-"));
+    repository = createEscrowRepository("json", dataDir);
+    store = createWebhookStore(dataDir);
+  });
+
+  function subscribe(ownerId = "buyer-1", eventTypes: EventType[] = [], target = url) {
+    store.saveSubscription({
+      id: `whk_${ownerId}`,
+      ownerId,
+      url: target,
+      secret: SECRET,
+      eventTypes,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  function seedEscrow(id: string, buyerId = "buyer-1") {
+    const { escrow, event } = createEscrow(id, buyerId, "seller-1", 1000, "USD", "Webhook test");
+    repository.create(event);
+    const accept = applyAction(escrow, EscrowAction.ACCEPT, seller);
+    repository.appendEvents(id, [accept.event!], escrow.version);
+  }
+
+  function act(id: string, action: EscrowAction, actor = buyer) {
+    const escrow = repository.getById(id)!;
+    const result = applyAction(toSnapshot(escrow), action, actor, { reason: "Changed my mind" });
+    expect(result.success).toBe(true);
+    repository.appendEvents(id, [result.event!], escrow.version);
+  }
+
+  // Queues new events from the outbox, then attempts whatever is due
+  async function dispatch() {
+    await runOutboxDispatch(repository, [createWebhookConsumer(repository, store, () => now)]);
+    return runWebhookDispatch(store, { now: () => now, retryBaseMs: 1000, maxAttempts: 3 });
+  }
+
+  it("should deliver every appended event, signed and in log order", async () => {
+    subscribe();
+    seedEscrow("w-1");
+    act("w-1", EscrowAction.CANCEL);
+
+    const result = await dispatch();
+
+    expect(result.delivered).toHaveLength(3);
+    for (const { body, signature } of received) {
+      expect(verifySignature(SECRET, signature, body)).toBe(true);
+    }
+    const payloads = received.map((r) => JSON.parse(r.body));
+    expect(payloads.map((p) => p.sequence)).toEqual([1, 2, 3]);
+    expect(payloads.map((p) => p.event.id)).toEqual(repository.getEvents("w-1").map((e) => e.id));
+    expect(payloads[0]).toMatchObject({
+      type: EventType.ESCROW_CREATED,
+      escrowId: "w-1",
+      event: { amount: "10.00", buyerId: "buyer-1" },
+    });
+    expect(received.map((r) => r.eventType)).toEqual([
+      EventType.ESCROW_CREATED,
+      EventType.STATE_CHANGED,
+      EventType.STATE_CHANGED,
+    ]);
+  });
+
+  it("should retry with exponential backoff, holding back later events of the escrow", async () => {
+    subscribe();
+    respond = (count) => (count <= 2 ? 500 : 200);
+    seedEscrow("w-1");
+
+    expect(await dispatch()).toEqual({ delivered: [], retrying: [expect.any(String)], failed: [] });
+    expect(received).toHaveLength(1);
+
+    // Not due yet: the first retry waits one base delay
+    now = new Date(now.getTime() + 999);
+    expect((await dispatch()).retrying).toEqual([]);
+
+    now = new Date(now.getTime() + 1);
+    expect((await dispatch()).retrying).toHaveLength(1);
+
+    // The second retry waits twice as long
+    now = new Date(now.getTime() + retryDelayMs(2, 1000));
+    expect((await dispatch()).delivered).toHaveLength(2);
+
+    expect(received.map((r) => JSON.parse(r.body).sequence)).toEqual([1, 1, 1, 2]);
+    const [first] = store.listDeliveries();
+    expect(first.status).toBe("succeeded");
+    expect(first.attempts.map((a) => a.statusCode)).toEqual([500, 500, 200]);
+  });
+
+  it("should mark a delivery failed once its attempts run out and move on", async () => {
+    subscribe();
+    respond = () => 503;
+    seedEscrow("w-1");
+
+    await dispatch();
+    now = new Date(now.getTime() + 1000);
+    await dispatch();
+    now = new Date(now.getTime() + 2000);
+    const result = await dispatch();
+
+    expect(result.failed).toHaveLength(1);
+    const [first, second] = store.listDeliveries();
+    expect(first).toMatchObject({ status: "failed", nextAttemptAt: null });
+    expect(first.attempts).toHaveLength(3);
+    expect(first.attempts[0].error).toBe("Receiver responded with HTTP 503");
+    expect(second).toMatchObject({ status: "pending", attempts: [] });
+  });
+
+  it("should only queue the event types a subscription asks for, on escrows its owner can view", async () => {
+    subscribe("buyer-1", [EventType.ESCROW_CREATED]);
+    seedEscrow("w-1");
+    seedEscrow("w-2", "buyer-2");
+
+    await dispatch();
+
+    expect(received.map((r) => JSON.parse(r.body))).toEqual([
+      expect.objectContaining({ type: EventType.ESCROW_CREATED, escrowId: "w-1" }),
+    ]);
+  });
+
+  it("should read subscriptions and deliveries back from disk", async () => {
+    subscribe();
+    respond = () => 500;
+    seedEscrow("w-1");
+    await dispatch();
+
+    const reopened = createWebhookStore(dataDir);
+    expect(reopened.listSubscriptions()).toEqual(store.listSubscriptions());
+    expect(reopened.listDeliveries()).toEqual(store.listDeliveries());
+    expect(reopened.listDeliveries()[0].attempts[0].at).toBeInstanceOf(Date);
+  });
+
+  it("should queue each event once when the outbox redelivers it", async () => {
+    subscribe();
+    seedEscrow("w-1");
+
+    await dispatch();
+    repository.saveConsumerOffset("webhooks", 0);
+    await dispatch();
+
+    expect(store.listDeliveries()).toHaveLength(2);
+    expect(received).toHaveLength(2);
+  });
+
+  it("should not deliver to a private address, whatever the URL was when registered", async () => {
+    subscribe();
+    seedEscrow("w-1");
+    delete process.env.ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS;
+
+    try {
+      expect((await dispatch()).retrying).toHaveLength(1);
+    } finally {
+      process.env.ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS = "true";
+    }
+    expect(received).toEqual([]);
+    expect(store.listDeliveries()[0].attempts[0]).toMatchObject({
+      statusCode: undefined,
+      error: "Webhook URL must resolve to a public address",
+    });
+  });
+
+  it("should connect to the address it checked, not whatever the host resolves to later", async () => {
+    subscribe("buyer-1", [], "https://hooks.example.com/in");
+    seedEscrow("w-1");
+    const sent: WebhookRequest[] = [];
+    delete process.env.ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS;
+
+    try {
+      await runOutboxDispatch(repository, [createWebhookConsumer(repository, store, () => now)]);
+      const result = await runWebhookDispatch(store, {
+        now: () => now,
+        resolve: async () => ["93.184.216.34"],
+        transport: async (request) => {
+          sent.push(request);
+          return 204;
+        },
+      });
+      expect(result.delivered).toHaveLength(2);
+    } finally {
+      process.env.ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS = "true";
+    }
+    expect(sent.map((request) => [request.url, request.address])).toEqual([
+      ["https://hooks.example.com/in", "93.184.216.34"],
+      ["https://hooks.example.com/in", "93.184.216.34"],
+    ]);
+  });
+
+  it("should send to the pinned address without looking the host up", async () => {
+    const { port } = server.address() as AddressInfo;
+    const status = await sendWebhookRequest({
+      url: `http://rebind.invalid:${port}/hooks`,
+      headers: { "Content-Type": "application/json", "X-Escrow-Event": "TEST" },
+      body: JSON.stringify({ hello: "world" }),
+      address: "127.0.0.1",
+    });
+
+    expect(status).toBe(200);
+    expect(received).toMatchObject([{ body: '{"hello":"world"}', eventType: "TEST" }]);
+  });
+
+  it("should reject tampered bodies, wrong secrets and stale signatures", () => {
+    const body = JSON.stringify({ hello: "world" });
+    const header = formatSignatureHeader(SECRET, body, now);
+
+    expect(verifySignature(SECRET, header, body, now)).toBe(true);
+    expect(verifySignature(SECRET, header, body.replace("world", "there"), now)).toBe(false);
+    expect(verifySignature("another-secret", header, body, now)).toBe(false);
+    expect(verifySignature(SECRET, header, body, new Date(now.getTime() + 10 * 60 * 1000))).toBe(false);
+    expect(verifySignature(SECRET, "v1=abc", body, now)).toBe(false);
+  });
+});
+
+describe("Webhook targets", () => {
+  const resolveTo = (...addresses: string[]) => async () => addresses;
+
+  it("should refuse loopback, private, link-local and metadata hosts", async () => {
+    for (const url of [
+      "http://localhost:3000/hooks",
+      "http://api.localhost/hooks",
+      "http://127.0.0.1/hooks",
+      "http://2130706433/hooks",
+      "http://0.0.0.0/hooks",
+      "http://10.1.2.3/hooks",
+      "http://172.16.0.1/hooks",
+      "http://192.168.1.10:8080/hooks",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/hooks",
+      "http://[::ffff:127.0.0.1]/hooks",
+      "http://[fd00:ec2::254]/hooks",
+      "http://[fe80::1]/hooks",
+    ]) {
+      expect(await checkWebhookTarget(url, resolveTo("93.184.216.34"))).toBe(
+        "Webhook URL must resolve to a public address"
+      );
+    }
+  });
+
+  it("should check the addresses a name resolves to", async () => {
+    expect(await checkWebhookTarget("https://hooks.example.com/in", resolveTo("93.184.216.34"))).toBeNull();
+    expect(await checkWebhookTarget("https://[2606:4700::1111]/in")).toBeNull();
+    expect(
+      await checkWebhookTarget("https://rebind.example.com/in", resolveTo("93.184.216.34", "10.0.0.5"))
+    ).toBe("Webhook URL must resolve to a public address");
+    expect(
+      await checkWebhookTarget("https://missing.example.com/in", async () => {
+        throw new Error("ENOTFOUND");
+      })
+    ).toBe("Webhook host missing.example.com could not be resolved");
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Authentication
+ *
+ * Identifies the caller from a signed session token (`Authorization: Bearer ...`)
+ * or an API key (`X-API-Key`), both verified locally. Roles are never taken from
+ * the request: admins come from the admin registry and buyer/seller roles are
+ * derived from the escrow by the domain layer.
+ *
+ * Configuration:
+ * - ESCROW_AUTH_SECRET: HMAC secret for session tokens (required in production)
+ * - ESCROW_API_KEYS: comma-separated `key:userId` pairs
+ * - ESCROW_ADMIN_IDS: comma-separated user IDs with admin rights
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { NextRequest } from "next/server";
+import { Actor } from "@/domain/escrow";
+
+const DEV_SECRET = "dev-only-escrow-auth-secret";
+const DEV_ADMIN_IDS = ["admin"];
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+interface SessionPayload {
+  sub: string;
+  exp: number;
+}
+
+function getSecret(): string {
+  const secret = process.env.ESCROW_AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ESCROW_AUTH_SECRET must be set in production");
+  }
+  return DEV_SECRET;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  // Compare fixed-length digests so differing lengths do not leak through timing
+  const da = createHash("sha256").update(a).digest();
+  const db = createHash("sha256").update(b).digest();
+  return timingSafeEqual(da, db);
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Returns true if the user is in the admin registry
+ */
+export function isAdminUser(userId: string): boolean {
+  const configured = parseList(process.env.ESCROW_ADMIN_IDS);
+  const admins =
+    configured.length > 0 || process.env.NODE_ENV === "production" ? configured : DEV_ADMIN_IDS;
+  return admins.includes(userId);
+}
+
+/**
+ * Issues a signed session token for a user
+ */
+export function createSessionToken(userId: string, ttlSeconds = DEFAULT_TOKEN_TTL_SECONDS): string {
+  const payload: SessionPayload = {
+    sub: userId,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload), "utf-8").toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verifies a session token and returns the user ID it was issued for
+ */
+export function verifySessionToken(token: string): string | null {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) return null;
+  if (!safeEqual(signature, sign(encoded))) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8")) as SessionPayload;
+    if (typeof payload.sub !== "string" || typeof payload.exp !== "number") return null;
+    if (payload.exp * 1000 <= Date.now()) return null;
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves an API key to the user it belongs to
+ */
+export function verifyApiKey(apiKey: string): string | null {
+  for (const entry of parseList(process.env.ESCROW_API_KEYS)) {
+    const separator = entry.lastIndexOf(":");
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator);
+    const userId = entry.slice(separator + 1);
+    if (userId && safeEqual(apiKey, key)) return userId;
+  }
+  return null;
+}
+
+/**
+ * Identifies the caller of a request, or returns null if unauthenticated
+ */
+export function authenticate(request: NextRequest): Actor | null {
+  let userId: string | null = null;
+
+  const authorization = request.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    userId = verifySessionToken(authorization.slice("Bearer ".length).trim());
+  } else {
+    const apiKey = request.headers.get("x-api-key");
+    if (apiKey) userId = verifyApiKey(apiKey);
+  }
+
+  if (!userId) return null;
+  return { userId, isAdmin: isAdminUser(userId) };
+}
+
+/**
+ * Whether a development session can be issued without credentials
+ */
+export function isDevLoginEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.ESCROW_ALLOW_DEV_LOGIN === "true";
+}
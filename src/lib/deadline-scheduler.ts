@@ -0,0 +1,104 @@
+/**
+ * Deadline Scheduler
+ *
+ * Periodically scans open escrows and applies the transitions their deadlines
+ * call for: unfunded escrows past the funding deadline expire, and FUNDED
+ * escrows past the inspection deadline are released to the seller. Each one is
+ * recorded as a normal event performed by the SYSTEM actor.
+ *
+ * Configuration:
+ * - ESCROW_SCHEDULER_INTERVAL_MS: scan interval (default: 60000; "0" disables the timer)
+ */
+
+import { SYSTEM_ACTOR, applyAction, getDueSystemAction, toSnapshot } from "@/domain/escrow";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { ConcurrencyError } from "@/storage/errors";
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const PAGE_SIZE = 100;
+
+const REASONS: Partial<Record<EscrowAction, string>> = {
+  [EscrowAction.EXPIRE]: "Funding deadline passed",
+  [EscrowAction.AUTO_RELEASE]: "Inspection deadline passed without a dispute",
+};
+
+export interface DeadlineScanResult {
+  expired: string[];
+  released: string[];
+  // Escrows that changed concurrently; they are picked up again on the next scan
+  skipped: string[];
+}
+
+/**
+ * Applies every transition that is due right now
+ */
+export function runDeadlineScan(repository: EscrowRepository): DeadlineScanResult {
+  const result: DeadlineScanResult = { expired: [], released: [], skipped: [] };
+  const dueIds: string[] = [];
+
+  // Collect first so appends don't shift the pages being read
+  let cursor: string | undefined;
+  do {
+    const page = repository.query({
+      currentState: [EscrowState.PROPOSED, EscrowState.ACCEPTED, EscrowState.FUNDED],
+      sortBy: "createdAt",
+      sortOrder: "asc",
+      limit: PAGE_SIZE,
+      cursor,
+    });
+    for (const escrow of page.items) {
+      if (getDueSystemAction(escrow)) dueIds.push(escrow.id);
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  for (const id of dueIds) {
+    // Re-check against the event log; the snapshot may be behind
+    const escrow = repository.getById(id);
+    const action = escrow && getDueSystemAction(escrow);
+    if (!escrow || !action) continue;
+
+    const applied = applyAction(toSnapshot(escrow), action, SYSTEM_ACTOR, {
+      reason: REASONS[action],
+    });
+    if (!applied.success) continue;
+
+    try {
+      repository.appendEvents(id, [applied.event!], escrow.version);
+    } catch (error) {
+      if (error instanceof ConcurrencyError) {
+        result.skipped.push(id);
+        continue;
+      }
+      throw error;
+    }
+
+    (action === EscrowAction.EXPIRE ? result.expired : result.released).push(id);
+  }
+
+  return result;
+}
+
+declare global {
+  var __ESCROW_DEADLINE_TIMER: ReturnType<typeof setInterval> | undefined;
+}
+
+/**
+ * Starts the background scan once per process
+ */
+export function startDeadlineScheduler(
+  repository: EscrowRepository,
+  intervalMs: number = Number(process.env.ESCROW_SCHEDULER_INTERVAL_MS ?? DEFAULT_INTERVAL_MS)
+): void {
+  if (globalThis.__ESCROW_DEADLINE_TIMER || !(intervalMs > 0)) return;
+
+  globalThis.__ESCROW_DEADLINE_TIMER = setInterval(() => {
+    try {
+      runDeadlineScan(repository);
+    } catch (error) {
+      console.error("Deadline scan failed", error);
+    }
+  }, intervalMs);
+  globalThis.__ESCROW_DEADLINE_TIMER.unref?.();
+}
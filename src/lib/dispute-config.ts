@@ -0,0 +1,16 @@
+/**
+ * Dispute Configuration
+ *
+ * How long the seller has to respond to a new dispute. The deadline is stored
+ * in the dispute's event, so changing the configuration only affects new disputes.
+ *
+ * Configuration:
+ * - ESCROW_SELLER_RESPONSE_HOURS: the seller's response window (default: 72)
+ */
+
+import { DEFAULT_SELLER_RESPONSE_WINDOW_MS } from "@/domain/disputes";
+
+export function getSellerResponseWindowMs(): number {
+  const hours = Number(process.env.ESCROW_SELLER_RESPONSE_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : DEFAULT_SELLER_RESPONSE_WINDOW_MS;
+}
@@ -0,0 +1,17 @@
+/**
+ * ETag helpers for escrow versions
+ */
+
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parses an If-Match header into an escrow version.
+ * Returns null when the header is absent or `*`, and NaN when it is not a version ETag.
+ */
+export function parseIfMatch(header: string | null): number | null {
+  if (!header || header.trim() === "*") return null;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  return match ? Number(match[1]) : NaN;
+}
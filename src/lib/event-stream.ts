@@ -0,0 +1,155 @@
+/**
+ * Live Event Streams
+ *
+ * Server-Sent Event streams of newly appended escrow events. A stream polls
+ * the repository, so it sees appends from every route bundle and, with the
+ * SQLite backend, from other processes too.
+ *
+ * The escrow stream uses each event's position in the escrow's log as its
+ * message ID and the participant stream uses outbox offsets, so a client that
+ * reconnects with `Last-Event-ID` receives exactly what it missed. A new
+ * connection without one starts at the present; the full history comes from
+ * `GET /api/escrow/[id]`.
+ *
+ * Configuration:
+ * - ESCROW_STREAM_POLL_MS: how often streams check for new events (default: 1000)
+ */
+
+import { Actor, canView } from "@/domain/escrow";
+import { CurrencyCode } from "@/domain/money";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { serializeEvent } from "./serializers";
+import { formatSseComment, formatSseMessage } from "./sse";
+
+const DEFAULT_POLL_MS = 1000;
+const HEARTBEAT_MS = 15 * 1000;
+const RECONNECT_MS = 3000;
+const BATCH_SIZE = 100;
+
+export interface EventStreamOptions {
+  // The `Last-Event-ID` header of a reconnecting client
+  lastEventId?: string | null;
+  pollIntervalMs?: number;
+  heartbeatMs?: number;
+}
+
+// Clients send back the last ID they saw; anything else means "start at the present"
+function parseLastEventId(value: string | null | undefined): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  return Number(value.trim());
+}
+
+/**
+ * Streams the messages returned by `poll`, calling it on an interval until the
+ * client disconnects
+ */
+function pollingStream(poll: () => string[], options: EventStreamOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let timers: ReturnType<typeof setInterval>[] = [];
+  const stop = () => {
+    timers.forEach(clearInterval);
+    timers = [];
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // The client went away between polls
+          stop();
+        }
+      };
+      const tick = () => {
+        try {
+          poll().forEach(send);
+        } catch (error) {
+          console.error("Event stream poll failed", error);
+        }
+      };
+
+      const pollIntervalMs =
+        options.pollIntervalMs ?? Number(process.env.ESCROW_STREAM_POLL_MS ?? DEFAULT_POLL_MS);
+
+      send(`retry: ${RECONNECT_MS}\n\n`);
+      tick();
+      timers.push(
+        setInterval(tick, pollIntervalMs),
+        setInterval(() => send(formatSseComment("keepalive")), options.heartbeatMs ?? HEARTBEAT_MS)
+      );
+    },
+    cancel() {
+      stop();
+    },
+  });
+}
+
+/**
+ * Streams the events appended to one escrow, resuming after `Last-Event-ID`
+ */
+export function createEscrowEventStream(
+  repository: EscrowRepository,
+  escrowId: string,
+  currency: CurrencyCode,
+  options: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  let sent = parseLastEventId(options.lastEventId) ?? repository.getEvents(escrowId).length;
+
+  return pollingStream(() => {
+    const events = repository.getEvents(escrowId);
+    const messages = events.slice(sent).map((event, index) => {
+      const sequence = sent + index + 1;
+      return formatSseMessage({
+        id: String(sequence),
+        data: JSON.stringify({ escrowId, sequence, event: serializeEvent(event, currency) }),
+      });
+    });
+    sent = Math.max(sent, events.length);
+    return messages;
+  }, options);
+}
+
+/**
+ * Streams the events of every escrow the actor can view, resuming after `Last-Event-ID`
+ */
+export function createParticipantEventStream(
+  repository: EscrowRepository,
+  actor: Actor,
+  options: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  let offset = parseLastEventId(options.lastEventId) ?? repository.getOutboxHead();
+  // Parties and currency never change, so each escrow is looked up once
+  const escrows = new Map<string, { visible: boolean; currency: CurrencyCode }>();
+
+  return pollingStream(() => {
+    const messages: string[] = [];
+    for (;;) {
+      const entries = repository.readOutbox(offset, BATCH_SIZE);
+      for (const entry of entries) {
+        offset = entry.offset;
+
+        let escrow = escrows.get(entry.escrowId);
+        if (!escrow) {
+          const stored = repository.getById(entry.escrowId);
+          if (!stored) continue;
+          escrow = { visible: canView(stored, actor), currency: stored.currency };
+          escrows.set(entry.escrowId, escrow);
+        }
+        if (!escrow.visible) continue;
+
+        messages.push(
+          formatSseMessage({
+            id: String(entry.offset),
+            data: JSON.stringify({
+              escrowId: entry.escrowId,
+              sequence: entry.sequence,
+              event: serializeEvent(entry.event, escrow.currency),
+            }),
+          })
+        );
+      }
+      if (entries.length < BATCH_SIZE) return messages;
+    }
+  }, options);
+}
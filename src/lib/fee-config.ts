@@ -0,0 +1,84 @@
+/**
+ * Fee Configuration
+ *
+ * Picks the fee schedule a new escrow is created with. The schedule is stored in
+ * the escrow's creation event, so changing the configuration only affects new escrows.
+ *
+ * Configuration:
+ * - ESCROW_FEE_SCHEDULE: JSON object keyed by currency code, with an optional
+ *   "default" entry for other currencies. Amounts are minor units of that currency:
+ *   {"default": {"platform": {"type": "percentage", "basisPoints": 250, "min": 100}},
+ *    "JPY": {"platform": {"type": "flat", "amount": 500}}}
+ *   (default: 2.5% platform fee and 5% arbitration fee in every currency)
+ */
+
+import { z } from "zod";
+import { FeeSchedule } from "@/domain/fees";
+import { CurrencyCode, SUPPORTED_CURRENCIES } from "@/domain/money";
+
+const minorUnits = z.number().int().nonnegative();
+const basisPoints = z.number().int().min(0).max(10_000);
+
+const capsSchema = {
+  min: minorUnits.optional(),
+  max: minorUnits.optional(),
+};
+
+const feeRuleSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("flat"), amount: minorUnits }),
+    z.object({ type: z.literal("percentage"), basisPoints, ...capsSchema }),
+    z.object({
+      type: z.literal("tiered"),
+      tiers: z.array(z.object({ upTo: minorUnits.positive().nullable(), basisPoints })).min(1),
+      ...capsSchema,
+    }),
+  ])
+  .refine(
+    (rule) =>
+      rule.type === "flat" || rule.min === undefined || rule.max === undefined || rule.min <= rule.max,
+    { message: "min must not exceed max" }
+  )
+  .refine(
+    (rule) =>
+      rule.type !== "tiered" ||
+      rule.tiers.every((tier, index) =>
+        index === rule.tiers.length - 1
+          ? tier.upTo === null
+          : tier.upTo !== null && (index === 0 || tier.upTo > rule.tiers[index - 1].upTo!)
+      ),
+    { message: "Tier bounds must increase and the last tier must have upTo: null" }
+  );
+
+const feeScheduleSchema = z.object({
+  platform: feeRuleSchema.optional(),
+  arbitration: feeRuleSchema.optional(),
+});
+
+const feeConfigSchema = z.partialRecord(z.enum(["default", ...SUPPORTED_CURRENCIES]), feeScheduleSchema);
+
+export type FeeConfig = z.infer<typeof feeConfigSchema>;
+
+export const DEFAULT_FEE_CONFIG: FeeConfig = {
+  default: {
+    platform: { type: "percentage", basisPoints: 250 },
+    arbitration: { type: "percentage", basisPoints: 500 },
+  },
+};
+
+/**
+ * Parses ESCROW_FEE_SCHEDULE; throws if it is not a valid fee configuration
+ */
+export function parseFeeConfig(raw: string | undefined): FeeConfig {
+  return raw ? feeConfigSchema.parse(JSON.parse(raw)) : DEFAULT_FEE_CONFIG;
+}
+
+/**
+ * The fee schedule for new escrows in this currency
+ */
+export function getFeeSchedule(
+  currency: CurrencyCode,
+  config: FeeConfig = parseFeeConfig(process.env.ESCROW_FEE_SCHEDULE)
+): FeeSchedule {
+  return config[currency] ?? config.default ?? {};
+}
@@ -0,0 +1,106 @@
+/**
+ * Idempotency-Key support for mutating routes
+ *
+ * The first response for a key and caller is stored and replayed on retries.
+ * Reusing a key with a different payload is rejected.
+ */
+
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { idempotencyStore } from "@/storage/idempotency-store";
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+
+/**
+ * Serializes a value with sorted object keys so equal payloads hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashPayload(payload: unknown): string {
+  return createHash("sha256").update(stableStringify(payload)).digest("hex");
+}
+
+/**
+ * Runs `handler` at most once per Idempotency-Key, scope and caller.
+ * Requests without the header are passed straight through.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  options: { scope: string; caller: string; payload: unknown },
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER);
+  if (!key) {
+    return handler();
+  }
+
+  if (key.length > 255) {
+    return NextResponse.json(
+      { success: false, error: "Idempotency-Key must be at most 255 characters" },
+      { status: 400 }
+    );
+  }
+
+  const { scope, caller, payload } = options;
+  const requestHash = hashPayload(payload);
+  const existing = idempotencyStore.get(scope, caller, key);
+
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      return NextResponse.json(
+        { success: false, error: "Idempotency-Key was already used with a different payload" },
+        { status: 422 }
+      );
+    }
+    if (!existing.response) {
+      return NextResponse.json(
+        { success: false, error: "A request with this Idempotency-Key is still being processed" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(existing.response.body, {
+      status: existing.response.status,
+      headers: { ...existing.response.headers, "Idempotent-Replayed": "true" },
+    });
+  }
+
+  idempotencyStore.begin(scope, caller, key, requestHash);
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    idempotencyStore.abandon(scope, caller, key);
+    throw error;
+  }
+
+  // Server errors are not final, so let the client retry them
+  if (response.status >= 500) {
+    idempotencyStore.abandon(scope, caller, key);
+    return response;
+  }
+
+  const headers: Record<string, string> = {};
+  const etag = response.headers.get("etag");
+  if (etag) headers.ETag = etag;
+
+  idempotencyStore.complete(scope, caller, key, {
+    status: response.status,
+    body: await response.clone().json(),
+    headers,
+  });
+
+  return response;
+}
@@ -0,0 +1,96 @@
+/**
+ * Mock Payment Gateway
+ *
+ * A deterministic in-process PaymentProvider for development and tests. Each
+ * request succeeds, is declined, or stays pending until a settlement delay has
+ * passed; nothing leaves the process, and payments are forgotten on restart.
+ *
+ * Configuration:
+ * - ESCROW_MOCK_PAYMENT_OUTCOME: "succeed" (default), "decline" or "delay"
+ * - ESCROW_MOCK_SETTLEMENT_DELAY_MS: how long delayed payments stay pending (default: 5000)
+ */
+
+import { PaymentProvider, PaymentRequest, PaymentResult } from "./payment-provider";
+
+export type MockOutcome = "succeed" | "decline" | "delay";
+
+const MOCK_OUTCOMES: MockOutcome[] = ["succeed", "decline", "delay"];
+const DEFAULT_SETTLEMENT_DELAY_MS = 5000;
+
+export interface MockGatewayOptions {
+  // Decides each new request's fate (default: ESCROW_MOCK_PAYMENT_OUTCOME for every request)
+  outcome?: (request: PaymentRequest) => MockOutcome;
+  settlementDelayMs?: number;
+  now?: () => Date;
+}
+
+interface MockPayment {
+  request: PaymentRequest;
+  outcome: MockOutcome;
+  submittedAt: Date;
+}
+
+function configuredOutcome(): MockOutcome {
+  const value = process.env.ESCROW_MOCK_PAYMENT_OUTCOME ?? "succeed";
+  if (!MOCK_OUTCOMES.includes(value as MockOutcome)) {
+    throw new Error(`Unknown ESCROW_MOCK_PAYMENT_OUTCOME: ${value}`);
+  }
+  return value as MockOutcome;
+}
+
+export class MockPaymentGateway implements PaymentProvider {
+  readonly name = "mock";
+  private readonly payments = new Map<string, MockPayment>();
+  private readonly outcome: (request: PaymentRequest) => MockOutcome;
+  private readonly settlementDelayMs: number;
+  private readonly now: () => Date;
+
+  constructor(options: MockGatewayOptions = {}) {
+    const fixed = options.outcome ? undefined : configuredOutcome();
+    this.outcome = options.outcome ?? (() => fixed!);
+    this.settlementDelayMs =
+      options.settlementDelayMs ??
+      Number(process.env.ESCROW_MOCK_SETTLEMENT_DELAY_MS ?? DEFAULT_SETTLEMENT_DELAY_MS);
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async submit(request: PaymentRequest): Promise<PaymentResult> {
+    if (!this.payments.has(request.id)) {
+      this.payments.set(request.id, {
+        request,
+        outcome: this.outcome(request),
+        submittedAt: this.now(),
+      });
+    }
+    return this.resultFor(request.id)!;
+  }
+
+  async getStatus(requestId: string): Promise<PaymentResult | null> {
+    return this.resultFor(requestId);
+  }
+
+  /**
+   * Requests submitted so far, oldest first
+   */
+  listRequests(): PaymentRequest[] {
+    return [...this.payments.values()].map((payment) => payment.request);
+  }
+
+  private resultFor(requestId: string): PaymentResult | null {
+    const payment = this.payments.get(requestId);
+    if (!payment) return null;
+
+    const reference = `mock_${payment.request.kind}_${requestId}`;
+    switch (payment.outcome) {
+      case "succeed":
+        return { status: "succeeded", reference };
+      case "decline":
+        return { status: "declined", reference, reason: "Declined by the mock gateway" };
+      case "delay": {
+        const settled =
+          this.now().getTime() - payment.submittedAt.getTime() >= this.settlementDelayMs;
+        return { status: settled ? "succeeded" : "pending", reference };
+      }
+    }
+  }
+}
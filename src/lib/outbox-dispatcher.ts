@@ -0,0 +1,128 @@
+/**
+ * Outbox Dispatcher
+ *
+ * Drains the repository's outbox to the registered consumers. Every consumer
+ * keeps its own stored offset and sees the entries in outbox order, so the
+ * events of one escrow always arrive in log order. The offset only moves once
+ * the consumer has handled an entry: after a crash, or when the consumer
+ * throws, the same entry is delivered again on the next run. Delivery is
+ * therefore at least once and consumers must tolerate duplicates.
+ *
+ * Rewinding a consumer's offset replays everything after it.
+ *
+ * Configuration:
+ * - ESCROW_OUTBOX_INTERVAL_MS: dispatch interval (default: 1000; "0" disables the timer)
+ */
+
+import { EscrowRepository, OutboxEntry } from "@/storage/escrow-repository";
+
+const DEFAULT_INTERVAL_MS = 1000;
+const BATCH_SIZE = 100;
+
+export interface OutboxConsumer {
+  // Key for the consumer's stored offset; renaming a consumer starts it from the beginning
+  readonly name: string;
+  handle(entry: OutboxEntry): void | Promise<void>;
+}
+
+export interface OutboxDispatchResult {
+  consumer: string;
+  // Offsets of the entries handled on this run
+  delivered: number[];
+  // Why the consumer stopped before reaching the head, if it did
+  error?: string;
+}
+
+/**
+ * Delivers every entry after each consumer's offset, stopping a consumer at its first failure
+ */
+export async function runOutboxDispatch(
+  repository: EscrowRepository,
+  consumers: OutboxConsumer[]
+): Promise<OutboxDispatchResult[]> {
+  const results: OutboxDispatchResult[] = [];
+
+  for (const consumer of consumers) {
+    const result: OutboxDispatchResult = { consumer: consumer.name, delivered: [] };
+    let offset = repository.getConsumerOffset(consumer.name);
+
+    drain: for (;;) {
+      const batch = repository.readOutbox(offset, BATCH_SIZE);
+      for (const entry of batch) {
+        try {
+          await consumer.handle(entry);
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : String(error);
+          break drain;
+        }
+        offset = entry.offset;
+        repository.saveConsumerOffset(consumer.name, offset);
+        result.delivered.push(offset);
+      }
+      if (batch.length < BATCH_SIZE) break;
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Moves a consumer back so the next run redelivers every entry after `offset`
+ */
+export function rewindConsumer(repository: EscrowRepository, consumer: string, offset: number): void {
+  const head = repository.getOutboxHead();
+  if (!Number.isInteger(offset) || offset < 0 || offset > head) {
+    throw new RangeError(`Offset must be between 0 and ${head}`);
+  }
+  repository.saveConsumerOffset(consumer, offset);
+}
+
+// Global registry so every route bundle and HMR reload sees the same consumers
+declare global {
+  var __ESCROW_OUTBOX_CONSUMERS: Map<string, OutboxConsumer> | undefined;
+  var __ESCROW_OUTBOX_TIMER: ReturnType<typeof setInterval> | undefined;
+}
+
+function registry(): Map<string, OutboxConsumer> {
+  return (globalThis.__ESCROW_OUTBOX_CONSUMERS ??= new Map());
+}
+
+/**
+ * Registers a consumer, replacing any with the same name
+ */
+export function registerOutboxConsumer(consumer: OutboxConsumer): void {
+  registry().set(consumer.name, consumer);
+}
+
+export function getOutboxConsumers(): OutboxConsumer[] {
+  return [...registry().values()];
+}
+
+/**
+ * Starts the background dispatcher for the registered consumers once per process
+ */
+export function startOutboxDispatcher(
+  repository: EscrowRepository,
+  intervalMs: number = Number(process.env.ESCROW_OUTBOX_INTERVAL_MS ?? DEFAULT_INTERVAL_MS)
+): void {
+  if (globalThis.__ESCROW_OUTBOX_TIMER || !(intervalMs > 0)) return;
+
+  let running = false;
+  globalThis.__ESCROW_OUTBOX_TIMER = setInterval(async () => {
+    // A slow consumer must not let runs pile up
+    if (running) return;
+    running = true;
+    try {
+      for (const result of await runOutboxDispatch(repository, getOutboxConsumers())) {
+        if (result.error) console.error(`Outbox consumer ${result.consumer} failed`, result.error);
+      }
+    } catch (error) {
+      console.error("Outbox dispatch failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  globalThis.__ESCROW_OUTBOX_TIMER.unref?.();
+}
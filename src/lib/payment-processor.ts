@@ -0,0 +1,185 @@
+/**
+ * Payment Processor
+ *
+ * Carries escrows through FUNDING_PENDING and PAYOUT_PENDING. The pending
+ * payment is submitted to the provider and its answer recorded as a SYSTEM
+ * event: a confirmed charge makes the escrow FUNDED and a declined one returns
+ * it to ACCEPTED, and a confirmed payout moves it to the outcome decided when
+ * the payout was requested. A declined payout is recorded with FAIL_PAYOUT and
+ * stays owed, in PAYOUT_PENDING, until an admin retries it as a new request.
+ *
+ * Actions submit their payment straight away; the periodic sync picks up
+ * delayed settlements and anything the provider never received.
+ *
+ * Configuration:
+ * - ESCROW_PAYMENT_SYNC_INTERVAL_MS: sync interval (default: 10000; "0" disables the timer)
+ */
+
+import { Escrow, SYSTEM_ACTOR, applyAction, toSnapshot } from "@/domain/escrow";
+import { EscrowAction, EscrowState, UserRole } from "@/domain/escrow-state";
+import { EscrowRepository } from "@/storage/escrow-repository";
+import { ConcurrencyError } from "@/storage/errors";
+import { PaymentProvider, PaymentRequest, PaymentResult } from "./payment-provider";
+
+const DEFAULT_INTERVAL_MS = 10 * 1000;
+const PAGE_SIZE = 100;
+
+// What became of a pending payment: recorded, still waiting, or left alone
+export type PaymentOutcome = "confirmed" | "declined" | "pending" | "skipped";
+
+export interface PaymentSyncResult {
+  confirmed: string[];
+  // Failed charges, now ACCEPTED again, and failed payouts, still PAYOUT_PENDING until retried
+  declined: string[];
+  pending: string[];
+  // Escrows that changed concurrently; they are picked up again on the next sync
+  skipped: string[];
+}
+
+/**
+ * The provider request for the payment an escrow is waiting on, if any
+ */
+export function toPaymentRequest(escrow: Escrow): PaymentRequest | null {
+  const pending = escrow.pendingPayment;
+  if (!pending) return null;
+
+  return {
+    id: pending.id,
+    kind: pending.kind,
+    escrowId: escrow.id,
+    currency: escrow.currency,
+    transfers: pending.transfers.map((transfer) => ({
+      userId: transfer.party === UserRole.BUYER ? escrow.buyerId : escrow.sellerId,
+      amount: transfer.amount,
+    })),
+  };
+}
+
+/**
+ * Records the provider's answer for a pending payment
+ */
+function recordResult(
+  repository: EscrowRepository,
+  escrowId: string,
+  requestId: string,
+  result: PaymentResult
+): PaymentOutcome {
+  // Re-read: another request or sync may have recorded this payment already
+  const escrow = repository.getById(escrowId);
+  const pending = escrow?.pendingPayment;
+  if (!escrow || pending?.id !== requestId) return "skipped";
+
+  if (result.status === "pending") return "pending";
+  // Already recorded; the payout waits for an admin to retry it
+  if (pending.declined) return "declined";
+
+  const action =
+    result.status === "declined"
+      ? pending.kind === "charge"
+        ? EscrowAction.FAIL_FUNDING
+        : EscrowAction.FAIL_PAYOUT
+      : pending.kind === "charge"
+        ? EscrowAction.CONFIRM_FUNDING
+        : EscrowAction.CONFIRM_PAYOUT;
+  const applied = applyAction(toSnapshot(escrow), action, SYSTEM_ACTOR, {
+    reason: result.status === "declined" ? `Payment declined: ${result.reason ?? "no reason given"}` : undefined,
+    paymentReference: result.reference,
+  });
+  if (!applied.success) return "skipped";
+
+  try {
+    repository.appendEvents(escrowId, [applied.event!], escrow.version);
+  } catch (error) {
+    if (error instanceof ConcurrencyError) return "skipped";
+    throw error;
+  }
+
+  return result.status === "declined" ? "declined" : "confirmed";
+}
+
+/**
+ * Submits an escrow's pending payment and records the result
+ */
+export async function processPayment(
+  repository: EscrowRepository,
+  provider: PaymentProvider,
+  escrowId: string
+): Promise<PaymentOutcome> {
+  const escrow = repository.getById(escrowId);
+  const request = escrow && toPaymentRequest(escrow);
+  if (!request || escrow.pendingPayment?.declined) return "skipped";
+
+  const result = await provider.submit(request);
+  return recordResult(repository, escrowId, request.id, result);
+}
+
+/**
+ * Checks every pending payment with the provider, submitting any it has not seen
+ */
+export async function runPaymentSync(
+  repository: EscrowRepository,
+  provider: PaymentProvider
+): Promise<PaymentSyncResult> {
+  const result: PaymentSyncResult = { confirmed: [], declined: [], pending: [], skipped: [] };
+  const pendingIds: string[] = [];
+
+  // Collect first so appends don't shift the pages being read
+  let cursor: string | undefined;
+  do {
+    const page = repository.query({
+      currentState: [EscrowState.FUNDING_PENDING, EscrowState.PAYOUT_PENDING],
+      sortBy: "createdAt",
+      sortOrder: "asc",
+      limit: PAGE_SIZE,
+      cursor,
+    });
+    pendingIds.push(...page.items.map((escrow) => escrow.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  for (const id of pendingIds) {
+    const escrow = repository.getById(id);
+    const request = escrow && toPaymentRequest(escrow);
+    if (!request) continue;
+    if (escrow.pendingPayment?.declined) {
+      result.declined.push(id);
+      continue;
+    }
+
+    const answer = (await provider.getStatus(request.id)) ?? (await provider.submit(request));
+    const outcome = recordResult(repository, id, request.id, answer);
+    result[outcome].push(id);
+  }
+
+  return result;
+}
+
+declare global {
+  var __ESCROW_PAYMENT_SYNC_TIMER: ReturnType<typeof setInterval> | undefined;
+}
+
+/**
+ * Starts the background sync once per process
+ */
+export function startPaymentSync(
+  repository: EscrowRepository,
+  provider: PaymentProvider,
+  intervalMs: number = Number(process.env.ESCROW_PAYMENT_SYNC_INTERVAL_MS ?? DEFAULT_INTERVAL_MS)
+): void {
+  if (globalThis.__ESCROW_PAYMENT_SYNC_TIMER || !(intervalMs > 0)) return;
+
+  let running = false;
+  globalThis.__ESCROW_PAYMENT_SYNC_TIMER = setInterval(async () => {
+    // A slow provider must not let syncs pile up
+    if (running) return;
+    running = true;
+    try {
+      await runPaymentSync(repository, provider);
+    } catch (error) {
+      console.error("Payment sync failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  globalThis.__ESCROW_PAYMENT_SYNC_TIMER.unref?.();
+}
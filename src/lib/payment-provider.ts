@@ -0,0 +1,66 @@
+/**
+ * Payment Provider
+ *
+ * The boundary between escrows and the money they move. FUND asks the provider
+ * to charge the buyer; releases and refunds ask it to pay the parties out. The
+ * escrow waits in FUNDING_PENDING or PAYOUT_PENDING until the provider confirms.
+ *
+ * Configuration:
+ * - ESCROW_PAYMENT_PROVIDER: "mock" (default; see mock-payment-gateway.ts)
+ */
+
+import { CurrencyCode } from "@/domain/money";
+import { MockPaymentGateway } from "./mock-payment-gateway";
+
+export type PaymentKind = "charge" | "payout";
+
+export interface PaymentRequest {
+  // ID of the event that requested the payment; providers must treat it as an idempotency key
+  id: string;
+  kind: PaymentKind;
+  escrowId: string;
+  currency: CurrencyCode;
+  // The user charged, for a charge, or each user paid, for a payout (minor units)
+  transfers: { userId: string; amount: number }[];
+}
+
+export type PaymentStatus = "succeeded" | "declined" | "pending";
+
+export interface PaymentResult {
+  status: PaymentStatus;
+  // The provider's own ID for the payment
+  reference: string;
+  // Why a payment was declined
+  reason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  // Submitting a request ID twice returns the first submission's current result
+  submit(request: PaymentRequest): Promise<PaymentResult>;
+  // Current result for a request ID, or null if the provider has never seen it
+  getStatus(requestId: string): Promise<PaymentResult | null>;
+}
+
+/**
+ * Creates the provider named by ESCROW_PAYMENT_PROVIDER
+ */
+export function createPaymentProvider(
+  name: string = process.env.ESCROW_PAYMENT_PROVIDER ?? "mock"
+): PaymentProvider {
+  switch (name) {
+    case "mock":
+      return new MockPaymentGateway();
+    default:
+      throw new Error(`Unknown ESCROW_PAYMENT_PROVIDER: ${name}`);
+  }
+}
+
+// Global singleton so every route bundle and HMR reload talks to one provider
+declare global {
+  var __ESCROW_PAYMENT_PROVIDER: PaymentProvider | undefined;
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  return (globalThis.__ESCROW_PAYMENT_PROVIDER ??= createPaymentProvider());
+}
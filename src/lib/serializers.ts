@@ -0,0 +1,235 @@
+/**
+ * JSON response shapes shared by the API routes
+ *
+ * Amounts go out as decimal strings in the escrow's currency, with exactly as many
+ * decimal places as the currency has ("12.30" USD, "1500" JPY).
+ */
+
+import { DisputeCase, getDisputePriority, getDisputeStatus } from "@/domain/disputes";
+import { Escrow, getRemainingAmount } from "@/domain/escrow";
+import {
+  DisputeSplit,
+  EscrowEvent,
+  EventType,
+  MilestoneTerms,
+  PaymentInstruction,
+} from "@/domain/events";
+import { FeeRule, FeeSchedule, PayoutBreakdown } from "@/domain/fees";
+import { AccountBalance, JournalEntry } from "@/domain/ledger";
+import { CurrencyCode, formatMinorUnits } from "@/domain/money";
+import { DisputeQueueItem } from "@/storage/dispute-queue";
+import { WebhookDelivery, WebhookSubscription } from "@/storage/webhook-store";
+
+function serializeSplit(split: DisputeSplit, currency: CurrencyCode) {
+  return {
+    buyerAmount: formatMinorUnits(split.buyerAmount, currency),
+    sellerAmount: formatMinorUnits(split.sellerAmount, currency),
+  };
+}
+
+function serializePayout(payout: PayoutBreakdown, currency: CurrencyCode) {
+  return {
+    sellerGross: formatMinorUnits(payout.sellerGross, currency),
+    buyerGross: formatMinorUnits(payout.buyerGross, currency),
+    platformFee: formatMinorUnits(payout.platformFee, currency),
+    arbitrationFee: formatMinorUnits(payout.arbitrationFee, currency),
+    sellerNet: formatMinorUnits(payout.sellerNet, currency),
+    buyerRefund: formatMinorUnits(payout.buyerRefund, currency),
+  };
+}
+
+function serializePayment<T extends PaymentInstruction>(payment: T, currency: CurrencyCode) {
+  return {
+    ...payment,
+    transfers: payment.transfers.map((t) => ({ ...t, amount: formatMinorUnits(t.amount, currency) })),
+  };
+}
+
+function serializeFeeRule(rule: FeeRule, currency: CurrencyCode) {
+  const format = (minor: number | undefined) =>
+    minor === undefined ? undefined : formatMinorUnits(minor, currency);
+  switch (rule.type) {
+    case "flat":
+      return { ...rule, amount: format(rule.amount) };
+    case "percentage":
+      return { ...rule, min: format(rule.min), max: format(rule.max) };
+    case "tiered":
+      return {
+        ...rule,
+        tiers: rule.tiers.map((tier) => ({ ...tier, upTo: tier.upTo === null ? null : format(tier.upTo) })),
+        min: format(rule.min),
+        max: format(rule.max),
+      };
+  }
+}
+
+function serializeFeeSchedule(schedule: FeeSchedule, currency: CurrencyCode) {
+  return {
+    platform: schedule.platform ? serializeFeeRule(schedule.platform, currency) : null,
+    arbitration: schedule.arbitration ? serializeFeeRule(schedule.arbitration, currency) : null,
+  };
+}
+
+function serializeMilestoneTerms(milestones: MilestoneTerms[], currency: CurrencyCode) {
+  return milestones.map((m) => ({ ...m, amount: formatMinorUnits(m.amount, currency) }));
+}
+
+/**
+ * The case with its status as of `now`
+ */
+export function serializeDispute(dispute: DisputeCase, now: Date = new Date()) {
+  return {
+    category: dispute.category ?? null,
+    reason: dispute.reason ?? null,
+    status: getDisputeStatus(dispute, now),
+    priority: getDisputePriority(dispute),
+    raisedBy: dispute.raisedBy,
+    raisedAt: dispute.raisedAt.toISOString(),
+    sellerResponseDeadline: dispute.sellerResponseDeadline?.toISOString() ?? null,
+    sellerRespondedAt: dispute.sellerRespondedAt?.toISOString() ?? null,
+    assignedTo: dispute.assignedTo ?? null,
+    assignedAt: dispute.assignedAt?.toISOString() ?? null,
+    decidedBy: dispute.decidedBy ?? null,
+    decidedAt: dispute.decidedAt?.toISOString() ?? null,
+  };
+}
+
+export function serializeDisputeQueueItem(item: DisputeQueueItem, now: Date = new Date()) {
+  return {
+    escrowId: item.escrow.id,
+    buyerId: item.escrow.buyerId,
+    sellerId: item.escrow.sellerId,
+    amount: formatMinorUnits(item.escrow.amount, item.escrow.currency),
+    currency: item.escrow.currency,
+    description: item.escrow.description,
+    ...serializeDispute(item.dispute, now),
+    ageSeconds: Math.floor((now.getTime() - item.dispute.raisedAt.getTime()) / 1000),
+  };
+}
+
+export function serializeEscrow(escrow: Escrow) {
+  const format = (minor: number) => formatMinorUnits(minor, escrow.currency);
+  return {
+    id: escrow.id,
+    buyerId: escrow.buyerId,
+    sellerId: escrow.sellerId,
+    amount: format(escrow.amount),
+    currency: escrow.currency,
+    description: escrow.description,
+    currentState: escrow.currentState,
+    ...(escrow.milestones
+      ? {
+          milestones: escrow.milestones.map((m) => ({
+            id: m.id,
+            name: m.name,
+            amount: format(m.amount),
+            releasedAt: m.releasedAt?.toISOString() ?? null,
+          })),
+        }
+      : {}),
+    proposedBy: escrow.proposedBy,
+    pendingApprovalFrom: escrow.pendingApprovalFrom ?? null,
+    fundingDeadline: escrow.fundingDeadline?.toISOString() ?? null,
+    inspectionDeadline: escrow.inspectionDeadline?.toISOString() ?? null,
+    dispute: escrow.dispute ? serializeDispute(escrow.dispute) : null,
+    releasedAmount: format(escrow.releasedAmount),
+    ...(escrow.settlement ? { settlement: serializeSplit(escrow.settlement, escrow.currency) } : {}),
+    ...(escrow.payout ? { payout: serializePayout(escrow.payout, escrow.currency) } : {}),
+    pendingPayment: escrow.pendingPayment ? serializePayment(escrow.pendingPayment, escrow.currency) : null,
+    remainingAmount: format(getRemainingAmount(escrow)),
+    version: escrow.version,
+    createdAt: escrow.createdAt.toISOString(),
+    updatedAt: escrow.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Events only record the currency at creation, so callers pass the escrow's
+ */
+export function serializeEvent(event: EscrowEvent, currency: CurrencyCode) {
+  const timestamp = event.timestamp.toISOString();
+  switch (event.type) {
+    case EventType.ESCROW_CREATED: {
+      const { milestones, feeSchedule, ...rest } = event;
+      return {
+        ...rest,
+        amount: formatMinorUnits(event.amount, currency),
+        ...(milestones ? { milestones: serializeMilestoneTerms(milestones, currency) } : {}),
+        ...(feeSchedule ? { feeSchedule: serializeFeeSchedule(feeSchedule, currency) } : {}),
+        timestamp,
+      };
+    }
+    case EventType.TERMS_REVISED: {
+      const { milestones, ...rest } = event;
+      return {
+        ...rest,
+        amount: formatMinorUnits(event.amount, currency),
+        ...(milestones ? { milestones: serializeMilestoneTerms(milestones, currency) } : {}),
+        timestamp,
+      };
+    }
+    case EventType.MILESTONE_RELEASED: {
+      const { payout, payment, ...rest } = event;
+      return {
+        ...rest,
+        amount: formatMinorUnits(event.amount, currency),
+        ...(payout ? { payout: serializePayout(payout, currency) } : {}),
+        ...(payment ? { payment: serializePayment(payment, currency) } : {}),
+        timestamp,
+      };
+    }
+    case EventType.EVIDENCE_SUBMITTED:
+    case EventType.DISPUTE_ASSIGNED:
+      return { ...event, timestamp };
+    case EventType.STATE_CHANGED: {
+      const { split, payout, payment, ...rest } = event;
+      return {
+        ...rest,
+        ...(split ? { split: serializeSplit(split, currency) } : {}),
+        ...(payout ? { payout: serializePayout(payout, currency) } : {}),
+        ...(payment ? { payment: serializePayment(payment, currency) } : {}),
+        timestamp,
+      };
+    }
+  }
+}
+
+export function serializeJournalEntry(entry: JournalEntry) {
+  return {
+    ...entry,
+    timestamp: entry.timestamp.toISOString(),
+    lines: entry.lines.map((line) => ({
+      accountId: line.accountId,
+      debit: formatMinorUnits(line.debit, entry.currency),
+      credit: formatMinorUnits(line.credit, entry.currency),
+    })),
+  };
+}
+
+export function serializeBalance(balance: AccountBalance) {
+  return { ...balance, balance: formatMinorUnits(balance.balance, balance.currency) };
+}
+
+/**
+ * The secret is only ever returned by the request that set it
+ */
+export function serializeWebhook(subscription: WebhookSubscription) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { secret, ...rest } = subscription;
+  return {
+    ...rest,
+    createdAt: subscription.createdAt.toISOString(),
+    updatedAt: subscription.updatedAt.toISOString(),
+  };
+}
+
+export function serializeWebhookDelivery(delivery: WebhookDelivery) {
+  const { payload, ...rest } = delivery;
+  return {
+    ...rest,
+    payload: JSON.parse(payload),
+    attempts: delivery.attempts.map((attempt) => ({ ...attempt, at: attempt.at.toISOString() })),
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Server-Sent Events wire format
+ *
+ * Formats messages on the server and parses them on the client. Kept free of
+ * server imports so the page can use the parser: it reads streams with fetch,
+ * because EventSource cannot send the Authorization header.
+ */
+
+export interface SseMessage {
+  id?: string;
+  event?: string;
+  data: string;
+}
+
+/**
+ * Formats one message; multi-line data is split across `data:` lines
+ */
+export function formatSseMessage(message: SseMessage): string {
+  const lines: string[] = [];
+  if (message.id !== undefined) lines.push(`id: ${message.id}`);
+  if (message.event !== undefined) lines.push(`event: ${message.event}`);
+  for (const line of message.data.split("\n")) lines.push(`data: ${line}`);
+  return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * A comment line, used as a heartbeat so proxies keep the connection open
+ */
+export function formatSseComment(comment: string): string {
+  return `: ${comment}\n\n`;
+}
+
+/**
+ * Returns a function that takes decoded chunks as they arrive and returns the
+ * messages completed so far. Comments and `retry:` lines are skipped.
+ */
+export function createSseParser(): (chunk: string) => SseMessage[] {
+  let buffer = "";
+
+  return (chunk) => {
+    buffer += chunk.replace(/\r\n?/g, "\n");
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+
+    const messages: SseMessage[] = [];
+    for (const block of blocks) {
+      const message: SseMessage = { data: "" };
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line === "" || line.startsWith(":")) continue;
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+        if (field === "id") message.id = value;
+        else if (field === "event") message.event = value;
+        else if (field === "data") data.push(value);
+      }
+      if (data.length === 0) continue;
+      message.data = data.join("\n");
+      messages.push(message);
+    }
+    return messages;
+  };
+}
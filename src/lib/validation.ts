@@ -3,25 +3,321 @@
  */
 
 import { z } from "zod";
-import { EscrowAction, UserRole } from "@/domain/escrow-state";
+import { ActionOptions } from "@/domain/escrow";
+import { DisputeCategory, DisputeStatus } from "@/domain/disputes";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EventType } from "@/domain/events";
+import { CurrencyCode, SUPPORTED_CURRENCIES, getExponent, toMinorUnits } from "@/domain/money";
 
-export const createEscrowSchema = z.object({
-  buyerId: z.string().min(1, "Buyer ID is required"),
-  sellerId: z.string().min(1, "Seller ID is required"),
-  amount: z.number().positive("Amount must be positive"),
-  description: z.string().min(1, "Description is required"),
+const currencySchema = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim().toUpperCase() : value),
+  z.enum(SUPPORTED_CURRENCIES, { message: `Currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}` })
+);
+
+// Clients send amounts in major units, as a number (12.5) or a decimal string ("12.50")
+const decimalSchema = z.union([
+  z.number(),
+  z.string().regex(/^\s*-?\d+(\.\d+)?\s*$/, "Amount must be a decimal number"),
+]);
+
+const positiveAmount = (message: string) => decimalSchema.refine((value) => Number(value) > 0, message);
+const nonNegativeAmount = (message: string) =>
+  decimalSchema.refine((value) => Number(value) >= 0, message);
+
+/**
+ * Converts a major-unit amount to integer minor units, rejecting more decimal
+ * places than the currency has (e.g. cents on a JPY escrow)
+ */
+export function moneySchema(currency: CurrencyCode) {
+  return decimalSchema.transform((value, ctx) => {
+    const minor = toMinorUnits(value, currency);
+    if (minor === null) {
+      ctx.addIssue({
+        code: "custom",
+        message: `${currency} amounts allow at most ${getExponent(currency)} decimal places`,
+      });
+      return z.NEVER;
+    }
+    return minor;
+  });
+}
+
+// Parses part of a value inside a transform, reporting failures on the outer schema
+function parseNested<T>(schema: z.ZodType<T>, value: unknown, ctx: z.RefinementCtx): T | null {
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return parsed.data;
+  parsed.error.issues.forEach((issue) =>
+    ctx.addIssue({ code: "custom", message: issue.message, path: issue.path })
+  );
+  return null;
+}
+
+const milestoneSchema = z.object({
+  name: z.string().min(1, "Milestone name is required"),
+  amount: positiveAmount("Milestone amount must be positive"),
+});
+
+export const createEscrowSchema = z
+  .object({
+    buyerId: z.string().min(1, "Buyer ID is required"),
+    sellerId: z.string().min(1, "Seller ID is required"),
+    amount: positiveAmount("Amount must be positive"),
+    currency: currencySchema,
+    description: z.string().min(1, "Description is required"),
+    milestones: z.array(milestoneSchema).min(1, "At least one milestone is required").optional(),
+    fundingDeadline: z.coerce.date().optional(),
+    inspectionDeadline: z.coerce.date().optional(),
+  })
+  .refine((data) => data.buyerId !== data.sellerId, {
+    message: "Buyer and seller must be different users",
+    path: ["sellerId"],
+  })
+  .transform((data, ctx) => {
+    const money = moneySchema(data.currency);
+    const amounts = parseNested(
+      z.object({
+        amount: money,
+        milestones: z.array(milestoneSchema.extend({ amount: money })).optional(),
+      }),
+      data,
+      ctx
+    );
+    return amounts === null
+      ? z.NEVER
+      : { ...data, amount: amounts.amount, milestones: amounts.milestones };
+  })
+  .refine(
+    (data) =>
+      !data.milestones || data.milestones.reduce((sum, m) => sum + m.amount, 0) === data.amount,
+    { message: "Milestone amounts must add up to the escrow amount", path: ["milestones"] }
+  )
+  .refine((data) => !data.fundingDeadline || data.fundingDeadline > new Date(), {
+    message: "Funding deadline must be in the future",
+    path: ["fundingDeadline"],
+  })
+  .refine((data) => !data.inspectionDeadline || data.inspectionDeadline > new Date(), {
+    message: "Inspection deadline must be in the future",
+    path: ["inspectionDeadline"],
+  })
+  .refine(
+    (data) =>
+      !data.fundingDeadline ||
+      !data.inspectionDeadline ||
+      data.inspectionDeadline > data.fundingDeadline,
+    { message: "Inspection deadline must be after the funding deadline", path: ["inspectionDeadline"] }
+  );
+
+const termsSchema = z
+  .object({
+    amount: positiveAmount("Amount must be positive").optional(),
+    description: z.string().min(1, "Description is required").optional(),
+    milestones: z.array(milestoneSchema).min(1, "At least one milestone is required").optional(),
+  })
+  .refine(
+    (terms) =>
+      terms.amount !== undefined || terms.description !== undefined || terms.milestones !== undefined,
+    { message: "A counter-proposal must change the terms" }
+  );
+
+const splitSchema = z.union([
+  z.object({
+    buyerAmount: nonNegativeAmount("Buyer amount must not be negative"),
+    sellerAmount: nonNegativeAmount("Seller amount must not be negative"),
+  }),
+  z.object({
+    buyerPercentage: z.number().min(0).max(100, "Buyer percentage must be between 0 and 100"),
+  }),
+]);
+
+export const performActionSchema = z
+  .object({
+    action: z.nativeEnum(EscrowAction),
+    reason: z.string().optional(),
+    milestoneId: z.string().min(1).optional(),
+    split: splitSchema.optional(),
+    terms: termsSchema.optional(),
+    dispute: z.object({ category: z.nativeEnum(DisputeCategory) }).optional(),
+    // The admin to assign a dispute to; defaults to the caller
+    assignee: z.string().trim().min(1).optional(),
+    expectedVersion: z.number().int().positive().optional(),
+  })
+  .refine(
+    (data) => data.action !== EscrowAction.RELEASE_MILESTONE || data.milestoneId !== undefined,
+    { message: "Milestone ID is required to release a milestone", path: ["milestoneId"] }
+  )
+  .refine(
+    (data) => data.action !== EscrowAction.RESOLVE_DISPUTE_SPLIT || data.split !== undefined,
+    { message: "A split is required to settle a dispute", path: ["split"] }
+  )
+  .refine(
+    (data) => data.action !== EscrowAction.COUNTER_PROPOSE || data.terms !== undefined,
+    { message: "Revised terms are required for a counter-proposal", path: ["terms"] }
+  )
+  .refine(
+    (data) => data.action !== EscrowAction.DISPUTE || data.dispute !== undefined,
+    { message: "A category is required to raise a dispute", path: ["dispute"] }
+  )
+  .refine(
+    (data) => data.action !== EscrowAction.CANCEL || (data.reason?.trim() ?? "") !== "",
+    { message: "A reason is required to cancel an escrow", path: ["reason"] }
+  )
+  .refine(
+    (data) => data.action !== EscrowAction.REFUND || (data.reason?.trim() ?? "") !== "",
+    { message: "A reason is required to refund an escrow", path: ["reason"] }
+  )
+  .refine((data) => data.action !== EscrowAction.SUBMIT_EVIDENCE, {
+    message: "Evidence is submitted to /api/escrow/[id]/evidence",
+    path: ["action"],
+  });
+
+// Evidence files are served back as downloads; only these types are accepted
+export const EVIDENCE_CONTENT_TYPES = [
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "text/plain",
+];
+
+// The text fields of a multipart evidence upload; the file itself is checked by the route
+export const submitEvidenceSchema = z.object({
+  message: z.string().trim().max(5000, "Message must be at most 5000 characters").optional(),
+  // SHA-256 of the file as the client sent it; the upload is rejected if it arrives different
+  checksum: z
+    .string()
+    .regex(/^[0-9a-fA-F]{64}$/, "Checksum must be a hex SHA-256 digest")
+    .transform((value) => value.toLowerCase())
+    .optional(),
 });
 
-export const performActionSchema = z.object({
-  action: z.nativeEnum(EscrowAction),
-  performedBy: z.string().min(1, "Performed by is required"),
-  userRole: z.nativeEnum(UserRole),
-  reason: z.string().optional(),
+/**
+ * Converts the amounts in a validated action to minor units of the escrow's currency.
+ * Throws a ZodError when an amount is more precise than the currency allows.
+ */
+export function parseActionAmounts(
+  input: PerformActionInput,
+  currency: CurrencyCode
+): Pick<ActionOptions, "terms" | "split"> {
+  const money = moneySchema(currency);
+  return z
+    .object({
+      terms: z
+        .object({
+          amount: money.optional(),
+          description: z.string().optional(),
+          milestones: z.array(z.object({ name: z.string(), amount: money })).optional(),
+        })
+        .optional(),
+      split: z
+        .union([
+          z.object({ buyerAmount: money, sellerAmount: money }),
+          z.object({ buyerPercentage: z.number() }),
+        ])
+        .optional(),
+    })
+    .parse({ terms: input.terms, split: input.split });
+}
+
+const commaSeparated = (value: unknown) =>
+  typeof value === "string" ? value.split(",").map((part) => part.trim()).filter(Boolean) : value;
+
+export const listEscrowsQuerySchema = z
+  .object({
+    currentState: z.preprocess(commaSeparated, z.array(z.nativeEnum(EscrowState))).optional(),
+    buyerId: z.string().min(1).optional(),
+    sellerId: z.string().min(1).optional(),
+    currency: currencySchema.optional(),
+    minAmount: nonNegativeAmount("minAmount must not be negative").optional(),
+    maxAmount: nonNegativeAmount("maxAmount must not be negative").optional(),
+    createdAfter: z.coerce.date().optional(),
+    createdBefore: z.coerce.date().optional(),
+    updatedAfter: z.coerce.date().optional(),
+    updatedBefore: z.coerce.date().optional(),
+    sortBy: z
+      .enum(["createdAt", "updatedAt", "amount", "currentState", "buyerId", "sellerId"])
+      .default("createdAt"),
+    sortOrder: z.enum(["asc", "desc"]).default("desc"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().min(1).optional(),
+  })
+  .refine(
+    (q) => q.currency !== undefined || (q.minAmount === undefined && q.maxAmount === undefined),
+    { message: "Amount filters require a currency", path: ["currency"] }
+  )
+  .transform((q, ctx) => {
+    if (!q.currency) return { ...q, minAmount: undefined, maxAmount: undefined };
+    const money = moneySchema(q.currency);
+    const amounts = parseNested(
+      z.object({ minAmount: money.optional(), maxAmount: money.optional() }),
+      q,
+      ctx
+    );
+    return amounts === null
+      ? z.NEVER
+      : { ...q, minAmount: amounts.minAmount, maxAmount: amounts.maxAmount };
+  })
+  .refine(
+    (q) => q.minAmount === undefined || q.maxAmount === undefined || q.minAmount <= q.maxAmount,
+    { message: "minAmount must not exceed maxAmount", path: ["minAmount"] }
+  );
+
+export const disputeQueueQuerySchema = z.object({
+  status: z
+    .preprocess(
+      commaSeparated,
+      z.array(z.enum([DisputeStatus.OPEN, DisputeStatus.AWAITING_SELLER, DisputeStatus.UNDER_REVIEW]))
+    )
+    .optional(),
+  category: z.preprocess(commaSeparated, z.array(z.nativeEnum(DisputeCategory))).optional(),
+  // An admin's user ID, "me" for the caller, or "none" for unassigned disputes
+  assignedTo: z.string().min(1).optional(),
+  sortBy: z.enum(["priority", "age"]).default("priority"),
 });
 
 export type CreateEscrowInput = z.infer<typeof createEscrowSchema>;
 export type PerformActionInput = z.infer<typeof performActionSchema>;
+export type ListEscrowsQueryInput = z.infer<typeof listEscrowsQuerySchema>;
+
+export const createSessionSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+});
 
+const webhookUrlSchema = z
+  .string()
+  .url("URL must be a valid URL")
+  .refine((value) => /^https?:$/.test(new URL(value).protocol), "URL must use http or https");
 
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  // Generated when omitted
+  secret: z.string().min(16, "Secret must be at least 16 characters").optional(),
+  eventTypes: z.array(z.nativeEnum(EventType)).default([]),
+  active: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    secret: z.string().min(16, "Secret must be at least 16 characters").optional(),
+    eventTypes: z.array(z.nativeEnum(EventType)).optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be updated",
+  });
 
+export const dispatchOutboxSchema = z.object({
+  consumer: z.string().min(1).optional(),
+  afterOffset: z.number().int().min(0, "afterOffset must not be negative").optional(),
+});
 
+export const escrowPointInTimeQuerySchema = z
+  .object({
+    asOf: z.coerce.date().optional(),
+    atEvent: z.string().min(1).optional(),
+  })
+  .refine((query) => query.asOf === undefined || query.atEvent === undefined, {
+    message: "Use either asOf or atEvent, not both",
+    path: ["atEvent"],
+  });
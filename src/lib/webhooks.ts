@@ -0,0 +1,444 @@
+/**
+ * Webhooks
+ *
+ * Sends every stored escrow event to the subscriptions that want it. The
+ * "webhooks" outbox consumer queues a delivery per matching subscription, and
+ * the webhook dispatcher POSTs it with an HMAC signature, retrying failures with
+ * exponential backoff until the attempts run out. Deliveries for one escrow
+ * reach a subscription in log order: a delivery waiting for a retry holds back
+ * the later events of the same escrow.
+ *
+ * Receivers verify the `X-Escrow-Signature` header, `t=<unix seconds>,v1=<hex>`,
+ * where v1 is the HMAC-SHA256 of `<t>.<body>` under the subscription secret.
+ *
+ * Webhooks only go to public addresses. A URL whose host is, or resolves to, a
+ * loopback, private, link-local (cloud metadata) or otherwise reserved address
+ * is refused when it is registered and again before every attempt. Each attempt
+ * connects to the address that was checked rather than looking the host up
+ * again, so a name that rebinds to a private address after the check cannot
+ * be used to reach the server's own network.
+ *
+ * Configuration:
+ * - ESCROW_WEBHOOK_INTERVAL_MS: dispatch interval (default: 1000; "0" disables the timer)
+ * - ESCROW_WEBHOOK_MAX_ATTEMPTS: attempts before a delivery is marked failed (default: 8)
+ * - ESCROW_WEBHOOK_RETRY_BASE_MS: delay before the first retry, doubled for each one after (default: 10000)
+ * - ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS: "true" lets webhooks reach private addresses (local development only)
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, LookupFunction, isIP } from "node:net";
+import { Actor, EscrowWithHistory, canView } from "@/domain/escrow";
+import { EscrowEvent } from "@/domain/events";
+import { EscrowRepository, OutboxEntry } from "@/storage/escrow-repository";
+import { WebhookDelivery, WebhookStore, WebhookSubscription } from "@/storage/webhook-store";
+import { isAdminUser } from "./auth";
+import { OutboxConsumer } from "./outbox-dispatcher";
+import { serializeEvent } from "./serializers";
+
+export const SIGNATURE_HEADER = "X-Escrow-Signature";
+
+const DEFAULT_INTERVAL_MS = 1000;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_BASE_MS = 10 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Addresses a webhook may not reach: unspecified, loopback, private, shared,
+// link-local (including 169.254.169.254), multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((result) => result.address);
+
+export interface WebhookRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  // The checked address to connect to; null to look the host up as usual
+  address: string | null;
+}
+
+// Sends a webhook and resolves to the receiver's HTTP status
+export type WebhookTransport = (request: WebhookRequest) => Promise<number>;
+
+export interface WebhookDispatchOptions {
+  transport?: WebhookTransport;
+  resolve?: HostResolver;
+  now?: () => Date;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+}
+
+export interface WebhookDispatchResult {
+  delivered: string[];
+  // Failed attempts that will be retried
+  retrying: string[];
+  // Deliveries that used their last attempt
+  failed: string[];
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export function createSubscriptionId(): string {
+  return randomId("whk");
+}
+
+/**
+ * Admins manage every subscription; other users the ones they registered
+ */
+export function canManageWebhook(subscription: WebhookSubscription, actor: Actor): boolean {
+  return actor.isAdmin || subscription.ownerId === actor.userId;
+}
+
+// Either why the URL is refused, or the address a delivery may connect to
+// (null when private targets are allowed and the host is looked up as usual)
+type TargetCheck = { refused: string } | { address: string | null };
+
+async function vetWebhookTarget(url: string, resolve: HostResolver): Promise<TargetCheck> {
+  if (process.env.ESCROW_WEBHOOK_ALLOW_PRIVATE_TARGETS === "true") return { address: null };
+
+  const refused = { refused: "Webhook URL must resolve to a public address" };
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) return refused;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+  } catch {
+    return { refused: `Webhook host ${hostname} could not be resolved` };
+  }
+  if (addresses.length === 0) return { refused: `Webhook host ${hostname} could not be resolved` };
+
+  const blocked = addresses.some((address) =>
+    BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4")
+  );
+  return blocked ? refused : { address: addresses[0] };
+}
+
+/**
+ * Why a URL may not receive webhooks, or null if it may: its host must be a
+ * public address, or a name that resolves only to public addresses
+ */
+export async function checkWebhookTarget(
+  url: string,
+  resolve: HostResolver = resolveHost
+): Promise<string | null> {
+  const target = await vetWebhookTarget(url, resolve);
+  return "refused" in target ? target.refused : null;
+}
+
+/**
+ * POSTs a webhook without following redirects. Given an address, connects to it
+ * instead of looking the host up again; the URL's host still names the receiver
+ * in the Host header and for TLS.
+ */
+export function sendWebhookRequest({ url, headers, body, address }: WebhookRequest): Promise<number> {
+  const lookup: LookupFunction | undefined = address
+    ? (_hostname, options, callback) => {
+        const family = isIP(address);
+        if (options.all) callback(null, [{ address, family }]);
+        else callback(null, address, family);
+      }
+    : undefined;
+
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * A random signing secret for subscriptions registered without one
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * The hex HMAC-SHA256 of `<timestamp>.<body>`
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * The signature header value for a body sent at the given time
+ */
+export function formatSignatureHeader(secret: string, body: string, at: Date = new Date()): string {
+  const timestamp = Math.floor(at.getTime() / 1000);
+  return `t=${timestamp},v1=${signPayload(secret, timestamp, body)}`;
+}
+
+/**
+ * Checks a signature header against the body received, rejecting stale timestamps
+ */
+export function verifySignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: Date = new Date(),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = new Map(
+    header.split(",").map((part) => {
+      const separator = part.indexOf("=");
+      return [part.slice(0, separator).trim(), part.slice(separator + 1).trim()] as const;
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body), "utf-8");
+  const actual = Buffer.from(signature, "utf-8");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Delay before retrying after the given number of failed attempts
+ */
+export function retryDelayMs(failedAttempts: number, baseMs = DEFAULT_RETRY_BASE_MS): number {
+  return baseMs * 2 ** (failedAttempts - 1);
+}
+
+function wants(subscription: WebhookSubscription, event: EscrowEvent, escrow: EscrowWithHistory) {
+  if (!subscription.active) return false;
+  if (subscription.eventTypes.length > 0 && !subscription.eventTypes.includes(event.type)) {
+    return false;
+  }
+  const owner = { userId: subscription.ownerId, isAdmin: isAdminUser(subscription.ownerId) };
+  return canView(escrow, owner);
+}
+
+/**
+ * Queues an outbox entry for every subscription that wants it. Entries can be
+ * delivered more than once, so subscriptions that already have the event are skipped.
+ */
+export function enqueueWebhooks(
+  store: WebhookStore,
+  entry: OutboxEntry,
+  escrow: EscrowWithHistory,
+  now: Date = new Date()
+): WebhookDelivery[] {
+  const { event, sequence } = entry;
+  const deliveries: WebhookDelivery[] = [];
+
+  for (const subscription of store.listSubscriptions()) {
+    if (!wants(subscription, event, escrow)) continue;
+    if (store.findDelivery(subscription.id, event.id)) continue;
+
+    const id = randomId("dlv");
+    deliveries.push({
+      id,
+      subscriptionId: subscription.id,
+      escrowId: escrow.id,
+      eventId: event.id,
+      eventType: event.type,
+      sequence,
+      payload: JSON.stringify({
+        id,
+        type: event.type,
+        escrowId: escrow.id,
+        sequence,
+        event: serializeEvent(event, escrow.currency),
+      }),
+      status: "pending",
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+    });
+  }
+
+  store.addDeliveries(deliveries);
+  return deliveries;
+}
+
+/**
+ * The outbox consumer that queues webhook deliveries
+ */
+export function createWebhookConsumer(
+  repository: EscrowRepository,
+  store: WebhookStore,
+  now: () => Date = () => new Date()
+): OutboxConsumer {
+  return {
+    name: "webhooks",
+    handle(entry) {
+      const escrow = repository.getById(entry.escrowId);
+      if (escrow) enqueueWebhooks(store, entry, escrow, now());
+    },
+  };
+}
+
+/**
+ * Makes one attempt and records it; returns whether the receiver accepted it
+ */
+async function attemptDelivery(
+  store: WebhookStore,
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+  options: Required<WebhookDispatchOptions>
+): Promise<boolean> {
+  const at = options.now();
+  const started = Date.now();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  try {
+    // Checked on every attempt: what a name resolves to can change after registration
+    const target = await vetWebhookTarget(subscription.url, options.resolve);
+    if ("refused" in target) throw new Error(target.refused);
+
+    statusCode = await options.transport({
+      url: subscription.url,
+      headers: {
+        "Content-Type": "application/json",
+        [SIGNATURE_HEADER]: formatSignatureHeader(subscription.secret, delivery.payload, at),
+        "X-Escrow-Event": delivery.eventType,
+        "X-Escrow-Delivery": delivery.id,
+      },
+      body: delivery.payload,
+      address: target.address,
+    });
+    if (statusCode < 200 || statusCode > 299) error = `Receiver responded with HTTP ${statusCode}`;
+  } catch (cause) {
+    error = cause instanceof Error ? cause.message : String(cause);
+  }
+
+  const attempts = [...delivery.attempts, { at, statusCode, error, durationMs: Date.now() - started }];
+  const exhausted = attempts.length >= options.maxAttempts;
+  store.saveDelivery({
+    ...delivery,
+    attempts,
+    status: !error ? "succeeded" : exhausted ? "failed" : "pending",
+    nextAttemptAt:
+      !error || exhausted
+        ? null
+        : new Date(at.getTime() + retryDelayMs(attempts.length, options.retryBaseMs)),
+  });
+  return !error;
+}
+
+/**
+ * Attempts every pending delivery that is due, keeping each escrow's events in order
+ */
+export async function runWebhookDispatch(
+  store: WebhookStore,
+  options: WebhookDispatchOptions = {}
+): Promise<WebhookDispatchResult> {
+  const resolved: Required<WebhookDispatchOptions> = {
+    transport: options.transport ?? sendWebhookRequest,
+    resolve: options.resolve ?? resolveHost,
+    now: options.now ?? (() => new Date()),
+    maxAttempts:
+      options.maxAttempts ?? Number(process.env.ESCROW_WEBHOOK_MAX_ATTEMPTS ?? DEFAULT_MAX_ATTEMPTS),
+    retryBaseMs:
+      options.retryBaseMs ?? Number(process.env.ESCROW_WEBHOOK_RETRY_BASE_MS ?? DEFAULT_RETRY_BASE_MS),
+  };
+  const result: WebhookDispatchResult = { delivered: [], retrying: [], failed: [] };
+
+  // One queue per subscription and escrow, in the order the events were appended
+  const queues = new Map<string, WebhookDelivery[]>();
+  for (const delivery of store.listDeliveries()) {
+    if (delivery.status !== "pending") continue;
+    const key = `${delivery.subscriptionId}:${delivery.escrowId}`;
+    queues.set(key, [...(queues.get(key) ?? []), delivery]);
+  }
+
+  for (const queue of queues.values()) {
+    const subscription = store.getSubscription(queue[0].subscriptionId);
+    // Paused subscriptions keep their queue until they are reactivated
+    if (!subscription?.active) continue;
+
+    for (const delivery of queue) {
+      if (delivery.nextAttemptAt && delivery.nextAttemptAt > resolved.now()) break;
+
+      if (await attemptDelivery(store, subscription, delivery, resolved)) {
+        result.delivered.push(delivery.id);
+        continue;
+      }
+
+      const exhausted = delivery.attempts.length + 1 >= resolved.maxAttempts;
+      result[exhausted ? "failed" : "retrying"].push(delivery.id);
+      // A failed delivery is given up on, so the events after it may go out on the next run
+      break;
+    }
+  }
+
+  return result;
+}
+
+declare global {
+  var __ESCROW_WEBHOOK_TIMER: ReturnType<typeof setInterval> | undefined;
+}
+
+/**
+ * Starts the background dispatcher once per process
+ */
+export function startWebhookDispatcher(
+  store: WebhookStore,
+  intervalMs: number = Number(process.env.ESCROW_WEBHOOK_INTERVAL_MS ?? DEFAULT_INTERVAL_MS)
+): void {
+  if (globalThis.__ESCROW_WEBHOOK_TIMER || !(intervalMs > 0)) return;
+
+  let running = false;
+  globalThis.__ESCROW_WEBHOOK_TIMER = setInterval(async () => {
+    // Slow receivers must not let runs pile up
+    if (running) return;
+    running = true;
+    try {
+      await runWebhookDispatch(store);
+    } catch (error) {
+      console.error("Webhook dispatch failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  globalThis.__ESCROW_WEBHOOK_TIMER.unref?.();
+}
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for event-sourced reads and the snapshot consistency checker
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { SYSTEM_ACTOR, applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EscrowRepository } from "../escrow-repository";
+import { createEscrowRepository, StorageBackend } from "../escrow-store";
+import { checkConsistency } from "../consistency";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+
+function tamperSnapshot(backend: StorageBackend, dataDir: string, id: string, currentState: EscrowState) {
+  if (backend === "json") {
+    const file = path.join(dataDir, "escrows.json");
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    data.escrows[id].snapshot.currentState = currentState;
+    fs.writeFileSync(file, JSON.stringify(data));
+  } else {
+    const db = new Database(path.join(dataDir, "escrows.sqlite"));
+    const row = db.prepare("SELECT snapshot FROM escrows WHERE id = ?").get(id) as { snapshot: string };
+    const snapshot = { ...JSON.parse(row.snapshot), currentState };
+    db.prepare("UPDATE escrows SET current_state = ?, snapshot = ? WHERE id = ?").run(
+      currentState,
+      JSON.stringify(snapshot),
+      id
+    );
+    db.close();
+  }
+}
+
+describe.each(["json", "sqlite"] as StorageBackend[])("Snapshot consistency (%s storage)", (backend) => {
+  let dataDir: string;
+  let repository: EscrowRepository;
+
+  function seed(id: string) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 1000, "USD", "Consistency test");
+    repository.create(event);
+    const accept = applyAction(escrow, EscrowAction.ACCEPT, seller);
+    const accepted = repository.appendEvents(id, [accept.event!], escrow.version);
+    const fund = applyAction(accepted, EscrowAction.FUND, buyer);
+    const funding = repository.appendEvents(id, [fund.event!], accepted.version);
+    const confirm = applyAction(funding, EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR);
+    return repository.appendEvents(id, [confirm.event!], funding.version);
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-consistency-"));
+    repository = createEscrowRepository(backend, dataDir);
+  });
+
+  it("should report no issues when snapshots match the event log", () => {
+    seed("c-1");
+    seed("c-2");
+
+    expect(checkConsistency(repository)).toEqual({ checked: 2, consistent: true, issues: [] });
+  });
+
+  it("should read state from events and flag a snapshot that disagrees", () => {
+    seed("c-1");
+    seed("c-2");
+    tamperSnapshot(backend, dataDir, "c-2", EscrowState.RELEASED);
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    expect(reopened.getById("c-2")?.currentState).toBe(EscrowState.FUNDED);
+
+    const report = checkConsistency(reopened);
+    expect(report.consistent).toBe(false);
+    expect(report.issues).toEqual([
+      {
+        escrowId: "c-2",
+        kind: "snapshot_mismatch",
+        differences: [
+          { field: "currentState", snapshot: EscrowState.RELEASED, replayed: EscrowState.FUNDED },
+        ],
+      },
+    ]);
+  });
+
+  it("should answer queries by replaying logs when snapshots are disabled", () => {
+    repository = createEscrowRepository(backend, dataDir, { snapshots: false });
+    seed("c-1");
+
+    expect(repository.getSnapshot("c-1")).toBeNull();
+    expect(
+      repository.query({ sortBy: "createdAt", sortOrder: "asc", limit: 10 }).items.map((e) => [
+        e.id,
+        e.currentState,
+      ])
+    ).toEqual([["c-1", EscrowState.FUNDED]]);
+    expect(checkConsistency(repository).consistent).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for escrow filtering, sorting and cursor pagination
+ */
+
+import { describe, it, expect } from "vitest";
+import { Escrow } from "@/domain/escrow";
+import { EscrowState, UserRole } from "@/domain/escrow-state";
+import { EscrowQuery, InvalidCursorError, queryEscrows } from "../escrow-query";
+
+function makeEscrow(id: string, amount: number, createdAt: string, overrides: Partial<Escrow> = {}): Escrow {
+  return {
+    id,
+    buyerId: "buyer-1",
+    sellerId: "seller-1",
+    amount,
+    currency: "USD",
+    description: `Escrow ${id}`,
+    currentState: EscrowState.PROPOSED,
+    proposedBy: UserRole.BUYER,
+    releasedAmount: 0,
+    version: 1,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+    ...overrides,
+  };
+}
+
+const baseQuery: EscrowQuery = { sortBy: "createdAt", sortOrder: "asc", limit: 10 };
+
+const escrows: Escrow[] = [
+  makeEscrow("e1", 100, "2025-01-01T00:00:00Z"),
+  makeEscrow("e2", 250, "2025-01-02T00:00:00Z", { currentState: EscrowState.FUNDED }),
+  makeEscrow("e3", 250, "2025-01-03T00:00:00Z", { buyerId: "buyer-2" }),
+  makeEscrow("e4", 900, "2025-01-04T00:00:00Z", { currentState: EscrowState.RELEASED }),
+  makeEscrow("e5", 50, "2025-01-05T00:00:00Z", { sellerId: "seller-2" }),
+];
+
+describe("Escrow Query", () => {
+  it("should filter by state, participants and amount range", () => {
+    expect(
+      queryEscrows(escrows, { ...baseQuery, currentState: [EscrowState.FUNDED, EscrowState.RELEASED] })
+        .items.map((e) => e.id)
+    ).toEqual(["e2", "e4"]);
+    expect(queryEscrows(escrows, { ...baseQuery, buyerId: "buyer-2" }).items.map((e) => e.id)).toEqual(["e3"]);
+    expect(queryEscrows(escrows, { ...baseQuery, sellerId: "seller-2" }).items.map((e) => e.id)).toEqual(["e5"]);
+    expect(
+      queryEscrows(escrows, { ...baseQuery, minAmount: 100, maxAmount: 250 }).items.map((e) => e.id)
+    ).toEqual(["e1", "e2", "e3"]);
+  });
+
+  it("should filter by created date window", () => {
+    const page = queryEscrows(escrows, {
+      ...baseQuery,
+      createdAfter: new Date("2025-01-02T00:00:00Z"),
+      createdBefore: new Date("2025-01-04T00:00:00Z"),
+    });
+    expect(page.items.map((e) => e.id)).toEqual(["e2", "e3", "e4"]);
+  });
+
+  it("should sort by amount descending with ID as tie-breaker", () => {
+    const page = queryEscrows(escrows, { ...baseQuery, sortBy: "amount", sortOrder: "desc" });
+    expect(page.items.map((e) => e.id)).toEqual(["e4", "e3", "e2", "e1", "e5"]);
+  });
+
+  it("should page through results with cursors without skipping ties", () => {
+    const query: EscrowQuery = { ...baseQuery, sortBy: "amount", sortOrder: "asc", limit: 2 };
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = queryEscrows(escrows, { ...query, cursor });
+      seen.push(...page.items.map((e) => e.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(["e5", "e1", "e2", "e3", "e4"]);
+  });
+
+  it("should reject malformed cursors and cursors from a different sort", () => {
+    expect(() => queryEscrows(escrows, { ...baseQuery, cursor: "not-a-cursor" })).toThrow(InvalidCursorError);
+
+    const { nextCursor } = queryEscrows(escrows, { ...baseQuery, limit: 1 });
+    expect(() =>
+      queryEscrows(escrows, { ...baseQuery, sortBy: "amount", cursor: nextCursor! })
+    ).toThrow(InvalidCursorError);
+  });
+});
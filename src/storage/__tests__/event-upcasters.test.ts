@@ -0,0 +1,179 @@
+/**
+ * Unit tests for event schema versions: replays a fixture log written in each historical version
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { applyAction } from "@/domain/escrow";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EVENT_SCHEMA_VERSION } from "@/domain/events";
+import { IntegrityError } from "../errors";
+import { createEscrowRepository, StorageBackend } from "../escrow-store";
+import { verifyChain } from "../hash-chain";
+
+const admin = { userId: "admin-1", isAdmin: true };
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readFixture(version: number): any[] {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", `events-v${version}.json`), "utf-8"));
+}
+
+// Writes a log straight into the store, as an older release would have left it
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function writeLog(backend: StorageBackend, dataDir: string, events: any[]) {
+  const id = events[0].escrowId;
+  const last = events[events.length - 1];
+  const head = last.hash ? { hash: last.hash, length: events.length } : undefined;
+
+  if (backend === "json") {
+    const file = path.join(dataDir, "escrows.json");
+    const data = fs.existsSync(file)
+      ? JSON.parse(fs.readFileSync(file, "utf-8"))
+      : { escrows: {}, outbox: { entries: [], consumers: {} } };
+    // Older releases did not mark their logs as sealed
+    delete data.legacyLogsSealed;
+    data.escrows[id] = { events, head };
+    fs.writeFileSync(file, JSON.stringify(data));
+  } else {
+    createEscrowRepository(backend, dataDir);
+    const db = new Database(path.join(dataDir, "escrows.sqlite"));
+    db.prepare("DELETE FROM schema_migrations WHERE name = 'seal_legacy_logs'").run();
+    const insert = db.prepare("INSERT INTO escrow_events (escrow_id, sequence, id, payload) VALUES (?, ?, ?, ?)");
+    events.forEach((event, index) => insert.run(id, index + 1, event.id, JSON.stringify(event)));
+    if (head) {
+      db.prepare("INSERT INTO escrow_chain_heads (escrow_id, hash, length) VALUES (?, ?, ?)").run(id, head.hash, head.length);
+    }
+    db.close();
+  }
+  return id;
+}
+
+describe.each(["json", "sqlite"] as StorageBackend[])("Event schema versions (%s storage)", (backend) => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-upcast-"));
+  });
+
+  it.each([
+    [1, "USD"],
+    [2, "EUR"],
+    [3, "EUR"],
+    [4, "EUR"],
+    [5, "EUR"],
+  ])("should replay a version %i log in the current shape", (version, currency) => {
+    const id = writeLog(backend, dataDir, readFixture(version));
+    const repository = createEscrowRepository(backend, dataDir);
+
+    const escrow = repository.getById(id)!;
+    expect(escrow.events.every((event) => event.schemaVersion === EVENT_SCHEMA_VERSION)).toBe(true);
+    expect(escrow).toMatchObject({
+      currentState: EscrowState.SETTLED,
+      amount: 25075,
+      currency,
+      milestones: [
+        expect.objectContaining({ amount: 10025 }),
+        expect.objectContaining({ amount: 15050 }),
+      ],
+      settlement: { buyerAmount: 6020, sellerAmount: 9030 },
+      releasedAmount: 19055,
+    });
+  });
+
+  it.each([1, 2, 3, 4, 5])("should leave a version %i log stored as written, and its chain intact", (version) => {
+    const fixture = readFixture(version);
+    const id = writeLog(backend, dataDir, fixture);
+    const repository = createEscrowRepository(backend, dataDir);
+
+    const stored = repository.getStoredEvents(id);
+    expect(stored.map((event) => event.schemaVersion)).toEqual(fixture.map((event) => event.schemaVersion));
+    expect(verifyChain(stored, repository.getChainHead(id)).valid).toBe(true);
+  });
+
+  it.each([3, 4])("should give a version %i dispute a closed response window and no category", (version) => {
+    const fixture = readFixture(version);
+    const id = writeLog(backend, dataDir, fixture);
+    const raised = fixture.find((event) => event.action === EscrowAction.DISPUTE);
+
+    const dispute = createEscrowRepository(backend, dataDir).getById(id)!.dispute!;
+    expect(dispute.category).toBeUndefined();
+    expect(dispute.assignedTo).toBeUndefined();
+    expect(dispute.sellerResponseDeadline).toEqual(new Date(raised.timestamp));
+  });
+
+  it("should append current events to a legacy log", () => {
+    const id = writeLog(backend, dataDir, readFixture(1).slice(0, 4));
+    const repository = createEscrowRepository(backend, dataDir);
+    const disputed = repository.getById(id)!;
+
+    // Disputes from before assignment existed are taken like any other
+    const assign = applyAction(disputed, EscrowAction.ASSIGN_DISPUTE, admin);
+    const refund = applyAction(assign.newEscrow!, EscrowAction.RESOLVE_DISPUTE_REFUND, admin);
+    repository.appendEvents(id, [assign.event!, refund.event!], disputed.version);
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    const stored = reopened.getStoredEvents(id);
+    expect(stored.map((event) => event.schemaVersion)).toEqual([undefined, undefined, undefined, undefined, 5, 5]);
+    expect(verifyChain(stored, reopened.getChainHead(id)).valid).toBe(true);
+    expect(reopened.getById(id)?.pendingPayment?.transfers).toEqual([{ party: "BUYER", amount: 15050 }]);
+  });
+
+  it("should refuse events from a newer schema version", () => {
+    const fixture = readFixture(5);
+    fixture[fixture.length - 1].schemaVersion = EVENT_SCHEMA_VERSION + 1;
+    const id = writeLog(backend, dataDir, fixture);
+
+    expect(() => createEscrowRepository(backend, dataDir).getEvents(id)).toThrow(/newer than the supported/);
+  });
+
+  it("should fail only the log it cannot upcast, naming the event", () => {
+    const healthy = writeLog(backend, dataDir, readFixture(5));
+    const fixture = readFixture(1);
+    fixture[0].amount = "a lot";
+    const broken = writeLog(backend, dataDir, fixture);
+    const repository = createEscrowRepository(backend, dataDir);
+
+    expect(repository.listIds().sort()).toEqual([broken, healthy].sort());
+    expect(repository.getById(healthy)?.currentState).toBe(EscrowState.SETTLED);
+    expect(() => repository.getById(broken)).toThrow(IntegrityError);
+    expect(() => repository.getEvents(broken)).toThrow(
+      `Event log of escrow ${broken} failed integrity checks at event 1: Expected an amount in major units, found "a lot"`
+    );
+  });
+});
+
+describe("JSON store file", () => {
+  let dataDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-upcast-"));
+    file = path.join(dataDir, "escrows.json");
+  });
+
+  it("should read a file from before the outbox, keyed by escrow ID", () => {
+    const fixture = readFixture(5);
+    fs.writeFileSync(file, JSON.stringify({ [fixture[0].escrowId]: { events: fixture } }));
+    const repository = createEscrowRepository("json", dataDir);
+
+    expect(repository.getById(fixture[0].escrowId)?.currentState).toBe(EscrowState.SETTLED);
+    expect(repository.getOutboxHead()).toBe(0);
+  });
+
+  it("should fail only a malformed entry, and write it back as found", () => {
+    const healthy = writeLog("json", dataDir, readFixture(5));
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    data.escrows.mangled = { events: "not a list" };
+    fs.writeFileSync(file, JSON.stringify(data));
+    const repository = createEscrowRepository("json", dataDir);
+
+    expect(() => repository.getById("mangled")).toThrow("Escrow mangled is not stored in a readable shape");
+    expect(repository.query({ sortBy: "createdAt", sortOrder: "asc", limit: 10 }).items.map((escrow) => escrow.id)).toEqual([healthy]);
+
+    repository.saveConsumerOffset("webhooks", 0);
+    expect(JSON.parse(fs.readFileSync(file, "utf-8")).escrows.mangled).toEqual({ events: "not a list" });
+  });
+});
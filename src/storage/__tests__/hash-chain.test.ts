@@ -0,0 +1,207 @@
+/**
+ * Unit tests for the event hash chain and its offline export
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { spawnSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { EscrowRepository } from "../escrow-repository";
+import { createEscrowRepository, StorageBackend } from "../escrow-store";
+import { GENESIS_HASH, buildChainExport, verifyChain } from "../hash-chain";
+import { auditEventLogs } from "../integrity";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+const VERIFIER = path.join(process.cwd(), "scripts", "verify-audit-export.mjs");
+
+// Rewrites one escrow's stored log, bypassing the repository
+function rewriteLog(
+  backend: StorageBackend,
+  dataDir: string,
+  id: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  edit: (events: any[]) => any[]
+) {
+  if (backend === "json") {
+    const file = path.join(dataDir, "escrows.json");
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    data.escrows[id].events = edit(data.escrows[id].events);
+    fs.writeFileSync(file, JSON.stringify(data));
+  } else {
+    const db = new Database(path.join(dataDir, "escrows.sqlite"));
+    const rows = db
+      .prepare("SELECT payload FROM escrow_events WHERE escrow_id = ? ORDER BY sequence")
+      .all(id) as { payload: string }[];
+    const events = edit(rows.map((row) => JSON.parse(row.payload)));
+    db.prepare("DELETE FROM escrow_events WHERE escrow_id = ?").run(id);
+    const insert = db.prepare("INSERT INTO escrow_events (escrow_id, sequence, id, payload) VALUES (?, ?, ?, ?)");
+    events.forEach((event, index) => insert.run(id, index + 1, event.id, JSON.stringify(event)));
+    db.close();
+  }
+}
+
+// Removes one escrow's stored chain head, as in stores from before events were hashed
+function dropChainHead(backend: StorageBackend, dataDir: string, id: string) {
+  if (backend === "json") {
+    const file = path.join(dataDir, "escrows.json");
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    delete data.escrows[id].head;
+    fs.writeFileSync(file, JSON.stringify(data));
+  } else {
+    const db = new Database(path.join(dataDir, "escrows.sqlite"));
+    db.prepare("DELETE FROM escrow_chain_heads WHERE escrow_id = ?").run(id);
+    db.close();
+  }
+}
+
+// Removes the marker that legacy logs were sealed, as in stores from before events were hashed
+function forgetLegacySealing(backend: StorageBackend, dataDir: string) {
+  if (backend === "json") {
+    const file = path.join(dataDir, "escrows.json");
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    delete data.legacyLogsSealed;
+    fs.writeFileSync(file, JSON.stringify(data));
+  } else {
+    const db = new Database(path.join(dataDir, "escrows.sqlite"));
+    db.prepare("DELETE FROM schema_migrations WHERE name = 'seal_legacy_logs'").run();
+    db.close();
+  }
+}
+
+function exportFile(repository: EscrowRepository, id: string): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "escrow-export-")), `${id}.json`);
+  fs.writeFileSync(file, JSON.stringify(buildChainExport(id, repository.getStoredEvents(id), repository.getChainHead(id))));
+  return file;
+}
+
+describe.each(["json", "sqlite"] as StorageBackend[])("Event hash chain (%s storage)", (backend) => {
+  let dataDir: string;
+  let repository: EscrowRepository;
+
+  function seed(id: string) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 1000, "USD", "Chain test");
+    repository.create(event);
+    const accept = applyAction(escrow, EscrowAction.ACCEPT, seller);
+    const accepted = repository.appendEvents(id, [accept.event!], escrow.version);
+    const cancel = applyAction(accepted, EscrowAction.CANCEL, buyer, { reason: "Changed my mind" });
+    return repository.appendEvents(id, [cancel.event!], accepted.version);
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-chain-"));
+    repository = createEscrowRepository(backend, dataDir);
+  });
+
+  it("should seal every stored event onto the chain and keep its head", () => {
+    const escrow = seed("h-1");
+
+    const [first, second, third] = escrow.events;
+    expect(first.previousHash).toBe(GENESIS_HASH);
+    expect(second.previousHash).toBe(first.hash);
+    expect(third.previousHash).toBe(second.hash);
+    expect(repository.getChainHead("h-1")).toEqual({ hash: third.hash, length: 3 });
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    expect(verifyChain(reopened.getStoredEvents("h-1"), reopened.getChainHead("h-1"))).toMatchObject({
+      valid: true,
+      length: 3,
+      headHash: third.hash,
+    });
+  });
+
+  it("should detect edited and dropped events", () => {
+    seed("h-1");
+    seed("h-2");
+    // Still a legal history, so only the chain can tell
+    rewriteLog(backend, dataDir, "h-1", (events) => [{ ...events[0], description: "Something else" }, ...events.slice(1)]);
+    rewriteLog(backend, dataDir, "h-2", (events) => events.slice(0, 2));
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    expect(verifyChain(reopened.getStoredEvents("h-1"), reopened.getChainHead("h-1")).brokenAt).toMatchObject({
+      sequence: 1,
+      reason: "The event's content does not match its hash",
+    });
+    expect(verifyChain(reopened.getStoredEvents("h-2"), reopened.getChainHead("h-2")).brokenAt).toMatchObject({
+      sequence: 2,
+      reason: "The stored head covers 3 events, but the log holds 2",
+    });
+    expect(auditEventLogs(reopened).issues.map((issue) => [issue.escrowId, issue.violations[0].kind])).toEqual([
+      ["h-1", "broken_chain"],
+      ["h-2", "broken_chain"],
+    ]);
+  });
+
+  it("should seal logs written before events were hashed", () => {
+    const { events } = seed("h-1");
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    rewriteLog(backend, dataDir, "h-1", (stored) => stored.map(({ hash, previousHash, ...event }) => event));
+    dropChainHead(backend, dataDir, "h-1");
+    forgetLegacySealing(backend, dataDir);
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    expect(reopened.getEvents("h-1").map((event) => event.hash)).toEqual(events.map((event) => event.hash));
+    expect(verifyChain(reopened.getStoredEvents("h-1"), reopened.getChainHead("h-1")).valid).toBe(true);
+
+    // Sealed once: the next open finds the marker and leaves the log as stored
+    const again = createEscrowRepository(backend, dataDir);
+    expect(again.getChainHead("h-1")).toEqual({ hash: events[2].hash, length: 3 });
+  });
+
+  it("should not reseal an edited log whose hashes and head were removed", () => {
+    seed("h-1");
+    rewriteLog(backend, dataDir, "h-1", (stored) =>
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      stored.map(({ hash, previousHash, ...event }, index) => (index === 2 ? { ...event, reason: "Edited" } : event))
+    );
+    dropChainHead(backend, dataDir, "h-1");
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    expect(reopened.getChainHead("h-1")).toBeNull();
+    expect(reopened.getStoredEvents("h-1").every((event) => !event.hash)).toBe(true);
+    expect(verifyChain(reopened.getStoredEvents("h-1"), reopened.getChainHead("h-1"))).toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 1, reason: "The event was never sealed" },
+    });
+    expect(auditEventLogs(reopened).issues.map((issue) => [issue.escrowId, issue.violations[0].kind])).toEqual([
+      ["h-1", "broken_chain"],
+    ]);
+  });
+
+  it("should not reseal a sealed log whose hashes were stripped", () => {
+    const { events } = seed("h-1");
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    rewriteLog(backend, dataDir, "h-1", (stored) => stored.map(({ hash, previousHash, ...event }) => event));
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    expect(reopened.getChainHead("h-1")).toEqual({ hash: events[2].hash, length: 3 });
+    expect(verifyChain(reopened.getStoredEvents("h-1"), reopened.getChainHead("h-1"))).toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 1, reason: "The event was never sealed" },
+    });
+    expect(auditEventLogs(reopened).issues.map((issue) => [issue.escrowId, issue.violations[0].kind])).toEqual([
+      ["h-1", "broken_chain"],
+    ]);
+  });
+
+  it("should export a log that verifies offline, and fails once edited", () => {
+    seed("h-1");
+    const file = exportFile(repository, "h-1");
+
+    const verified = spawnSync(process.execPath, [VERIFIER, file], { encoding: "utf-8" });
+    expect(verified.status).toBe(0);
+    expect(verified.stdout).toContain(`Head hash: ${repository.getChainHead("h-1")!.hash}`);
+
+    const document = JSON.parse(fs.readFileSync(file, "utf-8"));
+    document.events[2].reason = "Edited afterwards";
+    fs.writeFileSync(file, JSON.stringify(document));
+
+    const tampered = spawnSync(process.execPath, [VERIFIER, file], { encoding: "utf-8" });
+    expect(tampered.status).toBe(1);
+    expect(tampered.stdout).toContain("Event 3");
+  });
+});
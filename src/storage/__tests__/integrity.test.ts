@@ -0,0 +1,159 @@
+/**
+ * Unit tests for strict replay and the event log audit
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction, EscrowState } from "@/domain/escrow-state";
+import { EscrowRepository } from "../escrow-repository";
+import { createEscrowRepository, StorageBackend } from "../escrow-store";
+import { IntegrityError } from "../errors";
+import { auditEventLogs } from "../integrity";
+
+const seller = { userId: "seller-1", isAdmin: false };
+
+// Hand-edits one stored event, bypassing the repository
+function tamperEvent(
+  backend: StorageBackend,
+  dataDir: string,
+  id: string,
+  sequence: number,
+  changes: Record<string, unknown>
+) {
+  if (backend === "json") {
+    const file = path.join(dataDir, "escrows.json");
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    Object.assign(data.escrows[id].events[sequence - 1], changes);
+    fs.writeFileSync(file, JSON.stringify(data));
+  } else {
+    const db = new Database(path.join(dataDir, "escrows.sqlite"));
+    const row = db
+      .prepare("SELECT payload FROM escrow_events WHERE escrow_id = ? AND sequence = ?")
+      .get(id, sequence) as { payload: string };
+    db.prepare("UPDATE escrow_events SET payload = ? WHERE escrow_id = ? AND sequence = ?").run(
+      JSON.stringify({ ...JSON.parse(row.payload), ...changes }),
+      id,
+      sequence
+    );
+    db.close();
+  }
+}
+
+describe.each(["json", "sqlite"] as StorageBackend[])("Event log integrity (%s storage)", (backend) => {
+  let dataDir: string;
+  let repository: EscrowRepository;
+
+  function seed(id: string) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 1000, "USD", "Integrity test");
+    repository.create(event);
+    const accept = applyAction(escrow, EscrowAction.ACCEPT, seller);
+    return repository.appendEvents(id, [accept.event!], escrow.version);
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-integrity-"));
+    repository = createEscrowRepository(backend, dataDir);
+  });
+
+  it("should report a sound store", () => {
+    seed("g-1");
+    seed("g-2");
+
+    expect(auditEventLogs(repository)).toEqual({ checked: 2, events: 4, valid: true, issues: [] });
+  });
+
+  it("should refuse to replay a hand-edited log and report it in the audit", () => {
+    seed("g-1");
+    seed("g-2");
+    tamperEvent(backend, dataDir, "g-2", 2, { toState: EscrowState.RELEASED });
+
+    const reopened = createEscrowRepository(backend, dataDir);
+    expect(reopened.getById("g-1")?.currentState).toBe(EscrowState.ACCEPTED);
+    expect(() => reopened.getById("g-2")).toThrow(IntegrityError);
+
+    const report = auditEventLogs(reopened);
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      {
+        escrowId: "g-2",
+        violations: [
+          expect.objectContaining({
+            kind: "illegal_transition",
+            sequence: 2,
+            message: "ACCEPT from PROPOSED cannot lead to RELEASED",
+          }),
+          expect.objectContaining({ kind: "broken_chain", sequence: 2 }),
+        ],
+      },
+    ]);
+  });
+
+  it("should report a log it cannot read and keep auditing the rest", () => {
+    seed("g-1");
+    seed("g-2");
+    seed("g-3");
+    tamperEvent(backend, dataDir, "g-2", 2, { schemaVersion: 99 });
+
+    const report = auditEventLogs(createEscrowRepository(backend, dataDir));
+    expect(report).toMatchObject({ checked: 3, events: 4, valid: false });
+    expect(report.issues).toEqual([
+      {
+        escrowId: "g-2",
+        violations: [
+          expect.objectContaining({
+            kind: "unreadable",
+            sequence: 2,
+            message: expect.stringContaining("newer than the supported"),
+          }),
+        ],
+      },
+    ]);
+  });
+
+  it("should leave logs that fail to replay out of queries without snapshots", () => {
+    seed("g-1");
+    seed("g-2");
+    seed("g-3");
+    tamperEvent(backend, dataDir, "g-2", 2, { toState: EscrowState.RELEASED });
+    tamperEvent(backend, dataDir, "g-3", 2, { schemaVersion: 99 });
+
+    const reopened = createEscrowRepository(backend, dataDir, { snapshots: false });
+    expect(reopened.query({ sortBy: "createdAt", sortOrder: "asc", limit: 10 }).items.map((escrow) => escrow.id)).toEqual(["g-1"]);
+  });
+
+  it("should reject appends that do not follow from the log", () => {
+    const accepted = seed("g-1");
+    // Built against a stale state: the escrow is no longer PROPOSED
+    const { escrow } = createEscrow("g-1", "buyer-1", "seller-1", 1000, "USD", "Integrity test");
+    const stale = applyAction(escrow, EscrowAction.ACCEPT, seller);
+
+    expect(() => repository.appendEvents("g-1", [stale.event!], accepted.version)).toThrow(IntegrityError);
+    expect(repository.getEvents("g-1")).toHaveLength(2);
+  });
+});
+
+describe("Event log audit", () => {
+  it("should report event IDs shared between escrows", () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-integrity-"));
+    const repository = createEscrowRepository("json", dataDir);
+    for (const id of ["g-1", "g-2"]) {
+      repository.create(createEscrow(id, "buyer-1", "seller-1", 1000, "USD", "Integrity test").event);
+    }
+    const [shared] = repository.getEvents("g-1");
+    tamperEvent("json", dataDir, "g-2", 1, { id: shared.id });
+
+    expect(auditEventLogs(createEscrowRepository("json", dataDir)).issues).toEqual([
+      {
+        escrowId: "g-2",
+        violations: [
+          expect.objectContaining({ kind: "broken_chain", sequence: 1 }),
+          expect.objectContaining({ kind: "duplicate_event_id", eventId: shared.id }),
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the ledger invariant checker and account views
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { Actor, SYSTEM_ACTOR, applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { EscrowRepository } from "../escrow-repository";
+import { createEscrowRepository, StorageBackend } from "../escrow-store";
+import { canViewAccount, checkLedger, getAccount } from "../ledger";
+
+const buyer = { userId: "buyer-1", isAdmin: false };
+const seller = { userId: "seller-1", isAdmin: false };
+const stranger = { userId: "stranger", isAdmin: false };
+
+// Rewrites one stored event's payload in place
+function tamperEvent(
+  backend: StorageBackend,
+  dataDir: string,
+  escrowId: string,
+  index: number,
+  patch: (event: Record<string, unknown>) => void
+) {
+  if (backend === "json") {
+    const file = path.join(dataDir, "escrows.json");
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    patch(data.escrows[escrowId].events[index]);
+    fs.writeFileSync(file, JSON.stringify(data));
+  } else {
+    const db = new Database(path.join(dataDir, "escrows.sqlite"));
+    const row = db
+      .prepare("SELECT id, payload FROM escrow_events WHERE escrow_id = ? AND sequence = ?")
+      .get(escrowId, index + 1) as { id: string; payload: string };
+    const event = JSON.parse(row.payload);
+    patch(event);
+    db.prepare("UPDATE escrow_events SET payload = ? WHERE id = ?").run(JSON.stringify(event), row.id);
+    db.close();
+  }
+}
+
+describe.each(["json", "sqlite"] as StorageBackend[])("Ledger (%s storage)", (backend) => {
+  let dataDir: string;
+  let repository: EscrowRepository;
+
+  function seed(id: string, release: boolean) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 1000, "USD", "Ledger test");
+    repository.create(event);
+    let current = escrow;
+    const actions: [EscrowAction, Actor][] = [
+      [EscrowAction.ACCEPT, seller],
+      [EscrowAction.FUND, buyer],
+      [EscrowAction.CONFIRM_FUNDING, SYSTEM_ACTOR],
+      ...(release
+        ? ([
+            [EscrowAction.RELEASE, seller],
+            [EscrowAction.CONFIRM_PAYOUT, SYSTEM_ACTOR],
+          ] as [EscrowAction, Actor][])
+        : []),
+    ];
+    for (const [action, actor] of actions) {
+      const result = applyAction(current, action, actor);
+      current = repository.appendEvents(id, [result.event!], current.version);
+    }
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-ledger-"));
+    repository = createEscrowRepository(backend, dataDir);
+  });
+
+  it("should report a consistent ledger and expose each account's entries", () => {
+    seed("l-1", true);
+    seed("l-2", false);
+
+    expect(checkLedger(repository)).toEqual({ checked: 2, consistent: true, issues: [] });
+    const holding = getAccount(repository, "escrow:l-2");
+    expect(holding.entries).toHaveLength(1);
+    expect(holding.balances).toEqual([{ accountId: "escrow:l-2", currency: "USD", balance: 1000 }]);
+  });
+
+  it("should read only the logs of escrows that can post to the account", () => {
+    seed("l-1", true);
+    repository.create(createEscrow("l-other", "buyer-2", "seller-2", 500, "USD", "Unrelated").event);
+    const getEvents = vi.spyOn(repository, "getEvents");
+
+    expect(getAccount(repository, "seller:seller-1").balances).toEqual([
+      { accountId: "seller:seller-1", currency: "USD", balance: 1000 },
+    ]);
+    expect(getAccount(repository, "escrow:l-1").entries).toHaveLength(2);
+    expect(getEvents.mock.calls.map(([id]) => id)).toEqual(["l-1", "l-1"]);
+  });
+
+  it("should flag a terminal escrow whose holding account is not empty", () => {
+    seed("l-1", true);
+    // The release request, whose payout the confirmation settles
+    tamperEvent(backend, dataDir, "l-1", 4, (event) => {
+      (event.payout as { sellerGross: number }).sellerGross = 900;
+    });
+
+    const report = checkLedger(createEscrowRepository(backend, dataDir));
+    expect(report.consistent).toBe(false);
+    expect(report.issues).toEqual([{ escrowId: "l-1", kind: "holding_not_empty", balance: 100 }]);
+  });
+
+  it("should limit holding accounts to the escrow's parties", () => {
+    seed("l-1", false);
+
+    expect(canViewAccount(repository, "escrow:l-1", seller)).toBe(true);
+    expect(canViewAccount(repository, "escrow:l-1", stranger)).toBe(false);
+    expect(canViewAccount(repository, "seller:seller-1", stranger)).toBe(false);
+    expect(canViewAccount(repository, "platform:fees", buyer)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the outbox written alongside every event append
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { applyAction, createEscrow } from "@/domain/escrow";
+import { EscrowAction } from "@/domain/escrow-state";
+import { EscrowRepository } from "../escrow-repository";
+import { createEscrowRepository, StorageBackend } from "../escrow-store";
+import { ConcurrencyError } from "../errors";
+
+const seller = { userId: "seller-1", isAdmin: false };
+
+describe.each(["json", "sqlite"] as StorageBackend[])("Outbox (%s storage)", (backend) => {
+  let dataDir: string;
+  let repository: EscrowRepository;
+
+  function seed(id: string) {
+    const { escrow, event } = createEscrow(id, "buyer-1", "seller-1", 1000, "USD", "Outbox test");
+    repository.create(event);
+    return escrow;
+  }
+
+  function accept(id: string) {
+    const escrow = repository.getById(id)!;
+    const result = applyAction(escrow, EscrowAction.ACCEPT, seller);
+    return repository.appendEvents(id, [result.event!], escrow.version);
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "escrow-outbox-"));
+    repository = createEscrowRepository(backend, dataDir);
+  });
+
+  it("should add every stored event to the outbox in append order across escrows", () => {
+    seed("o-1");
+    seed("o-2");
+    accept("o-1");
+
+    const entries = repository.readOutbox(0, 10);
+
+    expect(entries.map((e) => [e.offset, e.escrowId, e.sequence])).toEqual([
+      [1, "o-1", 1],
+      [2, "o-2", 1],
+      [3, "o-1", 2],
+    ]);
+    expect(entries.map((e) => e.event)).toEqual([
+      repository.getEvents("o-1")[0],
+      repository.getEvents("o-2")[0],
+      repository.getEvents("o-1")[1],
+    ]);
+    expect(repository.getOutboxHead()).toBe(3);
+  });
+
+  it("should read entries after an offset, a batch at a time", () => {
+    seed("o-1");
+    seed("o-2");
+    seed("o-3");
+
+    expect(repository.readOutbox(1, 1).map((e) => e.escrowId)).toEqual(["o-2"]);
+    expect(repository.readOutbox(3, 10)).toEqual([]);
+  });
+
+  it("should add nothing for a rejected append", () => {
+    const escrow = seed("o-1");
+    const result = applyAction(escrow, EscrowAction.ACCEPT, seller);
+
+    expect(() => repository.appendEvents("o-1", [result.event!], 0)).toThrow(ConcurrencyError);
+    expect(repository.getOutboxHead()).toBe(1);
+  });
+
+  it("should keep the outbox and consumer offsets across restarts", () => {
+    seed("o-1");
+    accept("o-1");
+    repository.saveConsumerOffset("webhooks", 1);
+
+    const reopened = createEscrowRepository(backend, dataDir);
+
+    expect(reopened.getConsumerOffset("webhooks")).toBe(1);
+    expect(reopened.getConsumerOffset("never-ran")).toBe(0);
+    expect(reopened.readOutbox(1, 10).map((e) => e.sequence)).toEqual([2]);
+  });
+});
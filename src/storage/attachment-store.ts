@@ -0,0 +1,147 @@
+/**
+ * Attachment Store
+ *
+ * Files submitted as dispute evidence. The event log only references them (see
+ * EvidenceAttachment), so the store keeps each file's SHA-256 checksum and
+ * checks the content against it whenever the file is read back.
+ *
+ * Configuration:
+ * - ESCROW_ATTACHMENT_STORAGE: "local" (default; files under attachments/ in the data directory)
+ * - ESCROW_ATTACHMENT_MAX_BYTES: largest file accepted (default: 10 MiB)
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { EvidenceAttachment } from "@/domain/events";
+import { getDataDir } from "./escrow-store";
+import { ChecksumMismatchError } from "./errors";
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+// Generated IDs only; anything else never reaches the filesystem
+const ATTACHMENT_ID = /^att_\d+_[0-9a-f]+$/;
+
+export interface AttachmentUpload {
+  escrowId: string;
+  fileName: string;
+  contentType: string;
+  uploadedBy: string;
+}
+
+export interface StoredAttachment extends EvidenceAttachment {
+  escrowId: string;
+  uploadedBy: string;
+  uploadedAt: Date;
+}
+
+export interface AttachmentStore {
+  // Stores the content under a new ID, with its size and checksum
+  save(upload: AttachmentUpload, content: Buffer): StoredAttachment;
+  // Null if there is no such attachment; throws ChecksumMismatchError if the content has changed
+  read(id: string): { attachment: StoredAttachment; content: Buffer } | null;
+  delete(id: string): void;
+  clear(): void;
+}
+
+export function getMaxAttachmentBytes(): number {
+  const configured = Number(process.env.ESCROW_ATTACHMENT_MAX_BYTES);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_BYTES;
+}
+
+export function checksumOf(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Keeps the last path segment of a client-supplied file name, without control characters
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? "";
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, "").trim().slice(0, 255);
+  return cleaned === "" || cleaned === "." || cleaned === ".." ? "attachment" : cleaned;
+}
+
+/**
+ * Local filesystem store: each attachment is a content file and a JSON metadata
+ * file named after its ID, both written through a rename
+ */
+export class LocalAttachmentStore implements AttachmentStore {
+  constructor(private readonly dir: string) {}
+
+  private contentFile(id: string) {
+    return path.join(this.dir, id);
+  }
+
+  private metadataFile(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private write(file: string, data: Buffer | string) {
+    fs.writeFileSync(`${file}.tmp`, data);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  save(upload: AttachmentUpload, content: Buffer): StoredAttachment {
+    const attachment: StoredAttachment = {
+      id: `att_${Date.now()}_${randomBytes(8).toString("hex")}`,
+      escrowId: upload.escrowId,
+      fileName: sanitizeFileName(upload.fileName),
+      contentType: upload.contentType,
+      size: content.length,
+      checksum: checksumOf(content),
+      uploadedBy: upload.uploadedBy,
+      uploadedAt: new Date(),
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.write(this.contentFile(attachment.id), content);
+    this.write(this.metadataFile(attachment.id), JSON.stringify(attachment, null, 2));
+    return attachment;
+  }
+
+  read(id: string): { attachment: StoredAttachment; content: Buffer } | null {
+    if (!ATTACHMENT_ID.test(id) || !fs.existsSync(this.metadataFile(id))) return null;
+
+    const metadata = JSON.parse(fs.readFileSync(this.metadataFile(id), "utf-8"));
+    const attachment: StoredAttachment = { ...metadata, uploadedAt: new Date(metadata.uploadedAt) };
+    const content = fs.readFileSync(this.contentFile(id));
+    if (checksumOf(content) !== attachment.checksum) {
+      throw new ChecksumMismatchError(id);
+    }
+    return { attachment, content };
+  }
+
+  delete(id: string): void {
+    if (!ATTACHMENT_ID.test(id)) return;
+    fs.rmSync(this.contentFile(id), { force: true });
+    fs.rmSync(this.metadataFile(id), { force: true });
+  }
+
+  clear(): void {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Creates the store named by ESCROW_ATTACHMENT_STORAGE
+ */
+export function createAttachmentStore(
+  backend: string = process.env.ESCROW_ATTACHMENT_STORAGE ?? "local",
+  dataDir: string = getDataDir()
+): AttachmentStore {
+  switch (backend) {
+    case "local":
+      return new LocalAttachmentStore(path.join(dataDir, "attachments"));
+    default:
+      throw new Error(`Unknown ESCROW_ATTACHMENT_STORAGE backend: ${backend}`);
+  }
+}
+
+// Global singleton so every route bundle and HMR reload shares one store
+declare global {
+  var __ESCROW_ATTACHMENT_STORE: AttachmentStore | undefined;
+}
+
+export const attachmentStore: AttachmentStore = (globalThis.__ESCROW_ATTACHMENT_STORE ??=
+  createAttachmentStore());
@@ -0,0 +1,89 @@
+/**
+ * Snapshot Consistency Checker
+ *
+ * Replays every event log and compares the result with the stored snapshot.
+ * The log always wins; a disagreement means the snapshot is stale or was
+ * written by buggy code and queries may be returning wrong data.
+ */
+
+import { Escrow, toSnapshot } from "@/domain/escrow";
+import { EscrowRepository, replayEvents } from "./escrow-repository";
+
+export interface FieldDifference {
+  field: string;
+  snapshot: unknown;
+  replayed: unknown;
+}
+
+export interface ConsistencyIssue {
+  escrowId: string;
+  kind: "missing_snapshot" | "snapshot_mismatch" | "replay_failed";
+  differences: FieldDifference[];
+  error?: string;
+}
+
+export interface ConsistencyReport {
+  checked: number;
+  consistent: boolean;
+  issues: ConsistencyIssue[];
+}
+
+// Compare through JSON so dates and nested milestones/settlements compare by value
+function normalize(value: unknown): string | undefined {
+  return JSON.stringify(value);
+}
+
+/**
+ * Lists the fields where a snapshot disagrees with the replayed escrow
+ */
+export function diffSnapshot(snapshot: Escrow, replayed: Escrow): FieldDifference[] {
+  const fields = new Set([...Object.keys(snapshot), ...Object.keys(replayed)]);
+  const differences: FieldDifference[] = [];
+
+  for (const field of fields) {
+    const a = snapshot[field as keyof Escrow];
+    const b = replayed[field as keyof Escrow];
+    if (normalize(a) !== normalize(b)) {
+      differences.push({ field, snapshot: a, replayed: b });
+    }
+  }
+  return differences;
+}
+
+/**
+ * Checks every escrow in the repository against its event log
+ */
+export function checkConsistency(repository: EscrowRepository): ConsistencyReport {
+  const issues: ConsistencyIssue[] = [];
+  const ids = repository.listIds();
+
+  for (const escrowId of ids) {
+    let replayed: Escrow;
+    try {
+      replayed = toSnapshot(replayEvents(repository.getEvents(escrowId)));
+    } catch (error) {
+      issues.push({
+        escrowId,
+        kind: "replay_failed",
+        differences: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const snapshot = repository.getSnapshot(escrowId);
+    if (!snapshot) {
+      if (repository.snapshotsEnabled) {
+        issues.push({ escrowId, kind: "missing_snapshot", differences: [] });
+      }
+      continue;
+    }
+
+    const differences = diffSnapshot(snapshot, replayed);
+    if (differences.length > 0) {
+      issues.push({ escrowId, kind: "snapshot_mismatch", differences });
+    }
+  }
+
+  return { checked: ids.length, consistent: issues.length === 0, issues };
+}
@@ -0,0 +1,47 @@
+/**
+ * Storage errors surfaced to the API layer
+ */
+
+import { IntegrityViolation } from "@/domain/integrity";
+
+/**
+ * Thrown when an append is based on a version of the escrow that is no longer current
+ */
+export class ConcurrencyError extends Error {
+  constructor(
+    public readonly escrowId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(
+      `Escrow ${escrowId} was modified concurrently: expected version ${expectedVersion}, found ${actualVersion}`
+    );
+    this.name = "ConcurrencyError";
+  }
+}
+
+/**
+ * Thrown when a stored or about-to-be-stored event log fails its integrity checks
+ */
+export class IntegrityError extends Error {
+  constructor(
+    public readonly escrowId: string,
+    public readonly violations: IntegrityViolation[]
+  ) {
+    const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : "";
+    super(
+      `Event log of escrow ${escrowId} failed integrity checks at event ${violations[0].sequence}: ${violations[0].message}${more}`
+    );
+    this.name = "IntegrityError";
+  }
+}
+
+/**
+ * Thrown when a stored attachment's content no longer matches the checksum taken when it was saved
+ */
+export class ChecksumMismatchError extends Error {
+  constructor(public readonly attachmentId: string) {
+    super(`Attachment ${attachmentId} does not match its checksum`);
+    this.name = "ChecksumMismatchError";
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Escrow Query Engine
+ *
+ * Filtering, sorting and cursor pagination over escrow snapshots.
+ * Kept independent of the persistence layer so every store answers queries the same way.
+ */
+
+import { Escrow } from "@/domain/escrow";
+import { EscrowState } from "@/domain/escrow-state";
+import { CurrencyCode } from "@/domain/money";
+
+export type EscrowSortField =
+  | "createdAt"
+  | "updatedAt"
+  | "amount"
+  | "currentState"
+  | "buyerId"
+  | "sellerId";
+
+export type SortOrder = "asc" | "desc";
+
+export interface EscrowQuery {
+  currentState?: EscrowState[];
+  buyerId?: string;
+  sellerId?: string;
+  // Matches escrows where the user is either the buyer or the seller
+  participantId?: string;
+  currency?: CurrencyCode;
+  // In minor units; only meaningful together with `currency`
+  minAmount?: number;
+  maxAmount?: number;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  sortBy: EscrowSortField;
+  sortOrder: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+export interface EscrowPage {
+  items: Escrow[];
+  nextCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message = "Invalid cursor") {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+interface CursorPayload {
+  s: EscrowSortField;
+  o: SortOrder;
+  v: string | number;
+  id: string;
+}
+
+type SortValue = string | number;
+
+function sortValue(escrow: Escrow, field: EscrowSortField): SortValue {
+  switch (field) {
+    case "createdAt":
+      return escrow.createdAt.getTime();
+    case "updatedAt":
+      return escrow.updatedAt.getTime();
+    case "amount":
+      return escrow.amount;
+    case "currentState":
+      return escrow.currentState;
+    case "buyerId":
+      return escrow.buyerId;
+    case "sellerId":
+      return escrow.sellerId;
+  }
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+/**
+ * Orders by the sort field, breaking ties by ID so the order is total and cursors stay stable
+ */
+function compareEscrows(a: Escrow, b: Escrow, field: EscrowSortField, order: SortOrder): number {
+  const direction = order === "asc" ? 1 : -1;
+  const primary = compareValues(sortValue(a, field), sortValue(b, field));
+  if (primary !== 0) return primary * direction;
+  return compareValues(a.id, b.id) * direction;
+}
+
+/**
+ * Encodes the position after `escrow` as an opaque cursor
+ */
+export function encodeCursor(escrow: Escrow, sortBy: EscrowSortField, sortOrder: SortOrder): string {
+  const payload: CursorPayload = {
+    s: sortBy,
+    o: sortOrder,
+    v: sortValue(escrow, sortBy),
+    id: escrow.id,
+  };
+  return Buffer.from(JSON.stringify(payload), "utf-8").toString("base64url");
+}
+
+/**
+ * Decodes a cursor and checks it was issued for the same sort
+ */
+export function decodeCursor(cursor: string, sortBy: EscrowSortField, sortOrder: SortOrder): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as CursorPayload;
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    !payload ||
+    typeof payload.id !== "string" ||
+    (typeof payload.v !== "string" && typeof payload.v !== "number")
+  ) {
+    throw new InvalidCursorError();
+  }
+  if (payload.s !== sortBy || payload.o !== sortOrder) {
+    throw new InvalidCursorError("Cursor does not match the requested sort");
+  }
+  return payload;
+}
+
+/**
+ * Returns true if the escrow satisfies every filter in the query
+ */
+export function matchesQuery(escrow: Escrow, query: EscrowQuery): boolean {
+  if (query.currentState && query.currentState.length > 0 && !query.currentState.includes(escrow.currentState)) {
+    return false;
+  }
+  if (query.buyerId !== undefined && escrow.buyerId !== query.buyerId) return false;
+  if (query.sellerId !== undefined && escrow.sellerId !== query.sellerId) return false;
+  if (
+    query.participantId !== undefined &&
+    escrow.buyerId !== query.participantId &&
+    escrow.sellerId !== query.participantId
+  ) {
+    return false;
+  }
+  if (query.currency !== undefined && escrow.currency !== query.currency) return false;
+  if (query.minAmount !== undefined && escrow.amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && escrow.amount > query.maxAmount) return false;
+  if (query.createdAfter && escrow.createdAt < query.createdAfter) return false;
+  if (query.createdBefore && escrow.createdAt > query.createdBefore) return false;
+  if (query.updatedAfter && escrow.updatedAt < query.updatedAfter) return false;
+  if (query.updatedBefore && escrow.updatedAt > query.updatedBefore) return false;
+  return true;
+}
+
+/**
+ * Filters, sorts and paginates a set of escrow snapshots
+ */
+export function queryEscrows(escrows: Iterable<Escrow>, query: EscrowQuery): EscrowPage {
+  const { sortBy, sortOrder, limit } = query;
+  const direction = sortOrder === "asc" ? 1 : -1;
+  const after = query.cursor ? decodeCursor(query.cursor, sortBy, sortOrder) : null;
+
+  const matching: Escrow[] = [];
+  for (const escrow of escrows) {
+    if (!matchesQuery(escrow, query)) continue;
+    if (after) {
+      const primary = compareValues(sortValue(escrow, sortBy), after.v) * direction;
+      if (primary < 0) continue;
+      if (primary === 0 && compareValues(escrow.id, after.id) * direction <= 0) continue;
+    }
+    matching.push(escrow);
+  }
+
+  matching.sort((a, b) => compareEscrows(a, b, sortBy, sortOrder));
+
+  const items = matching.slice(0, limit);
+  const nextCursor =
+    matching.length > limit ? encodeCursor(items[items.length - 1], sortBy, sortOrder) : null;
+
+  return { items, nextCursor };
+}
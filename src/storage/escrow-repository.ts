@@ -0,0 +1,146 @@
+/**
+ * Escrow Repository
+ *
+ * Persistence contract for escrows and their append-only event logs.
+ * The event log is the only source of truth: escrows are always rebuilt by
+ * replaying their events. Snapshots are an optional read model kept for fast
+ * queries and are never used to answer `getById` or to validate writes.
+ *
+ * Implementations must make `create` and `appendEvents` atomic and must
+ * reject appends whose expected version no longer matches the stored log.
+ *
+ * Every stored event is also added to the outbox in the same write, so
+ * anything that publishes events reads them from there instead of hearing
+ * about them after the fact: a crash can delay a publication but never lose it.
+ *
+ * Logs are validated on every replay (see `validateEventLog`), on the way in
+ * as well as on the way out.
+ *
+ * Implementations seal events into a per-escrow hash chain as they store them
+ * and keep the chain's head with the log (see `hash-chain.ts`).
+ */
+
+import { Escrow, EscrowWithHistory, reconstructEscrow } from "@/domain/escrow";
+import { EscrowEvent } from "@/domain/events";
+import { validateEventLog } from "@/domain/integrity";
+import { IntegrityError } from "./errors";
+import { EscrowPage, EscrowQuery } from "./escrow-query";
+import { StoredEvent } from "./event-upcasters";
+import { ChainHead } from "./hash-chain";
+
+export interface RepositoryOptions {
+  // Maintain snapshots for queries (default: true). When off, queries replay every log.
+  snapshots?: boolean;
+}
+
+export interface OutboxEntry {
+  // Position in the outbox, starting at 1, across every escrow
+  offset: number;
+  escrowId: string;
+  // Position of the event in its escrow's log, starting at 1
+  sequence: number;
+  event: EscrowEvent;
+}
+
+export interface EscrowRepository {
+  /**
+   * Whether this repository maintains snapshots
+   */
+  readonly snapshotsEnabled: boolean;
+
+  /**
+   * Starts a new event log from its creation event and returns the replayed escrow
+   */
+  create(initialEvent: EscrowEvent): EscrowWithHistory;
+
+  /**
+   * Gets an escrow replayed from its full event history
+   */
+  getById(id: string): EscrowWithHistory | null;
+
+  /**
+   * Appends events and returns the escrow replayed from the extended log.
+   * Throws ConcurrencyError unless the stored log is at `expectedVersion`.
+   */
+  appendEvents(escrowId: string, events: EscrowEvent[], expectedVersion: number): EscrowWithHistory;
+
+  /**
+   * Queries escrows, from snapshots when enabled
+   */
+  query(query: EscrowQuery): EscrowPage;
+
+  /**
+   * Gets the event log for an escrow, oldest first, upcast to the current
+   * event schema (empty if unknown)
+   */
+  getEvents(id: string): EscrowEvent[];
+
+  /**
+   * Gets the event log exactly as stored, each event in the schema version it
+   * was written in: what the hash chain covers
+   */
+  getStoredEvents(id: string): StoredEvent[];
+
+  /**
+   * Lists the IDs of every stored event log
+   */
+  listIds(): string[];
+
+  /**
+   * Gets the stored snapshot for an escrow, if any
+   */
+  getSnapshot(id: string): Escrow | null;
+
+  /**
+   * Gets the head of an escrow's hash chain as stored alongside its events, if any
+   */
+  getChainHead(id: string): ChainHead | null;
+
+  /**
+   * Gets up to `limit` outbox entries after the given offset, oldest first
+   */
+  readOutbox(afterOffset: number, limit: number): OutboxEntry[];
+
+  /**
+   * The offset of the newest outbox entry (0 if empty)
+   */
+  getOutboxHead(): number;
+
+  /**
+   * The last offset a consumer has processed (0 if it never has)
+   */
+  getConsumerOffset(consumer: string): number;
+
+  /**
+   * Records the last offset a consumer has processed
+   */
+  saveConsumerOffset(consumer: string, offset: number): void;
+
+  /**
+   * Clears all data (useful for testing)
+   */
+  clear(): void;
+
+  /**
+   * Releases the underlying storage; the repository must not be used afterwards
+   */
+  close(): void;
+}
+
+/**
+ * Replays an event log, failing loudly if it does not describe an escrow.
+ * Throws IntegrityError if the log breaks the state machine or its ordering,
+ * so a corrupted log is never read, and a bad append is never written.
+ */
+export function replayEvents(events: EscrowEvent[]): EscrowWithHistory {
+  const violations = validateEventLog(events);
+  if (violations.length > 0) {
+    throw new IntegrityError(events[0].escrowId, violations);
+  }
+
+  const escrow = reconstructEscrow(events);
+  if (!escrow) {
+    throw new Error("Event log does not start with an escrow creation event");
+  }
+  return escrow;
+}
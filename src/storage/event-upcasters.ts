@@ -0,0 +1,162 @@
+/**
+ * Event Upcasters
+ *
+ * Stored events keep the shape they were written in; they are never rewritten,
+ * since the hash chain covers them as written. As a log loads, each event is
+ * migrated to EVENT_SCHEMA_VERSION by running the registered upcasters from
+ * its own version up, one version at a time.
+ *
+ * Versions:
+ * 1. Amounts in USD major units; ESCROW_CREATED has no `currency`
+ * 2. Amounts in integer minor units of the escrow's `currency`
+ * 3. Every event carries `schemaVersion`
+ * 4. EVIDENCE_SUBMITTED events, with an optional message and file attachment
+ * 5. DISPUTE state changes carry `dispute` (category and seller response
+ *    deadline); DISPUTE_ASSIGNED events name the admin deciding a dispute
+ *
+ * Events written before versions existed carry no `schemaVersion`: a log whose
+ * creation event has no currency is version 1, any other is version 2.
+ *
+ * An event that cannot be upcast fails its whole log with an IntegrityError
+ * naming the event; the store keeps serving the other logs.
+ */
+
+import { EscrowAction } from "@/domain/escrow-state";
+import { EscrowEvent, EventType, EVENT_SCHEMA_VERSION } from "@/domain/events";
+import { IntegrityError } from "./errors";
+
+/**
+ * An event as stored, in the version it was written in
+ */
+export interface StoredEvent {
+  id: string;
+  type: string;
+  schemaVersion?: number;
+  timestamp: Date;
+  escrowId: string;
+  previousHash?: string;
+  hash?: string;
+}
+
+// Upcasters read whatever shape their version had, so they narrow each field they use
+type Raw = Record<string, unknown>;
+
+/**
+ * Migrates an event from one schema version to the next; the caller sets `schemaVersion`
+ */
+export type EventUpcaster = (event: Raw) => Raw;
+
+// Global registry so every route bundle and HMR reload sees the same upcasters
+declare global {
+  var __ESCROW_EVENT_UPCASTERS: Map<number, EventUpcaster> | undefined;
+}
+
+function registry(): Map<number, EventUpcaster> {
+  return (globalThis.__ESCROW_EVENT_UPCASTERS ??= new Map());
+}
+
+/**
+ * Registers the upcaster that takes events from `fromVersion` to `fromVersion + 1`
+ */
+export function registerEventUpcaster(fromVersion: number, upcaster: EventUpcaster): void {
+  registry().set(fromVersion, upcaster);
+}
+
+/**
+ * Returns true if the stored log predates currencies (schema version 1)
+ */
+export function isLegacyLog(log: StoredEvent[]): boolean {
+  const created = log.find((e) => e.type === EventType.ESCROW_CREATED);
+  return created !== undefined && created.schemaVersion === undefined && !("currency" in created && created.currency);
+}
+
+/**
+ * Migrates a stored log to the current event shape.
+ * Throws IntegrityError if an event is from a newer version or an upcaster rejects it.
+ */
+export function upcastEvents(log: StoredEvent[]): EscrowEvent[] {
+  const unversioned = isLegacyLog(log) ? 1 : 2;
+  return log.map((event, index) => {
+    try {
+      return upcastEvent(event, event.schemaVersion ?? unversioned);
+    } catch (error) {
+      throw new IntegrityError(event.escrowId, [
+        {
+          kind: "unreadable",
+          sequence: index + 1,
+          eventId: event.id,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      ]);
+    }
+  });
+}
+
+function upcastEvent(event: StoredEvent, version: number): EscrowEvent {
+  if (version > EVENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Event ${event.id} has schema version ${version}, newer than the supported ${EVENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let upcast: Raw = { ...event };
+  while (version < EVENT_SCHEMA_VERSION) {
+    const upcaster = registry().get(version);
+    if (!upcaster) {
+      throw new Error(`No upcaster is registered for event schema version ${version}`);
+    }
+    upcast = { ...upcaster(upcast), schemaVersion: version + 1 };
+    version++;
+  }
+  return upcast as unknown as EscrowEvent;
+}
+
+const isRaw = (value: unknown): value is Raw => typeof value === "object" && value !== null;
+
+function toCents(amount: unknown): number {
+  if (typeof amount !== "number") {
+    throw new Error(`Expected an amount in major units, found ${JSON.stringify(amount)}`);
+  }
+  return Math.round(amount * 100);
+}
+
+const milestonesToCents = (event: Raw) =>
+  Array.isArray(event.milestones)
+    ? { milestones: event.milestones.filter(isRaw).map((m) => ({ ...m, amount: toCents(m.amount) })) }
+    : {};
+
+// 1 -> 2: escrows were USD and amounts were in major units
+registerEventUpcaster(1, (event) => {
+  switch (event.type) {
+    case EventType.ESCROW_CREATED:
+      return { ...event, amount: toCents(event.amount), currency: "USD", ...milestonesToCents(event) };
+    case EventType.TERMS_REVISED:
+      return { ...event, amount: toCents(event.amount), ...milestonesToCents(event) };
+    case EventType.MILESTONE_RELEASED:
+      return { ...event, amount: toCents(event.amount) };
+    default:
+      return isRaw(event.split)
+        ? {
+            ...event,
+            split: {
+              buyerAmount: toCents(event.split.buyerAmount),
+              sellerAmount: toCents(event.split.sellerAmount),
+            },
+          }
+        : event;
+  }
+});
+
+// 2 -> 3: only the version field was added
+registerEventUpcaster(2, (event) => event);
+
+// 3 -> 4: evidence events were added; a message or attachment left out is simply absent
+registerEventUpcaster(3, (event) => event);
+
+// 4 -> 5: disputes raised before categories existed have none, and gave the seller no
+// response window, so theirs closed as they were raised; nobody was assigned to them
+registerEventUpcaster(4, (event) =>
+  event.type === EventType.STATE_CHANGED && event.action === EscrowAction.DISPUTE && !isRaw(event.dispute)
+    ? { ...event, dispute: { sellerResponseDeadline: event.timestamp } }
+    : event
+);
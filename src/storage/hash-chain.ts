@@ -0,0 +1,179 @@
+/**
+ * Event Hash Chain
+ *
+ * Makes stored history tamper-evident. When an event is stored the repository
+ * seals it: `previousHash` is set to the hash of the event before it in the
+ * escrow's log (GENESIS_HASH for the first), and `hash` to the SHA-256 of the
+ * event's canonical JSON, `previousHash` included and `hash` left out. Editing,
+ * inserting or removing an event breaks every hash after it; the repository
+ * also keeps each log's head (its last hash and length) apart from the events,
+ * so dropping events from the end is caught too.
+ *
+ * Hashes cover events as stored, in the schema version they were written in,
+ * never their upcast form. Canonical JSON is JSON with object keys sorted,
+ * undefined properties left out and dates as ISO 8601 strings: the event exactly
+ * as stored, so anyone holding an export can recompute the chain (see
+ * scripts/verify-audit-export.mjs).
+ */
+
+import { createHash } from "node:crypto";
+import { StoredEvent } from "./event-upcasters";
+
+export const HASH_ALGORITHM = "sha256";
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface ChainHead {
+  hash: string;
+  // Number of events the head covers
+  length: number;
+}
+
+export interface ChainBreak {
+  // Position of the first event that does not verify, starting at 1
+  sequence: number;
+  eventId: string;
+  reason: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  length: number;
+  // The head recomputed from the events, up to the first break
+  headHash: string;
+  storedHead: ChainHead | null;
+  brokenAt?: ChainBreak;
+}
+
+/**
+ * Serializes a value as canonical JSON
+ */
+export function canonicalize(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalize(item))).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The hash of an event chained to the given previous hash
+ */
+export function hashEvent(event: StoredEvent, previousHash: string): string {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { hash, ...content } = event;
+  return createHash(HASH_ALGORITHM).update(canonicalize({ ...content, previousHash })).digest("hex");
+}
+
+/**
+ * Copies events with their hashes set, chained on from the event stored before them
+ */
+export function sealEvents<T extends StoredEvent>(events: T[], previous: StoredEvent | undefined): T[] {
+  let previousHash = previous?.hash ?? GENESIS_HASH;
+  return events.map((event) => {
+    const hash = hashEvent(event, previousHash);
+    const sealed = { ...event, previousHash, hash };
+    previousHash = hash;
+    return sealed;
+  });
+}
+
+/**
+ * The head of a sealed log
+ */
+export function chainHead(events: StoredEvent[]): ChainHead {
+  return { hash: events[events.length - 1]?.hash ?? GENESIS_HASH, length: events.length };
+}
+
+/**
+ * Recomputes a log's chain and compares it with the stored head
+ */
+export function verifyChain(events: StoredEvent[], storedHead: ChainHead | null): ChainVerification {
+  let headHash = GENESIS_HASH;
+  if (events.length === 0 && !storedHead) {
+    return { valid: true, length: 0, headHash, storedHead };
+  }
+
+  const broken = (sequence: number, reason: string): ChainVerification => ({
+    valid: false,
+    length: events.length,
+    headHash,
+    storedHead,
+    brokenAt: { sequence, eventId: events[sequence - 1]?.id ?? "", reason },
+  });
+
+  for (const [index, event] of events.entries()) {
+    if (!event.hash) {
+      return broken(index + 1, "The event was never sealed");
+    }
+    if (event.previousHash !== headHash) {
+      return broken(index + 1, "The event does not chain on from the event before it");
+    }
+    if (hashEvent(event, headHash) !== event.hash) {
+      return broken(index + 1, "The event's content does not match its hash");
+    }
+    headHash = event.hash;
+  }
+
+  // Blamed on the first event the head does not account for, or the last one if events are missing
+  if (!storedHead) {
+    return broken(1, "No head is stored for this log");
+  }
+  if (storedHead.length !== events.length) {
+    return broken(
+      Math.min(storedHead.length + 1, events.length),
+      `The stored head covers ${storedHead.length} events, but the log holds ${events.length}`
+    );
+  }
+  if (storedHead.hash !== headHash) {
+    return broken(events.length, "The log does not end in the stored head hash");
+  }
+
+  return { valid: true, length: events.length, headHash, storedHead };
+}
+
+/**
+ * An escrow's log with everything needed to check its chain offline
+ */
+export interface ChainExport {
+  format: "escrow-audit-log";
+  version: 1;
+  escrowId: string;
+  exportedAt: Date;
+  chain: {
+    algorithm: typeof HASH_ALGORITHM;
+    genesisHash: string;
+    storedHead: ChainHead | null;
+    // The server's own verification at export time
+    valid: boolean;
+  };
+  // As stored, each event in its own schema version and with its previousHash and hash
+  events: StoredEvent[];
+}
+
+export function buildChainExport(
+  escrowId: string,
+  events: StoredEvent[],
+  storedHead: ChainHead | null,
+  now: Date = new Date()
+): ChainExport {
+  return {
+    format: "escrow-audit-log",
+    version: 1,
+    escrowId,
+    exportedAt: now,
+    chain: {
+      algorithm: HASH_ALGORITHM,
+      genesisHash: GENESIS_HASH,
+      storedHead,
+      valid: verifyChain(events, storedHead).valid,
+    },
+    events,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * JSON-backed Idempotency Store (dev)
+ *
+ * Remembers the first response per idempotency key and caller so retried
+ * requests can be replayed instead of executed twice.
+ * Persists to .data/idempotency.json alongside the escrow data.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+export interface IdempotencyRecord {
+  requestHash: string;
+  // Null while the original request is still being processed
+  response: {
+    status: number;
+    body: unknown;
+    headers: Record<string, string>;
+  } | null;
+  createdAt: Date;
+}
+
+// Keys are kept for a day, matching common payment API retry windows
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+declare global {
+  var __IDEMPOTENCY_STORE_STATE: { cache: Record<string, IdempotencyRecord>; loaded: boolean } | undefined;
+}
+
+function getGlobalState(): { cache: Record<string, IdempotencyRecord>; loaded: boolean } {
+  if (!globalThis.__IDEMPOTENCY_STORE_STATE) {
+    globalThis.__IDEMPOTENCY_STORE_STATE = { cache: {}, loaded: false };
+  }
+  return globalThis.__IDEMPOTENCY_STORE_STATE;
+}
+
+class IdempotencyStore {
+  private dir = path.join(process.cwd(), ".data");
+  private file = path.join(this.dir, "idempotency.json");
+
+  private ensureLoaded() {
+    const state = getGlobalState();
+    if (state.loaded) return;
+
+    try {
+      if (fs.existsSync(this.file)) {
+        const parsed = JSON.parse(fs.readFileSync(this.file, "utf-8") || "{}") as Record<
+          string,
+          IdempotencyRecord
+        >;
+        for (const record of Object.values(parsed)) {
+          record.createdAt = new Date(record.createdAt);
+        }
+        state.cache = parsed;
+      }
+    } catch {
+      state.cache = {};
+    }
+    state.loaded = true;
+  }
+
+  private persist() {
+    try {
+      if (!fs.existsSync(this.dir)) fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(getGlobalState().cache, null, 2), "utf-8");
+    } catch {
+      // ignore
+    }
+  }
+
+  private key(scope: string, caller: string, idempotencyKey: string): string {
+    return JSON.stringify([scope, caller, idempotencyKey]);
+  }
+
+  /**
+   * Gets the record for a key, ignoring expired ones
+   */
+  get(scope: string, caller: string, idempotencyKey: string): IdempotencyRecord | null {
+    this.ensureLoaded();
+    const record = getGlobalState().cache[this.key(scope, caller, idempotencyKey)];
+    if (!record) return null;
+    if (Date.now() - record.createdAt.getTime() > RECORD_TTL_MS) return null;
+    return record;
+  }
+
+  /**
+   * Claims a key before the request is processed
+   */
+  begin(scope: string, caller: string, idempotencyKey: string, requestHash: string): void {
+    this.ensureLoaded();
+    getGlobalState().cache[this.key(scope, caller, idempotencyKey)] = {
+      requestHash,
+      response: null,
+      createdAt: new Date(),
+    };
+    this.persist();
+  }
+
+  /**
+   * Stores the response for a claimed key
+   */
+  complete(
+    scope: string,
+    caller: string,
+    idempotencyKey: string,
+    response: NonNullable<IdempotencyRecord["response"]>
+  ): void {
+    this.ensureLoaded();
+    const record = getGlobalState().cache[this.key(scope, caller, idempotencyKey)];
+    if (!record) return;
+    record.response = response;
+    this.persist();
+  }
+
+  /**
+   * Releases a claimed key so the request can be retried
+   */
+  abandon(scope: string, caller: string, idempotencyKey: string): void {
+    this.ensureLoaded();
+    delete getGlobalState().cache[this.key(scope, caller, idempotencyKey)];
+    this.persist();
+  }
+
+  /**
+   * Clears all data (useful for testing)
+   */
+  clear(): void {
+    const state = getGlobalState();
+    state.cache = {};
+    state.loaded = true;
+    this.persist();
+  }
+}
+
+// Singleton instance
+export const idempotencyStore = new IdempotencyStore();
@@ -0,0 +1,85 @@
+/**
+ * Event Log Audit
+ *
+ * Validates every stored event log without replaying it through the
+ * repository, which would refuse to read a corrupted log, and verifies each
+ * log's hash chain. Event IDs must also be unique across the store: ledger
+ * entries and payment requests are keyed by them. A log that cannot be read at
+ * all is reported against its escrow, and the rest of the store is still checked.
+ */
+
+import { IntegrityViolation, validateEventLog } from "@/domain/integrity";
+import { IntegrityError } from "./errors";
+import { EscrowRepository } from "./escrow-repository";
+import { verifyChain } from "./hash-chain";
+
+export interface IntegrityIssue {
+  escrowId: string;
+  violations: IntegrityViolation[];
+}
+
+export interface IntegrityReport {
+  checked: number;
+  events: number;
+  valid: boolean;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Checks every event log in the repository
+ */
+export function auditEventLogs(repository: EscrowRepository): IntegrityReport {
+  const issues: IntegrityIssue[] = [];
+  const owners = new Map<string, string>();
+  const ids = repository.listIds();
+  let total = 0;
+
+  for (const escrowId of ids) {
+    const violations: IntegrityViolation[] = [];
+    try {
+      const events = repository.getEvents(escrowId);
+      total += events.length;
+
+      violations.push(...validateEventLog(events));
+      const chain = verifyChain(repository.getStoredEvents(escrowId), repository.getChainHead(escrowId));
+      if (chain.brokenAt) {
+        const { sequence, eventId, reason } = chain.brokenAt;
+        violations.push({ kind: "broken_chain", sequence, eventId, message: reason });
+      }
+      events.forEach((event, index) => {
+        const owner = owners.get(event.id);
+        if (owner !== undefined && owner !== escrowId) {
+          violations.push({
+            kind: "duplicate_event_id",
+            sequence: index + 1,
+            eventId: event.id,
+            message: `Event ID ${event.id} is also used by escrow ${owner}`,
+          });
+        }
+        owners.set(event.id, owner ?? escrowId);
+      });
+    } catch (error) {
+      // A log the repository cannot read is reported, and the audit moves on
+      violations.push(...readFailure(error));
+    }
+
+    if (violations.length > 0) {
+      violations.sort((a, b) => a.sequence - b.sequence);
+      issues.push({ escrowId, violations });
+    }
+  }
+
+  return { checked: ids.length, events: total, valid: issues.length === 0, issues };
+}
+
+function readFailure(error: unknown): IntegrityViolation[] {
+  if (error instanceof IntegrityError) return error.violations;
+  return [
+    {
+      kind: "unreadable",
+      sequence: 1,
+      eventId: "",
+      message: error instanceof Error ? error.message : String(error),
+    },
+  ];
+}
@@ -0,0 +1,284 @@
+/**
+ * JSON-backed Escrow Repository (dev)
+ *
+ * Keeps every event log in memory and rewrites a single JSON file after each change,
+ * so API route reloads/HMR don't lose state. The outbox lives in the same file and
+ * the file is replaced by a rename, so a write lands with its outbox entries or not at all.
+ */
+
+import { Escrow, EscrowWithHistory, toSnapshot } from "@/domain/escrow";
+import { EscrowEvent } from "@/domain/events";
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { EscrowRepository, OutboxEntry, RepositoryOptions, replayEvents } from "./escrow-repository";
+import { EscrowPage, EscrowQuery, queryEscrows } from "./escrow-query";
+import { ConcurrencyError } from "./errors";
+import { StoredEvent, upcastEvents } from "./event-upcasters";
+import { ChainHead, chainHead, sealEvents } from "./hash-chain";
+import { reviveEscrow, reviveStoredEvent } from "./serialization";
+
+interface EscrowData {
+  // As written, in the schema version each event was written in; persisted as `events`
+  stored: StoredEvent[];
+  // Upcast to the current schema version
+  events: EscrowEvent[];
+  head?: ChainHead;
+  snapshot?: Escrow;
+  // Set when the log could not be read: reads of this escrow throw it, while
+  // the rest of the store is served as usual
+  error?: Error;
+  // The entry as found in the file, written back unchanged while it cannot be read
+  unread?: unknown;
+}
+
+interface OutboxData {
+  // Entries point into the event logs rather than copying the events
+  entries: Omit<OutboxEntry, "event">[];
+  consumers: Record<string, number>;
+}
+
+// The shape of escrows.json. Each escrow is checked on its own, so one malformed
+// entry fails only that escrow.
+const storedFileSchema = z.object({
+  // Set once logs from before events were hashed have been sealed
+  legacyLogsSealed: z.boolean().optional(),
+  escrows: z.record(z.string(), z.unknown()),
+  outbox: z.object({
+    entries: z.array(z.object({ offset: z.number().int(), escrowId: z.string(), sequence: z.number().int() })),
+    consumers: z.record(z.string(), z.number()).default({}),
+  }),
+});
+
+// Files written before the outbox existed hold only the escrows, keyed by ID
+const legacyFileSchema = z.record(z.string(), z.unknown());
+
+const storedEscrowSchema = z.object({
+  events: z.array(z.record(z.string(), z.unknown())).min(1),
+  head: z.object({ hash: z.string(), length: z.number().int() }).optional(),
+  snapshot: z.record(z.string(), z.unknown()).optional(),
+  // Files written before snapshots were optional keep them under `escrow`
+  escrow: z.record(z.string(), z.unknown()).optional(),
+});
+
+export class JsonEscrowRepository implements EscrowRepository {
+  readonly snapshotsEnabled: boolean;
+  private cache: Record<string, EscrowData> | null = null;
+  private outbox: OutboxData = { entries: [], consumers: {} };
+  private legacyLogsSealed = false;
+
+  constructor(private readonly file: string, options: RepositoryOptions = {}) {
+    this.snapshotsEnabled = options.snapshots ?? true;
+  }
+
+  private load(): Record<string, EscrowData> {
+    if (this.cache) return this.cache;
+
+    let parsed: unknown = {};
+    try {
+      if (fs.existsSync(this.file)) {
+        parsed = JSON.parse(fs.readFileSync(this.file, "utf-8") || "{}");
+      }
+    } catch {
+      parsed = {};
+    }
+
+    // Events in files from before the outbox existed were never published and are
+    // not added to the outbox; a file in neither shape is treated like an unreadable one.
+    let escrows: Record<string, unknown> = {};
+    const current = storedFileSchema.safeParse(parsed);
+    if (current.success) {
+      this.outbox = current.data.outbox;
+      this.legacyLogsSealed = current.data.legacyLogsSealed ?? false;
+      escrows = current.data.escrows;
+    } else {
+      this.outbox = { entries: [], consumers: {} };
+      this.legacyLogsSealed = false;
+      const legacy = legacyFileSchema.safeParse(parsed);
+      if (legacy.success) escrows = legacy.data;
+    }
+
+    // Revive Date instances. Snapshots from before currencies existed hold major-unit amounts and are dropped;
+    // queries replay those escrows until their next write stores a fresh snapshot.
+    // Logs from before events were hashed are sealed once, the first time a file without
+    // `legacyLogsSealed` loads, and the file is rewritten with the marker set. After that
+    // a log missing its hashes or head was tampered with and is left for verification to
+    // report, never resealed.
+    const cache: Record<string, EscrowData> = {};
+    for (const [id, entry] of Object.entries(escrows)) {
+      const result = storedEscrowSchema.safeParse(entry);
+      if (!result.success) {
+        const error = new Error(`Escrow ${id} is not stored in a readable shape`);
+        cache[id] = { stored: [], events: [], error, unread: entry };
+        continue;
+      }
+      const data = result.data;
+      let stored: StoredEvent[] = data.events.map(reviveStoredEvent);
+      let head: ChainHead | undefined = data.head;
+      if (!this.legacyLogsSealed && !head && stored.every((event) => !event.hash)) {
+        stored = sealEvents(stored, undefined);
+        head = chainHead(stored);
+      }
+      let events: EscrowEvent[];
+      try {
+        events = upcastEvents(stored);
+      } catch (error) {
+        cache[id] = { stored, events: [], ...(head ? { head } : {}), error: error as Error, unread: entry };
+        continue;
+      }
+      const snapshot = data.snapshot ?? data.escrow;
+      cache[id] = {
+        stored,
+        events,
+        ...(head ? { head } : {}),
+        ...(snapshot?.currency ? { snapshot: reviveEscrow(snapshot, events.length) } : {}),
+      };
+    }
+
+    this.cache = cache;
+    if (!this.legacyLogsSealed) {
+      this.legacyLogsSealed = true;
+      if (Object.keys(cache).length > 0) this.persist();
+    }
+    return this.cache;
+  }
+
+  // An escrow's data, or the error its log failed to load with
+  private read(id: string): EscrowData | undefined {
+    const data = this.load()[id];
+    if (data?.error) throw data.error;
+    return data;
+  }
+
+  private persist() {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const temp = `${this.file}.tmp`;
+      const escrows = Object.fromEntries(
+        Object.entries(this.cache ?? {}).map(([id, { stored, head, snapshot, error, unread }]) => [
+          id,
+          error ? unread : { events: stored, head, snapshot },
+        ])
+      );
+      const data = { legacyLogsSealed: this.legacyLogsSealed, escrows, outbox: this.outbox };
+      fs.writeFileSync(temp, JSON.stringify(data, null, 2), "utf-8");
+      fs.renameSync(temp, this.file);
+    } catch {
+      // ignore (e.g. read-only filesystems on serverless hosts)
+    }
+  }
+
+  private store(id: string, previous: EscrowData | undefined, appended: EscrowEvent[]): EscrowWithHistory {
+    const sealed = sealEvents(appended, previous?.stored[previous.stored.length - 1]);
+    const stored = [...(previous?.stored ?? []), ...sealed];
+    const events = [...(previous?.events ?? []), ...sealed];
+    const escrow = replayEvents(events);
+    const head = chainHead(stored);
+    this.load()[id] = this.snapshotsEnabled
+      ? { stored, events, head, snapshot: toSnapshot(escrow) }
+      : { stored, events, head };
+    for (let sequence = (previous?.events.length ?? 0) + 1; sequence <= events.length; sequence++) {
+      this.outbox.entries.push({ offset: this.getOutboxHead() + 1, escrowId: id, sequence });
+    }
+    this.persist();
+    return escrow;
+  }
+
+  create(initialEvent: EscrowEvent): EscrowWithHistory {
+    if (this.load()[initialEvent.escrowId]) {
+      throw new Error(`Escrow ${initialEvent.escrowId} already exists`);
+    }
+    return this.store(initialEvent.escrowId, undefined, [initialEvent]);
+  }
+
+  getById(id: string): EscrowWithHistory | null {
+    const data = this.read(id);
+    if (!data) return null;
+    return replayEvents([...data.events]);
+  }
+
+  appendEvents(escrowId: string, events: EscrowEvent[], expectedVersion: number): EscrowWithHistory {
+    const data = this.read(escrowId);
+    if (!data) {
+      throw new Error(`Escrow ${escrowId} not found`);
+    }
+    if (data.events.length !== expectedVersion) {
+      throw new ConcurrencyError(escrowId, expectedVersion, data.events.length);
+    }
+    return this.store(escrowId, data, events);
+  }
+
+  query(query: EscrowQuery): EscrowPage {
+    // Logs that fail to load or replay are left out; the audit reports them
+    const escrows = Object.values(this.load()).flatMap((data) => {
+      if (data.error) return [];
+      if (this.snapshotsEnabled && data.snapshot) return [data.snapshot];
+      try {
+        return [toSnapshot(replayEvents(data.events))];
+      } catch {
+        return [];
+      }
+    });
+    const page = queryEscrows(escrows, query);
+    return {
+      items: page.items.map((escrow) => ({ ...escrow })),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  getEvents(id: string): EscrowEvent[] {
+    return [...(this.read(id)?.events ?? [])];
+  }
+
+  listIds(): string[] {
+    return Object.keys(this.load());
+  }
+
+  getSnapshot(id: string): Escrow | null {
+    const snapshot = this.load()[id]?.snapshot;
+    return snapshot ? { ...snapshot } : null;
+  }
+
+  getStoredEvents(id: string): StoredEvent[] {
+    return [...(this.load()[id]?.stored ?? [])];
+  }
+
+  getChainHead(id: string): ChainHead | null {
+    const head = this.load()[id]?.head;
+    return head ? { ...head } : null;
+  }
+
+  readOutbox(afterOffset: number, limit: number): OutboxEntry[] {
+    this.load();
+    // Offsets are dense, so the entry after `afterOffset` sits at that index
+    return this.outbox.entries.slice(Math.max(afterOffset, 0), Math.max(afterOffset, 0) + limit).map(
+      (entry) => ({ ...entry, event: this.read(entry.escrowId)!.events[entry.sequence - 1] })
+    );
+  }
+
+  getOutboxHead(): number {
+    this.load();
+    return this.outbox.entries.length;
+  }
+
+  getConsumerOffset(consumer: string): number {
+    this.load();
+    return this.outbox.consumers[consumer] ?? 0;
+  }
+
+  saveConsumerOffset(consumer: string, offset: number): void {
+    this.load();
+    this.outbox.consumers[consumer] = offset;
+    this.persist();
+  }
+
+  clear(): void {
+    this.cache = {};
+    this.outbox = { entries: [], consumers: {} };
+    this.legacyLogsSealed = true;
+    this.persist();
+  }
+
+  // Every write is persisted as it happens, so there is nothing to release
+  close(): void {}
+}
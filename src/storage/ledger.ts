@@ -0,0 +1,174 @@
+/**
+ * Ledger Projection
+ *
+ * Builds the double-entry ledger from the stored event logs and checks its
+ * invariants: every entry balances, and an escrow that has reached a terminal
+ * state holds no money.
+ */
+
+import { Actor, canView } from "@/domain/escrow";
+import { isTerminalState } from "@/domain/escrow-state";
+import {
+  AccountBalance,
+  JournalEntry,
+  buyerAccount,
+  computeBalances,
+  holdingAccount,
+  isBalanced,
+  journalEntriesFor,
+  sellerAccount,
+} from "@/domain/ledger";
+import { EscrowRepository, replayEvents } from "./escrow-repository";
+import { EscrowQuery } from "./escrow-query";
+
+export interface LedgerIssue {
+  escrowId: string;
+  kind: "unbalanced_entry" | "holding_not_empty" | "replay_failed";
+  entryId?: string;
+  balance?: number;
+  error?: string;
+}
+
+export interface LedgerReport {
+  checked: number;
+  consistent: boolean;
+  issues: LedgerIssue[];
+}
+
+const PAGE_SIZE = 100;
+
+/**
+ * IDs of the escrows matching a query, across every page
+ */
+function queryIds(
+  repository: EscrowRepository,
+  filter: Pick<EscrowQuery, "buyerId" | "sellerId" | "participantId">
+): string[] {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = repository.query({
+      ...filter,
+      sortBy: "createdAt",
+      sortOrder: "asc",
+      limit: PAGE_SIZE,
+      cursor,
+    });
+    ids.push(...page.items.map((escrow) => escrow.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return ids;
+}
+
+/**
+ * The escrows that can post to an account: its own escrow for a holding
+ * account, the user's escrows for a buyer or seller account, and every escrow
+ * for the platform's accounts
+ */
+function escrowIdsForAccount(repository: EscrowRepository, accountId: string): string[] {
+  const idAfter = (prefix: string) =>
+    accountId.startsWith(prefix) ? accountId.slice(prefix.length) : undefined;
+
+  const escrowId = idAfter(holdingAccount(""));
+  if (escrowId !== undefined) return [escrowId];
+  const buyerId = idAfter(buyerAccount(""));
+  if (buyerId !== undefined) return queryIds(repository, { buyerId });
+  const sellerId = idAfter(sellerAccount(""));
+  if (sellerId !== undefined) return queryIds(repository, { sellerId });
+  return repository.listIds();
+}
+
+/**
+ * Journal entries for the given escrows (every escrow by default), oldest first
+ */
+export function readJournal(
+  repository: EscrowRepository,
+  escrowIds: string[] = repository.listIds()
+): JournalEntry[] {
+  return escrowIds
+    .flatMap((id) => journalEntriesFor(repository.getEvents(id)))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Balances of every account that has ever been posted to, or, given a user,
+ * of the accounts posted to by that user's escrows
+ */
+export function getAccountBalances(repository: EscrowRepository, userId?: string): AccountBalance[] {
+  const escrowIds = userId === undefined ? undefined : queryIds(repository, { participantId: userId });
+  return computeBalances(readJournal(repository, escrowIds));
+}
+
+/**
+ * Balances and entries for one account (empty if it was never posted to),
+ * built from only the escrows that can post to it
+ */
+export function getAccount(
+  repository: EscrowRepository,
+  accountId: string
+): { balances: AccountBalance[]; entries: JournalEntry[] } {
+  const entries = readJournal(repository, escrowIdsForAccount(repository, accountId)).filter(
+    (entry) => entry.lines.some((line) => line.accountId === accountId)
+  );
+  return {
+    balances: computeBalances(entries).filter((balance) => balance.accountId === accountId),
+    entries,
+  };
+}
+
+/**
+ * Admins see every account; other users their own buyer and seller accounts
+ * and the holding accounts of escrows they take part in
+ */
+export function canViewAccount(repository: EscrowRepository, accountId: string, actor: Actor): boolean {
+  if (actor.isAdmin) return true;
+  if (accountId === buyerAccount(actor.userId) || accountId === sellerAccount(actor.userId)) {
+    return true;
+  }
+  if (accountId.startsWith(holdingAccount(""))) {
+    const escrow = repository.getById(accountId.slice(holdingAccount("").length));
+    return escrow !== null && canView(escrow, actor);
+  }
+  return false;
+}
+
+/**
+ * Checks the ledger invariants for every escrow in the repository
+ */
+export function checkLedger(repository: EscrowRepository): LedgerReport {
+  const issues: LedgerIssue[] = [];
+  const ids = repository.listIds();
+
+  for (const escrowId of ids) {
+    const events = repository.getEvents(escrowId);
+    let terminal: boolean;
+    try {
+      terminal = isTerminalState(replayEvents(events).currentState);
+    } catch (error) {
+      issues.push({
+        escrowId,
+        kind: "replay_failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const entries = journalEntriesFor(events);
+    for (const entry of entries) {
+      if (!isBalanced(entry)) {
+        issues.push({ escrowId, kind: "unbalanced_entry", entryId: entry.id });
+      }
+    }
+
+    if (terminal) {
+      const holding = holdingAccount(escrowId);
+      for (const balance of computeBalances(entries)) {
+        if (balance.accountId === holding && balance.balance !== 0) {
+          issues.push({ escrowId, kind: "holding_not_empty", balance: balance.balance });
+        }
+      }
+    }
+  }
+
+  return { checked: ids.length, consistent: issues.length === 0, issues };
+}
@@ -0,0 +1,74 @@
+/**
+ * Revives escrow snapshots and events read back from JSON storage
+ */
+
+import { Escrow } from "@/domain/escrow";
+import { UserRole } from "@/domain/escrow-state";
+import { EscrowDeadlines, EscrowEvent } from "@/domain/events";
+import { StoredEvent, upcastEvents } from "./event-upcasters";
+
+// Parsed JSON; each field is narrowed before it is revived
+type Raw = Record<string, unknown>;
+
+const isRaw = (value: unknown): value is Raw => typeof value === "object" && value !== null;
+
+// Anything but a string or number revives as an invalid date, which replay reports
+function reviveDate(value: unknown): Date {
+  return new Date(typeof value === "string" || typeof value === "number" ? value : NaN);
+}
+
+export function reviveEscrow(raw: Raw, eventCount: number): Escrow {
+  return {
+    ...raw,
+    proposedBy: raw.proposedBy ?? UserRole.BUYER,
+    releasedAmount: raw.releasedAmount ?? 0,
+    version: raw.version ?? eventCount,
+    ...(Array.isArray(raw.milestones)
+      ? {
+          milestones: raw.milestones.filter(isRaw).map((m) => ({
+            ...m,
+            ...(m.releasedAt ? { releasedAt: reviveDate(m.releasedAt) } : {}),
+          })),
+        }
+      : {}),
+    ...reviveDeadlines(raw),
+    ...(isRaw(raw.dispute) ? { dispute: reviveDispute(raw.dispute) } : {}),
+    createdAt: reviveDate(raw.createdAt),
+    updatedAt: reviveDate(raw.updatedAt),
+  } as Escrow;
+}
+
+/**
+ * Revives a stored event's dates, leaving it in the version it was written in
+ */
+export function reviveStoredEvent(raw: Raw): StoredEvent {
+  return {
+    ...raw,
+    ...reviveDeadlines(raw),
+    ...(isRaw(raw.dispute) ? { dispute: reviveDispute(raw.dispute) } : {}),
+    timestamp: reviveDate(raw.timestamp),
+  } as StoredEvent;
+}
+
+/**
+ * Revives one escrow's log and upcasts it to the current event shape
+ */
+export function reviveEvents(raw: Raw[]): EscrowEvent[] {
+  return upcastEvents(raw.map(reviveStoredEvent));
+}
+
+function reviveDeadlines(raw: Raw): EscrowDeadlines {
+  return {
+    ...(raw.fundingDeadline ? { fundingDeadline: reviveDate(raw.fundingDeadline) } : {}),
+    ...(raw.inspectionDeadline ? { inspectionDeadline: reviveDate(raw.inspectionDeadline) } : {}),
+  };
+}
+
+// Covers both the case on a snapshot and the details on a DISPUTE event
+function reviveDispute(raw: Raw): Raw {
+  const revived = { ...raw };
+  for (const field of ["raisedAt", "sellerResponseDeadline", "sellerRespondedAt", "assignedAt", "decidedAt"]) {
+    if (raw[field]) revived[field] = reviveDate(raw[field]);
+  }
+  return revived;
+}
@@ -0,0 +1,444 @@
+/**
+ * SQLite-backed Escrow Repository
+ *
+ * Stores the append-only log in `escrow_events` and, when enabled, snapshots
+ * in `escrows`. Snapshots only serve queries; reads replay the log. Every write
+ * runs in a transaction, so a snapshot never lags behind its events and every
+ * event gets its `escrow_outbox` row and moves the log's `escrow_chain_heads` row.
+ */
+
+import Database from "better-sqlite3";
+import fs from "node:fs";
+import path from "node:path";
+import { Escrow, EscrowWithHistory, toSnapshot } from "@/domain/escrow";
+import { EscrowEvent } from "@/domain/events";
+import { EscrowRepository, OutboxEntry, RepositoryOptions, replayEvents } from "./escrow-repository";
+import {
+  EscrowPage,
+  EscrowQuery,
+  EscrowSortField,
+  decodeCursor,
+  encodeCursor,
+  queryEscrows,
+} from "./escrow-query";
+import { ConcurrencyError } from "./errors";
+import { ChainHead, chainHead, sealEvents } from "./hash-chain";
+import { StoredEvent, isLegacyLog, upcastEvents } from "./event-upcasters";
+import { reviveEscrow, reviveStoredEvent } from "./serialization";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS escrows (
+    id TEXT PRIMARY KEY,
+    buyer_id TEXT NOT NULL,
+    seller_id TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    currency TEXT NOT NULL,
+    current_state TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    snapshot TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS escrows_buyer_idx ON escrows (buyer_id);
+  CREATE INDEX IF NOT EXISTS escrows_seller_idx ON escrows (seller_id);
+  CREATE INDEX IF NOT EXISTS escrows_state_idx ON escrows (current_state);
+
+  CREATE TABLE IF NOT EXISTS escrow_events (
+    escrow_id TEXT NOT NULL,
+    sequence INTEGER NOT NULL,
+    id TEXT NOT NULL UNIQUE,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (escrow_id, sequence)
+  );
+
+  CREATE TABLE IF NOT EXISTS escrow_chain_heads (
+    escrow_id TEXT PRIMARY KEY,
+    hash TEXT NOT NULL,
+    length INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS escrow_outbox (
+    position INTEGER PRIMARY KEY AUTOINCREMENT,
+    escrow_id TEXT NOT NULL,
+    sequence INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS outbox_consumers (
+    name TEXT PRIMARY KEY,
+    position INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    name TEXT PRIMARY KEY,
+    applied_at INTEGER NOT NULL
+  );
+`;
+
+const SORT_COLUMNS: Record<EscrowSortField, string> = {
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+  amount: "amount",
+  currentState: "current_state",
+  buyerId: "buyer_id",
+  sellerId: "seller_id",
+};
+
+interface EscrowRow {
+  snapshot: string;
+  version: number;
+}
+
+export class SqliteEscrowRepository implements EscrowRepository {
+  readonly snapshotsEnabled: boolean;
+  private readonly db: Database.Database;
+
+  constructor(file: string, options: RepositoryOptions = {}) {
+    this.snapshotsEnabled = options.snapshots ?? true;
+    if (file !== ":memory:") {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+    this.migrateCurrency();
+    this.sealLegacyLogs();
+  }
+
+  /**
+   * Databases created before escrows carried a currency hold snapshots in USD
+   * major units. Adds the column and rebuilds those snapshots; the events stay
+   * as written and are upcast as they load.
+   */
+  private migrateCurrency() {
+    const columns = this.db.prepare("PRAGMA table_info(escrows)").all() as { name: string }[];
+    if (columns.some((column) => column.name === "currency")) return;
+
+    this.db.transaction(() => {
+      this.db.exec("ALTER TABLE escrows ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD'");
+      for (const id of this.listIds()) {
+        const stored = this.readStoredEvents(id);
+        if (!isLegacyLog(stored)) continue;
+
+        if (this.snapshotsEnabled) {
+          this.writeSnapshot(toSnapshot(replayEvents(upcastEvents(stored))));
+        } else {
+          this.db.prepare("DELETE FROM escrows WHERE id = ?").run(id);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Logs written before events were hashed are sealed the first time the database
+   * opens, and the migration is recorded. After that a log missing its hashes or
+   * head was tampered with and is left for verification to report, never resealed.
+   */
+  private sealLegacyLogs() {
+    const migration = "seal_legacy_logs";
+    if (this.db.prepare("SELECT 1 FROM schema_migrations WHERE name = ?").get(migration)) return;
+
+    const ids = (
+      this.db
+        .prepare(
+          `SELECT escrow_id FROM escrow_events
+           WHERE escrow_id NOT IN (SELECT escrow_id FROM escrow_chain_heads)
+           GROUP BY escrow_id
+           HAVING COUNT(json_extract(payload, '$.hash')) = 0`
+        )
+        .all() as { escrow_id: string }[]
+    ).map((row) => row.escrow_id);
+
+    const update = this.db.prepare(
+      "UPDATE escrow_events SET payload = ? WHERE escrow_id = ? AND sequence = ?"
+    );
+    this.db.transaction(() => {
+      for (const id of ids) {
+        const events = sealEvents(this.readStoredEvents(id), undefined);
+        events.forEach((event, index) => update.run(JSON.stringify(event), id, index + 1));
+        this.writeChainHead(id, chainHead(events));
+      }
+      this.db.prepare("INSERT INTO schema_migrations (name, applied_at) VALUES (?, ?)").run(migration, Date.now());
+    })();
+  }
+
+  private writeChainHead(escrowId: string, head: ChainHead) {
+    this.db
+      .prepare(
+        `INSERT INTO escrow_chain_heads (escrow_id, hash, length) VALUES (?, ?, ?)
+         ON CONFLICT (escrow_id) DO UPDATE SET hash = excluded.hash, length = excluded.length`
+      )
+      .run(escrowId, head.hash, head.length);
+  }
+
+  private writeSnapshot(escrow: Escrow) {
+    this.db
+      .prepare(
+        `INSERT INTO escrows (id, buyer_id, seller_id, amount, currency, current_state, created_at, updated_at, version, snapshot)
+         VALUES (@id, @buyerId, @sellerId, @amount, @currency, @currentState, @createdAt, @updatedAt, @version, @snapshot)
+         ON CONFLICT (id) DO UPDATE SET
+           buyer_id = excluded.buyer_id,
+           seller_id = excluded.seller_id,
+           amount = excluded.amount,
+           currency = excluded.currency,
+           current_state = excluded.current_state,
+           updated_at = excluded.updated_at,
+           version = excluded.version,
+           snapshot = excluded.snapshot`
+      )
+      .run({
+        id: escrow.id,
+        buyerId: escrow.buyerId,
+        sellerId: escrow.sellerId,
+        amount: escrow.amount,
+        currency: escrow.currency,
+        currentState: escrow.currentState,
+        createdAt: escrow.createdAt.getTime(),
+        updatedAt: escrow.updatedAt.getTime(),
+        version: escrow.version,
+        snapshot: JSON.stringify(escrow),
+      });
+  }
+
+  // Expects sealed events
+  private insertEvents(escrowId: string, firstSequence: number, events: EscrowEvent[]) {
+    const insert = this.db.prepare(
+      "INSERT INTO escrow_events (escrow_id, sequence, id, payload) VALUES (?, ?, ?, ?)"
+    );
+    const enqueue = this.db.prepare("INSERT INTO escrow_outbox (escrow_id, sequence) VALUES (?, ?)");
+    events.forEach((event, index) => {
+      insert.run(escrowId, firstSequence + index, event.id, JSON.stringify(event));
+      enqueue.run(escrowId, firstSequence + index);
+    });
+    this.writeChainHead(escrowId, {
+      hash: events[events.length - 1].hash!,
+      length: firstSequence + events.length - 1,
+    });
+  }
+
+  private readStoredEvents(id: string): StoredEvent[] {
+    return (
+      this.db
+        .prepare("SELECT payload FROM escrow_events WHERE escrow_id = ? ORDER BY sequence")
+        .all(id) as { payload: string }[]
+    ).map((event) => reviveStoredEvent(JSON.parse(event.payload)));
+  }
+
+  private readEvents(id: string): EscrowEvent[] {
+    return upcastEvents(this.readStoredEvents(id));
+  }
+
+  private currentVersion(id: string): number {
+    const row = this.db
+      .prepare("SELECT COUNT(*) AS count FROM escrow_events WHERE escrow_id = ?")
+      .get(id) as { count: number };
+    return row.count;
+  }
+
+  create(initialEvent: EscrowEvent): EscrowWithHistory {
+    const id = initialEvent.escrowId;
+    return this.db.transaction(() => {
+      if (this.currentVersion(id) > 0) {
+        throw new Error(`Escrow ${id} already exists`);
+      }
+      const events = sealEvents([initialEvent], undefined);
+      const escrow = replayEvents(events);
+      this.insertEvents(id, 1, events);
+      if (this.snapshotsEnabled) this.writeSnapshot(toSnapshot(escrow));
+      return escrow;
+    })();
+  }
+
+  getById(id: string): EscrowWithHistory | null {
+    const events = this.readEvents(id);
+    if (events.length === 0) return null;
+    return replayEvents(events);
+  }
+
+  appendEvents(escrowId: string, events: EscrowEvent[], expectedVersion: number): EscrowWithHistory {
+    return this.db.transaction(() => {
+      const actual = this.currentVersion(escrowId);
+      if (actual === 0) {
+        throw new Error(`Escrow ${escrowId} not found`);
+      }
+      if (actual !== expectedVersion) {
+        throw new ConcurrencyError(escrowId, expectedVersion, actual);
+      }
+      const stored = this.readStoredEvents(escrowId);
+      const sealed = sealEvents(events, stored[stored.length - 1]);
+      const escrow = replayEvents([...upcastEvents(stored), ...sealed]);
+      this.insertEvents(escrowId, actual + 1, sealed);
+      if (this.snapshotsEnabled) this.writeSnapshot(toSnapshot(escrow));
+      return escrow;
+    })();
+  }
+
+  query(query: EscrowQuery): EscrowPage {
+    if (!this.snapshotsEnabled) {
+      // Logs that fail to load or replay are left out; the audit reports them
+      const escrows = this.listIds().flatMap((id) => {
+        try {
+          return [toSnapshot(replayEvents(this.readEvents(id)))];
+        } catch {
+          return [];
+        }
+      });
+      return queryEscrows(escrows, query);
+    }
+
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.currentState && query.currentState.length > 0) {
+      where.push(`current_state IN (${query.currentState.map(() => "?").join(", ")})`);
+      params.push(...query.currentState);
+    }
+    if (query.buyerId !== undefined) {
+      where.push("buyer_id = ?");
+      params.push(query.buyerId);
+    }
+    if (query.sellerId !== undefined) {
+      where.push("seller_id = ?");
+      params.push(query.sellerId);
+    }
+    if (query.participantId !== undefined) {
+      where.push("(buyer_id = ? OR seller_id = ?)");
+      params.push(query.participantId, query.participantId);
+    }
+    if (query.currency !== undefined) {
+      where.push("currency = ?");
+      params.push(query.currency);
+    }
+    if (query.minAmount !== undefined) {
+      where.push("amount >= ?");
+      params.push(query.minAmount);
+    }
+    if (query.maxAmount !== undefined) {
+      where.push("amount <= ?");
+      params.push(query.maxAmount);
+    }
+    if (query.createdAfter) {
+      where.push("created_at >= ?");
+      params.push(query.createdAfter.getTime());
+    }
+    if (query.createdBefore) {
+      where.push("created_at <= ?");
+      params.push(query.createdBefore.getTime());
+    }
+    if (query.updatedAfter) {
+      where.push("updated_at >= ?");
+      params.push(query.updatedAfter.getTime());
+    }
+    if (query.updatedBefore) {
+      where.push("updated_at <= ?");
+      params.push(query.updatedBefore.getTime());
+    }
+
+    // Keyset pagination on (sort column, id), matching the in-memory query engine
+    const column = SORT_COLUMNS[query.sortBy];
+    const direction = query.sortOrder === "asc" ? "ASC" : "DESC";
+    const comparator = query.sortOrder === "asc" ? ">" : "<";
+    if (query.cursor) {
+      const after = decodeCursor(query.cursor, query.sortBy, query.sortOrder);
+      where.push(`(${column} ${comparator} ? OR (${column} = ? AND id ${comparator} ?))`);
+      params.push(after.v, after.v, after.id);
+    }
+
+    const sql = `SELECT snapshot, version FROM escrows
+      ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY ${column} ${direction}, id ${direction}
+      LIMIT ?`;
+    const rows = this.db.prepare(sql).all(...params, query.limit + 1) as EscrowRow[];
+
+    const items = rows
+      .slice(0, query.limit)
+      .map((row) => reviveEscrow(JSON.parse(row.snapshot), row.version));
+    const nextCursor =
+      rows.length > query.limit
+        ? encodeCursor(items[items.length - 1], query.sortBy, query.sortOrder)
+        : null;
+
+    return { items, nextCursor };
+  }
+
+  getEvents(id: string): EscrowEvent[] {
+    return this.readEvents(id);
+  }
+
+  listIds(): string[] {
+    return (
+      this.db.prepare("SELECT DISTINCT escrow_id FROM escrow_events ORDER BY escrow_id").all() as {
+        escrow_id: string;
+      }[]
+    ).map((row) => row.escrow_id);
+  }
+
+  getSnapshot(id: string): Escrow | null {
+    const row = this.db.prepare("SELECT snapshot, version FROM escrows WHERE id = ?").get(id) as
+      | EscrowRow
+      | undefined;
+    return row ? reviveEscrow(JSON.parse(row.snapshot), row.version) : null;
+  }
+
+  getStoredEvents(id: string): StoredEvent[] {
+    return this.readStoredEvents(id);
+  }
+
+  getChainHead(id: string): ChainHead | null {
+    const row = this.db.prepare("SELECT hash, length FROM escrow_chain_heads WHERE escrow_id = ?").get(id) as
+      | ChainHead
+      | undefined;
+    return row ? { hash: row.hash, length: row.length } : null;
+  }
+
+  readOutbox(afterOffset: number, limit: number): OutboxEntry[] {
+    const rows = this.db
+      .prepare(
+        `SELECT o.position, o.escrow_id, o.sequence, e.payload FROM escrow_outbox o
+         JOIN escrow_events e ON e.escrow_id = o.escrow_id AND e.sequence = o.sequence
+         WHERE o.position > ? ORDER BY o.position LIMIT ?`
+      )
+      .all(afterOffset, limit) as { position: number; escrow_id: string; sequence: number; payload: string }[];
+    return rows.map((row) => ({
+      offset: row.position,
+      escrowId: row.escrow_id,
+      sequence: row.sequence,
+      // Outbox entries postdate currencies, so an event is upcast without the rest of its log
+      event: upcastEvents([reviveStoredEvent(JSON.parse(row.payload))])[0],
+    }));
+  }
+
+  getOutboxHead(): number {
+    const row = this.db.prepare("SELECT MAX(position) AS head FROM escrow_outbox").get() as {
+      head: number | null;
+    };
+    return row.head ?? 0;
+  }
+
+  getConsumerOffset(consumer: string): number {
+    const row = this.db.prepare("SELECT position FROM outbox_consumers WHERE name = ?").get(consumer) as
+      | { position: number }
+      | undefined;
+    return row?.position ?? 0;
+  }
+
+  saveConsumerOffset(consumer: string, offset: number): void {
+    this.db
+      .prepare(
+        `INSERT INTO outbox_consumers (name, position) VALUES (?, ?)
+         ON CONFLICT (name) DO UPDATE SET position = excluded.position`
+      )
+      .run(consumer, offset);
+  }
+
+  clear(): void {
+    this.db.transaction(() => {
+      this.db.exec(
+        "DELETE FROM escrow_events; DELETE FROM escrows; DELETE FROM escrow_chain_heads; DELETE FROM escrow_outbox; DELETE FROM outbox_consumers;"
+      );
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * JSON-backed Webhook Store (dev)
+ *
+ * Holds webhook subscriptions and the delivery log: one record per event sent
+ * to each subscription, with every attempt made to deliver it.
+ * Persists to webhooks.json in the data directory.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { EventType } from "@/domain/events";
+import { getDataDir } from "./escrow-store";
+
+export interface WebhookSubscription {
+  id: string;
+  // The user who registered the subscription; events are only sent for escrows they can view
+  ownerId: string;
+  url: string;
+  secret: string;
+  // Event types to deliver; empty means every type
+  eventTypes: EventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface DeliveryAttempt {
+  at: Date;
+  // HTTP status of the response, if one was received
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  escrowId: string;
+  eventId: string;
+  eventType: EventType;
+  // Position of the event in its escrow's log, starting at 1
+  sequence: number;
+  // The exact JSON body sent (and signed) on every attempt
+  payload: string;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  // When the next attempt is due; null once the delivery has succeeded or failed
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+}
+
+interface WebhookData {
+  subscriptions: WebhookSubscription[];
+  deliveries: WebhookDelivery[];
+}
+
+// The shape of webhooks.json; dates are stored as ISO strings
+const storedSubscriptionSchema = z.object({
+  id: z.string(),
+  ownerId: z.string(),
+  url: z.string(),
+  secret: z.string(),
+  eventTypes: z.array(z.nativeEnum(EventType)),
+  active: z.boolean(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+const storedDeliverySchema = z.object({
+  id: z.string(),
+  subscriptionId: z.string(),
+  escrowId: z.string(),
+  eventId: z.string(),
+  eventType: z.nativeEnum(EventType),
+  sequence: z.number().int(),
+  payload: z.string(),
+  status: z.enum(["pending", "succeeded", "failed"]),
+  attempts: z.array(
+    z.object({
+      at: z.coerce.date(),
+      statusCode: z.number().int().optional(),
+      error: z.string().optional(),
+      durationMs: z.number(),
+    })
+  ),
+  nextAttemptAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+const storedWebhookDataSchema = z.object({
+  subscriptions: z.array(storedSubscriptionSchema).default([]),
+  deliveries: z.array(storedDeliverySchema).default([]),
+});
+
+export class WebhookStore {
+  private cache: WebhookData | null = null;
+
+  constructor(private readonly file: string) {}
+
+  private load(): WebhookData {
+    if (this.cache) return this.cache;
+
+    let parsed: unknown = {};
+    try {
+      if (fs.existsSync(this.file)) {
+        parsed = JSON.parse(fs.readFileSync(this.file, "utf-8") || "{}");
+      }
+    } catch {
+      parsed = {};
+    }
+
+    // A file this store did not write is treated like an unreadable one
+    const result = storedWebhookDataSchema.safeParse(parsed);
+    this.cache = result.success ? result.data : { subscriptions: [], deliveries: [] };
+    return this.cache;
+  }
+
+  private persist() {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.cache, null, 2), "utf-8");
+    } catch {
+      // ignore (e.g. read-only filesystems on serverless hosts)
+    }
+  }
+
+  /**
+   * Every subscription, oldest first
+   */
+  listSubscriptions(): WebhookSubscription[] {
+    return this.load().subscriptions.map((subscription) => ({ ...subscription }));
+  }
+
+  getSubscription(id: string): WebhookSubscription | null {
+    const subscription = this.load().subscriptions.find((s) => s.id === id);
+    return subscription ? { ...subscription } : null;
+  }
+
+  /**
+   * Creates or replaces a subscription
+   */
+  saveSubscription(subscription: WebhookSubscription): void {
+    const data = this.load();
+    const index = data.subscriptions.findIndex((s) => s.id === subscription.id);
+    if (index === -1) data.subscriptions.push({ ...subscription });
+    else data.subscriptions[index] = { ...subscription };
+    this.persist();
+  }
+
+  /**
+   * Removes a subscription and its delivery log; returns false if it did not exist
+   */
+  deleteSubscription(id: string): boolean {
+    const data = this.load();
+    const before = data.subscriptions.length;
+    data.subscriptions = data.subscriptions.filter((s) => s.id !== id);
+    if (data.subscriptions.length === before) return false;
+    data.deliveries = data.deliveries.filter((d) => d.subscriptionId !== id);
+    this.persist();
+    return true;
+  }
+
+  addDeliveries(deliveries: WebhookDelivery[]): void {
+    if (deliveries.length === 0) return;
+    this.load().deliveries.push(...deliveries.map((delivery) => ({ ...delivery })));
+    this.persist();
+  }
+
+  /**
+   * Deliveries in the order they were queued, optionally for one subscription
+   */
+  listDeliveries(subscriptionId?: string): WebhookDelivery[] {
+    return this.load()
+      .deliveries.filter((d) => subscriptionId === undefined || d.subscriptionId === subscriptionId)
+      .map((delivery) => ({ ...delivery, attempts: [...delivery.attempts] }));
+  }
+
+  /**
+   * The delivery of an event to a subscription, if it was ever queued
+   */
+  findDelivery(subscriptionId: string, eventId: string): WebhookDelivery | null {
+    const delivery = this.load().deliveries.find(
+      (d) => d.subscriptionId === subscriptionId && d.eventId === eventId
+    );
+    return delivery ? { ...delivery, attempts: [...delivery.attempts] } : null;
+  }
+
+  /**
+   * Replaces a delivery record after an attempt
+   */
+  saveDelivery(delivery: WebhookDelivery): void {
+    const data = this.load();
+    const index = data.deliveries.findIndex((d) => d.id === delivery.id);
+    if (index === -1) return;
+    data.deliveries[index] = { ...delivery, attempts: [...delivery.attempts] };
+    this.persist();
+  }
+
+  /**
+   * Clears all data (useful for testing)
+   */
+  clear(): void {
+    this.cache = { subscriptions: [], deliveries: [] };
+    this.persist();
+  }
+}
+
+/**
+ * Creates a store in the given data directory
+ */
+export function createWebhookStore(dataDir: string = getDataDir()): WebhookStore {
+  return new WebhookStore(path.join(dataDir, "webhooks.json"));
+}
+
+// Global singleton so every route bundle and HMR reload shares one store
+declare global {
+  var __ESCROW_WEBHOOK_STORE: WebhookStore | undefined;
+}
+
+export const webhookStore: WebhookStore = (globalThis.__ESCROW_WEBHOOK_STORE ??=
+  createWebhookStore());